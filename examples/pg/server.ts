@@ -5,21 +5,16 @@ import { resolve } from "node:path";
 import pg from "pg";
 import dotenv from "dotenv";
 import gracefulShutdown from "http-graceful-shutdown";
+import {
+  createEventPublisher,
+  migrate as migrateEvents,
+} from "../../src/pg/client.js";
 import { eventSchemas, eventTypes } from "./events.js";
 dotenv.config();
 
 export async function migrate(client: pg.Client): Promise<void> {
-  await client.query(`CREATE TABLE IF NOT EXISTS events (
-    id UUID,
-    timestamp TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
-    type VARCHAR(255) NOT NULL,
-    data JSONB,
-    correlation_id UUID,
-    handler_results JSONB,
-    errors INTEGER,
-    backoff_until TIMESTAMPTZ,
-    processed_at TIMESTAMPTZ
-)`);
+  // Creates the events table and its indexes, and upgrades them on later releases
+  await migrateEvents({ querier: client });
   await client.query(`CREATE TABLE IF NOT EXISTS activity (
     id UUID,
     timestamp TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
@@ -29,19 +24,6 @@ export async function migrate(client: pg.Client): Promise<void> {
     path TEXT,
     correlation_id UUID
 )`);
-  // Primary index for getEventsToProcess query (most critical)
-  // This partial index only includes unprocessed events, keeping it small and fast
-  await client.query(
-    `CREATE INDEX IF NOT EXISTS idx_events_processing ON events(processed_at, backoff_until, errors) WHERE processed_at IS NULL`,
-  );
-  // Index for lookups by id (if id is not already the primary key)
-  await client.query(
-    `CREATE UNIQUE INDEX IF NOT EXISTS idx_events_id ON events(id)`,
-  );
-  // Optional: Index for correlation_id if you frequently query by correlation
-  await client.query(
-    `CREATE INDEX IF NOT EXISTS idx_events_correlation_id ON events(correlation_id)`,
-  );
 }
 
 const main = async (): Promise<void> => {
@@ -54,6 +36,8 @@ const main = async (): Promise<void> => {
   await client.connect();
   await migrate(client);
 
+  const publisher = createEventPublisher({ eventSchemas });
+
   const server = http.createServer(async (req, res) => {
     const correlationId = randomUUID();
     try {
@@ -73,21 +57,16 @@ const main = async (): Promise<void> => {
           correlationId,
         ],
       );
-      await client.query(
-        `INSERT INTO events (id, type, data, correlation_id, handler_results, errors) VALUES (
-                $1, $2, $3, $4, $5, $6
-            )`,
-        [
-          randomUUID(),
-          eventTypes.ResourceSaved,
-          eventSchemas.ResourceSaved.parse({
+      await publisher.publish(
+        {
+          type: eventTypes.ResourceSaved,
+          data: eventSchemas.ResourceSaved.parse({
             type: "activity",
             id: activityId,
           }),
-          correlationId,
-          {},
-          0,
-        ],
+          correlation_id: correlationId,
+        },
+        { querier: client },
       );
       await client.query("COMMIT");
       res.statusCode = 201;
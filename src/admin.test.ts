@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { resetHandlerResults } from "./admin.js";
+
+describe("resetHandlerResults", () => {
+  const processedAt = new Date("2024-06-01T12:00:00.000Z");
+  const error = { error: "boom", timestamp: processedAt };
+
+  it("clears unprocessable markers of failed handlers and keeps succeeded handlers", () => {
+    const handlerResults = {
+      sendEmail: { processed_at: processedAt },
+      chargeCard: { unprocessable_at: processedAt, errors: [error] },
+      notifySlack: { errors: [error] },
+    };
+
+    expect(resetHandlerResults(handlerResults)).toEqual({
+      sendEmail: { processed_at: processedAt },
+      chargeCard: { errors: [error] },
+      notifySlack: { errors: [error] },
+    });
+    expect(handlerResults.chargeCard.unprocessable_at).toBe(processedAt);
+  });
+
+  it("resets the selected handlers even when they succeeded", () => {
+    expect(
+      resetHandlerResults(
+        {
+          sendEmail: { processed_at: processedAt, errors: [error] },
+          chargeCard: { processed_at: processedAt },
+        },
+        ["sendEmail"],
+      ),
+    ).toEqual({
+      sendEmail: { errors: [error] },
+      chargeCard: { processed_at: processedAt },
+    });
+  });
+
+  it("restores the attempt budget of exhausted handlers", () => {
+    expect(
+      resetHandlerResults({
+        sendEmail: { exhausted_at: processedAt, attempts: 3, errors: [error] },
+      }),
+    ).toEqual({
+      sendEmail: { errors: [error] },
+    });
+  });
+});
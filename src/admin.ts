@@ -0,0 +1,100 @@
+import type {
+  TxOBEvent,
+  TxOBEventByType,
+  TxOBEventDataMap,
+} from "./processor.js";
+
+export type TxOBListFailedEventsOpts = {
+  // Events with at least this many errors were dead-lettered. Should match the processor `maxErrors`
+  maxErrors: number;
+  // Defaults to 100
+  limit?: number;
+  // Defaults to 0
+  offset?: number;
+};
+
+// `failed` events were dead-lettered after reaching `maxErrors`
+export type TxOBEventStatus = "pending" | "failed" | "processed";
+
+export type TxOBListEventsOpts = {
+  // Should match the processor `maxErrors` to tell failed and processed events apart
+  maxErrors: number;
+  // Defaults to events of every status
+  status?: TxOBEventStatus;
+  type?: string;
+  // Only events created at or after this date
+  since?: Date;
+  // Order by creation date. Defaults to "desc"
+  order?: "asc" | "desc";
+  // Defaults to 100
+  limit?: number;
+  // Defaults to 0
+  offset?: number;
+};
+
+export interface TxOBAdminClient<
+  TxOBEventType extends string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+> {
+  // Processed events that reached max errors, most recently failed first
+  listFailedEvents(
+    opts: TxOBListFailedEventsOpts,
+  ): Promise<TxOBEventByType<TxOBEventType, TEventDataMap>[]>;
+  listEvents(
+    opts: TxOBListEventsOpts,
+  ): Promise<TxOBEventByType<TxOBEventType, TEventDataMap>[]>;
+  getEvent(
+    eventId: string,
+  ): Promise<TxOBEventByType<TxOBEventType, TEventDataMap> | null>;
+  // Makes a processed event pending again. Handlers that already succeeded are not re-run
+  // Resolves `false` when no processed event with the id exists
+  retryEvent(eventId: string): Promise<boolean>;
+  // Like `retryEvent` but also re-runs `handlerName` when it already succeeded
+  retryHandler(eventId: string, handlerName: string): Promise<boolean>;
+  // Deletes a processed event. Resolves `false` when no processed event with the id exists
+  discardEvent(eventId: string): Promise<boolean>;
+}
+
+/**
+ * Resets handler results so that the processor picks the handlers up again once the event is pending.
+ * Failed handlers lose their `unprocessable_at` and `exhausted_at` markers and their `attempts` count while
+ * their error history is kept. Handlers listed in `handlerNames` are also reset when they succeeded.
+ *
+ * @param handlerResults - The `handler_results` of the event being retried
+ * @param handlerNames - Handlers to re-run regardless of their previous outcome
+ * @returns New handler results, leaving the input untouched
+ */
+export const resetHandlerResults = (
+  handlerResults: TxOBEvent<string>["handler_results"],
+  handlerNames: string[] = [],
+): TxOBEvent<string>["handler_results"] =>
+  Object.fromEntries(
+    Object.entries(handlerResults).map(([handlerName, result]) => {
+      if (result.processed_at && !handlerNames.includes(handlerName)) {
+        return [handlerName, result];
+      }
+      const {
+        processed_at: _processedAt,
+        unprocessable_at: _unprocessableAt,
+        exhausted_at: _exhaustedAt,
+        attempts: _attempts,
+        ...rest
+      } = result;
+      return [handlerName, rest];
+    }),
+  );
+
+/**
+ * @param event - The event to classify
+ * @param maxErrors - The processor `maxErrors`
+ * @returns Whether the event is pending, dead-lettered or successfully processed
+ */
+export const getEventStatus = (
+  event: Pick<TxOBEvent<string>, "processed_at" | "errors">,
+  maxErrors: number,
+): TxOBEventStatus =>
+  !event.processed_at
+    ? "pending"
+    : event.errors >= maxErrors
+      ? "failed"
+      : "processed";
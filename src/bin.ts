@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+import { runCli } from "./cli.js";
+
+const abortController = new AbortController();
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => abortController.abort());
+}
+
+runCli(process.argv.slice(2), {
+  stdout: process.stdout,
+  stderr: process.stderr,
+  signal: abortController.signal,
+}).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
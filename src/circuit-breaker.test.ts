@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import {
+  HandlerCircuitBreaker,
+  TxOBCircuitBreakerState,
+} from "./circuit-breaker.js";
+import {
+  TxOBTelemetryAttributeKey,
+  type TxOBTelemetryInstruments,
+} from "./telemetry.js";
+
+const startedAt = new Date("2024-06-01T12:00:00.000Z");
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(startedAt);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const createCircuitBreaker = (telemetry?: TxOBTelemetryInstruments) =>
+  new HandlerCircuitBreaker({
+    eventType: "UserCreated",
+    handlerName: "sendEmail",
+    failureThreshold: 2,
+    resetTimeoutMs: 1_000,
+    telemetry,
+  });
+
+describe("HandlerCircuitBreaker", () => {
+  it("opens after consecutive failures reach the threshold", () => {
+    const circuitBreaker = createCircuitBreaker();
+
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordSuccess();
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+
+    circuitBreaker.recordFailure();
+    expect(circuitBreaker.tryAcquire()).toBe(false);
+    expect(circuitBreaker.getStatus()).toEqual({
+      eventType: "UserCreated",
+      handlerName: "sendEmail",
+      state: TxOBCircuitBreakerState.Open,
+      failures: 2,
+      openedAt: startedAt,
+      retryAt: new Date(startedAt.getTime() + 1_000),
+    });
+  });
+
+  it("lets a single probe through once the reset timeout elapsed and closes on success", () => {
+    const circuitBreaker = createCircuitBreaker();
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+
+    vi.advanceTimersByTime(1_000);
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+    expect(circuitBreaker.getStatus().state).toBe(
+      TxOBCircuitBreakerState.HalfOpen,
+    );
+    expect(circuitBreaker.tryAcquire()).toBe(false);
+
+    circuitBreaker.recordSuccess();
+    expect(circuitBreaker.getStatus()).toEqual({
+      eventType: "UserCreated",
+      handlerName: "sendEmail",
+      state: TxOBCircuitBreakerState.Closed,
+      failures: 0,
+    });
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+  });
+
+  it("opens again when the probe fails", () => {
+    const circuitBreaker = createCircuitBreaker();
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+
+    vi.advanceTimersByTime(1_000);
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+    circuitBreaker.recordFailure();
+
+    expect(circuitBreaker.tryAcquire()).toBe(false);
+    expect(circuitBreaker.getRetryAt()).toEqual(
+      new Date(startedAt.getTime() + 2_000),
+    );
+  });
+
+  it("records state transitions through telemetry", () => {
+    const counter = { add: vi.fn() };
+    const circuitBreaker = createCircuitBreaker({
+      circuitBreakerTransitionCounter: counter,
+    });
+    circuitBreaker.recordFailure();
+    circuitBreaker.recordFailure();
+
+    expect(counter.add).toHaveBeenCalledOnce();
+    expect(counter.add).toHaveBeenCalledWith(1, {
+      [TxOBTelemetryAttributeKey.EventType]: "UserCreated",
+      [TxOBTelemetryAttributeKey.HandlerName]: "sendEmail",
+      [TxOBTelemetryAttributeKey.CircuitBreakerState]:
+        TxOBCircuitBreakerState.Open,
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import type { Logger } from "./processor.js";
+import {
+  recordTelemetryCounter,
+  TxOBTelemetryAttributeKey,
+  type TxOBTelemetryInstruments,
+} from "./telemetry.js";
+
+export const TxOBCircuitBreakerState = {
+  Closed: "closed",
+  Open: "open",
+  HalfOpen: "half_open",
+} as const;
+
+export type TxOBCircuitBreakerState =
+  (typeof TxOBCircuitBreakerState)[keyof typeof TxOBCircuitBreakerState];
+
+export type TxOBCircuitBreakerOpts = {
+  // Consecutive failed executions that open the circuit
+  failureThreshold?: number;
+  // How long the circuit stays open before a single probe execution is let through
+  resetTimeoutMs?: number;
+};
+
+export type TxOBCircuitBreakerStatus = {
+  eventType: string;
+  handlerName: string;
+  state: TxOBCircuitBreakerState;
+  // Consecutive failures since the circuit last closed
+  failures: number;
+  openedAt?: Date;
+  // When short-circuited executions are retried
+  retryAt?: Date;
+};
+
+const defaultFailureThreshold = 5;
+const defaultResetTimeoutMs = 30_000;
+
+/**
+ * Tracks the executions of a single handler across events. Once `failureThreshold` consecutive
+ * executions failed the circuit opens and the handler is skipped until `resetTimeoutMs` elapsed.
+ * A single probe execution then decides whether the circuit closes again or stays open.
+ * State is kept in memory, so every processor instance keeps its own circuit.
+ */
+export class HandlerCircuitBreaker {
+  private eventType: string;
+  private handlerName: string;
+  private opts: {
+    failureThreshold: number;
+    resetTimeoutMs: number;
+    logger?: Logger;
+    telemetry?: TxOBTelemetryInstruments;
+  };
+  private state: TxOBCircuitBreakerState = TxOBCircuitBreakerState.Closed;
+  private failures = 0;
+  private openedAt?: number;
+  private probing = false;
+
+  constructor({
+    eventType,
+    handlerName,
+    ...opts
+  }: TxOBCircuitBreakerOpts & {
+    eventType: string;
+    handlerName: string;
+    logger?: Logger;
+    telemetry?: TxOBTelemetryInstruments;
+  }) {
+    this.eventType = eventType;
+    this.handlerName = handlerName;
+    this.opts = {
+      failureThreshold: defaultFailureThreshold,
+      resetTimeoutMs: defaultResetTimeoutMs,
+      ...opts,
+    };
+  }
+
+  /**
+   * Checks whether the handler may run now. Moves an open circuit past its reset timeout
+   * to half-open and lets exactly one probe through until it settles.
+   *
+   * @returns `true` when the handler should be executed
+   */
+  tryAcquire(): boolean {
+    if (
+      this.state === TxOBCircuitBreakerState.Open &&
+      Date.now() >= this.getRetryAt().getTime()
+    ) {
+      this.transition(TxOBCircuitBreakerState.HalfOpen);
+    }
+    if (this.state === TxOBCircuitBreakerState.HalfOpen) {
+      if (this.probing) {
+        return false;
+      }
+      this.probing = true;
+      return true;
+    }
+
+    return this.state === TxOBCircuitBreakerState.Closed;
+  }
+
+  recordSuccess(): void {
+    this.probing = false;
+    this.failures = 0;
+    if (this.state !== TxOBCircuitBreakerState.Closed) {
+      this.openedAt = undefined;
+      this.transition(TxOBCircuitBreakerState.Closed);
+    }
+  }
+
+  recordFailure(): void {
+    this.probing = false;
+    this.failures++;
+    if (
+      this.state === TxOBCircuitBreakerState.HalfOpen ||
+      (this.state === TxOBCircuitBreakerState.Closed &&
+        this.failures >= this.opts.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition(TxOBCircuitBreakerState.Open);
+    }
+  }
+
+  /**
+   * @returns When a short-circuited execution should be retried
+   */
+  getRetryAt(): Date {
+    // While a probe is in flight the circuit may open again, so waiting events retry a full reset timeout later
+    const from =
+      this.state === TxOBCircuitBreakerState.Open && this.openedAt !== undefined
+        ? this.openedAt
+        : Date.now();
+
+    return new Date(from + this.opts.resetTimeoutMs);
+  }
+
+  getStatus(): TxOBCircuitBreakerStatus {
+    return {
+      eventType: this.eventType,
+      handlerName: this.handlerName,
+      state: this.state,
+      failures: this.failures,
+      ...(this.openedAt !== undefined && {
+        openedAt: new Date(this.openedAt),
+      }),
+      ...(this.state !== TxOBCircuitBreakerState.Closed && {
+        retryAt: this.getRetryAt(),
+      }),
+    };
+  }
+
+  private transition(state: TxOBCircuitBreakerState): void {
+    this.state = state;
+    const logContext = {
+      type: this.eventType,
+      handlerName: this.handlerName,
+      failures: this.failures,
+    };
+    if (state === TxOBCircuitBreakerState.Open) {
+      this.opts.logger?.warn(logContext, "handler circuit opened");
+    } else {
+      this.opts.logger?.info(logContext, `handler circuit ${state}`);
+    }
+    recordTelemetryCounter(
+      this.opts.telemetry?.circuitBreakerTransitionCounter,
+      this.opts.telemetry,
+      {
+        [TxOBTelemetryAttributeKey.EventType]: this.eventType,
+        [TxOBTelemetryAttributeKey.HandlerName]: this.handlerName,
+        [TxOBTelemetryAttributeKey.CircuitBreakerState]: state,
+      },
+    );
+  }
+}
@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import { runCli, type TxOBCliConnection } from "./cli.js";
+import type { TxOBEvent } from "./processor.js";
+
+const startedAt = new Date("2024-06-01T12:00:00.000Z");
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(startedAt);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const failedEvent: TxOBEvent<string> = {
+  id: "e1",
+  timestamp: new Date("2024-06-01T11:00:00.000Z"),
+  type: "UserCreated",
+  data: { userId: "u1" },
+  correlation_id: "c1",
+  handler_results: {
+    sendEmail: { processed_at: new Date("2024-06-01T11:00:01.000Z") },
+    chargeCard: {
+      unprocessable_at: new Date("2024-06-01T11:00:02.000Z"),
+      errors: [
+        {
+          error: "card declined",
+          timestamp: new Date("2024-06-01T11:00:02.000Z"),
+        },
+      ],
+    },
+  },
+  errors: 5,
+  processed_at: new Date("2024-06-01T11:00:02.000Z"),
+};
+
+const createConnection = () => {
+  const wakeups = new EventEmitter();
+  const connection = {
+    admin: {
+      listFailedEvents: vi.fn(),
+      listEvents: vi.fn<any>(() => Promise.resolve([failedEvent])),
+      getEvent: vi.fn<any>(() => Promise.resolve(failedEvent)),
+      retryEvent: vi.fn(() => Promise.resolve(true)),
+      retryHandler: vi.fn(() => Promise.resolve(true)),
+      discardEvent: vi.fn(),
+    },
+    processorClient: {
+      getBacklogStats: vi.fn(() =>
+        Promise.resolve([
+          {
+            type: "UserCreated",
+            pending: 3,
+            retrying: 1,
+            deadLettered: 2,
+            oldestPendingAt: new Date("2024-06-01T11:59:00.000Z"),
+          },
+        ]),
+      ),
+    },
+    retention: { purgeEvents: vi.fn(() => Promise.resolve(0)) },
+    createWakeupEmitter: vi.fn(() =>
+      Promise.resolve({
+        on: (event: string, listener: () => void) => {
+          wakeups.on(event, listener);
+        },
+        off: (event: string, listener: () => void) => {
+          wakeups.off(event, listener);
+        },
+        close: vi.fn(() => Promise.resolve()),
+      }),
+    ),
+    close: vi.fn(() => Promise.resolve()),
+  };
+
+  return { connection, wakeups };
+};
+
+const run = async (
+  argv: string[],
+  connection: TxOBCliConnection,
+  signal?: AbortSignal,
+) => {
+  let stdout = "";
+  let stderr = "";
+  const connect = vi.fn(() => Promise.resolve(connection));
+  const exitCode = await runCli(argv, {
+    stdout: { write: (chunk) => (stdout += chunk) },
+    stderr: { write: (chunk) => (stderr += chunk) },
+    env: { TXOB_DATABASE_URL: "postgres://localhost/app" },
+    signal,
+    connect,
+  });
+
+  return { exitCode, stdout, stderr, connect };
+};
+
+describe("runCli", () => {
+  it("prints backlog stats as a table", async () => {
+    const { connection } = createConnection();
+
+    const { exitCode, stdout, connect } = await run(
+      ["stats", "--table", "outbox", "--max-errors", "3"],
+      connection,
+    );
+
+    expect(exitCode).toBe(0);
+    expect(connect).toHaveBeenCalledWith({
+      url: "postgres://localhost/app",
+      table: "outbox",
+    });
+    expect(connection.processorClient.getBacklogStats).toHaveBeenCalledWith({
+      maxErrors: 3,
+    });
+    expect(stdout).toBe(
+      [
+        "TYPE         PENDING  RETRYING  DEAD_LETTERED  OLDEST_PENDING_AT",
+        "UserCreated  3        1         2              2024-06-01T11:59:00.000Z",
+        "",
+      ].join("\n"),
+    );
+    expect(connection.close).toHaveBeenCalledOnce();
+  });
+
+  it("lists events by status and type", async () => {
+    const { connection } = createConnection();
+
+    const { exitCode, stdout } = await run(
+      ["list", "--status", "failed", "--type", "UserCreated", "--limit", "10"],
+      connection,
+    );
+
+    expect(exitCode).toBe(0);
+    expect(connection.admin.listEvents).toHaveBeenCalledWith({
+      maxErrors: 5,
+      status: "failed",
+      type: "UserCreated",
+      limit: 10,
+      offset: 0,
+    });
+    expect(stdout).toBe(
+      [
+        "ID  TYPE         STATUS  ERRORS  TIMESTAMP                 PROCESSED_AT",
+        "e1  UserCreated  failed  5       2024-06-01T11:00:00.000Z  2024-06-01T11:00:02.000Z",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("prints JSON when asked to", async () => {
+    const { connection } = createConnection();
+
+    const { stdout } = await run(["list", "--json"], connection);
+
+    expect(JSON.parse(stdout)).toEqual([
+      JSON.parse(JSON.stringify(failedEvent)),
+    ]);
+  });
+
+  it("shows an event with its handler results", async () => {
+    const { connection } = createConnection();
+
+    const { exitCode, stdout } = await run(["show", "e1"], connection);
+
+    expect(exitCode).toBe(0);
+    expect(connection.admin.getEvent).toHaveBeenCalledWith("e1");
+    expect(stdout).toContain("status          failed\n");
+    expect(stdout).toContain('data            {"userId":"u1"}\n');
+    expect(stdout).toContain(
+      [
+        "HANDLER     STATUS         ERRORS  LAST_ERROR",
+        "sendEmail   processed      0       -",
+        "chargeCard  unprocessable  1       card declined",
+      ].join("\n"),
+    );
+  });
+
+  it("fails when the event does not exist", async () => {
+    const { connection } = createConnection();
+    connection.admin.getEvent.mockResolvedValue(null);
+
+    const { exitCode, stderr } = await run(["show", "e2"], connection);
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toBe("txob: event e2 not found\n");
+    expect(connection.close).toHaveBeenCalledOnce();
+  });
+
+  it("retries an event or a single handler", async () => {
+    const { connection } = createConnection();
+
+    expect((await run(["retry", "e1"], connection)).stdout).toBe(
+      "event e1 is pending again\n",
+    );
+    expect(connection.admin.retryEvent).toHaveBeenCalledWith("e1");
+
+    await run(["retry", "e1", "--handler", "sendEmail"], connection);
+    expect(connection.admin.retryHandler).toHaveBeenCalledWith(
+      "e1",
+      "sendEmail",
+    );
+
+    connection.admin.retryEvent.mockResolvedValue(false);
+    expect((await run(["retry", "e1"], connection)).stderr).toBe(
+      "txob: no processed event e1 to retry\n",
+    );
+  });
+
+  it("purges events in batches until none are left", async () => {
+    const { connection } = createConnection();
+    connection.retention.purgeEvents
+      .mockResolvedValueOnce(2)
+      .mockResolvedValueOnce(1);
+
+    const { exitCode, stdout } = await run(
+      ["purge", "--older-than", "7d", "--dead-lettered", "--batch-size", "2"],
+      connection,
+    );
+
+    expect(exitCode).toBe(0);
+    expect(connection.retention.purgeEvents).toHaveBeenCalledTimes(2);
+    expect(connection.retention.purgeEvents).toHaveBeenCalledWith({
+      processedBefore: new Date("2024-05-25T12:00:00.000Z"),
+      maxErrors: 5,
+      deadLettered: true,
+      limit: 2,
+    });
+    expect(stdout).toBe(
+      "purged 3 dead-lettered events processed before 2024-05-25T12:00:00.000Z\n",
+    );
+  });
+
+  it("prints new events on wakeup until aborted", async () => {
+    const { connection, wakeups } = createConnection();
+    const newEvent = { ...failedEvent, id: "e2", timestamp: startedAt };
+    connection.admin.listEvents
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([newEvent])
+      .mockResolvedValue([newEvent]);
+    const abortController = new AbortController();
+
+    const result = run(
+      ["tail", "--type", "UserCreated", "--json"],
+      connection,
+      abortController.signal,
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    wakeups.emit("wakeup");
+    await vi.advanceTimersByTimeAsync(1_000);
+    abortController.abort();
+    const { exitCode, stdout } = await result;
+
+    expect(exitCode).toBe(0);
+    expect(connection.admin.listEvents).toHaveBeenCalledWith({
+      maxErrors: 5,
+      type: "UserCreated",
+      since: new Date("2024-06-01T11:59:50.000Z"),
+      order: "asc",
+      limit: 100,
+      offset: 0,
+    });
+    expect(stdout).toBe(`${JSON.stringify(newEvent)}\n`);
+    expect(wakeups.listenerCount("wakeup")).toBe(0);
+  });
+
+  it("prints events committed after newer ones once within the overlap", async () => {
+    const { connection, wakeups } = createConnection();
+    const earlierEvent = {
+      ...failedEvent,
+      id: "e0",
+      timestamp: new Date("2024-06-01T11:59:59.000Z"),
+    };
+    const newEvent = {
+      ...failedEvent,
+      id: "e2",
+      timestamp: new Date("2024-06-01T12:00:05.000Z"),
+    };
+    const lateEvent = {
+      ...failedEvent,
+      id: "e3",
+      timestamp: new Date("2024-06-01T12:00:02.000Z"),
+    };
+    connection.admin.listEvents
+      .mockResolvedValueOnce([earlierEvent])
+      .mockResolvedValueOnce([earlierEvent, newEvent])
+      .mockResolvedValue([lateEvent, newEvent]);
+    const abortController = new AbortController();
+
+    const result = run(
+      ["tail", "--overlap", "5000"],
+      connection,
+      abortController.signal,
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    wakeups.emit("wakeup");
+    await vi.advanceTimersByTimeAsync(0);
+    wakeups.emit("wakeup");
+    await vi.advanceTimersByTimeAsync(0);
+    abortController.abort();
+    const { stdout } = await result;
+
+    expect(connection.admin.listEvents).toHaveBeenLastCalledWith(
+      expect.objectContaining({ since: new Date("2024-06-01T12:00:00.000Z") }),
+    );
+    const printedIds = stdout
+      .trim()
+      .split("\n")
+      .map((line) => line.split("  ")[2]);
+    expect(printedIds).toEqual(["e2", "e3"]);
+  });
+
+  it("rejects invalid arguments before connecting", async () => {
+    const { connection } = createConnection();
+
+    const { exitCode, stderr, connect } = await run(
+      ["list", "--status", "stuck"],
+      connection,
+    );
+
+    expect(exitCode).toBe(1);
+    expect(stderr).toBe(
+      "txob: --status must be one of pending, failed, processed, got stuck\n",
+    );
+    expect(connect).not.toHaveBeenCalled();
+    expect((await run(["purge"], connection)).stderr).toBe(
+      "txob: purge requires --older-than\n",
+    );
+    expect((await run(["nope"], connection)).stderr).toBe(
+      "txob: unknown command nope\n",
+    );
+  });
+});
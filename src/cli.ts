@@ -0,0 +1,551 @@
+import { parseArgs } from "node:util";
+import {
+  getEventStatus,
+  type TxOBAdminClient,
+  type TxOBEventStatus,
+} from "./admin.js";
+import {
+  defaultMaxErrors,
+  type TxOBEvent,
+  type TxOBEventSchemaMap,
+  type TxOBProcessorClient,
+  type WakeupEmitter,
+} from "./processor.js";
+import type { TxOBRetentionClient } from "./retention.js";
+import { getDate } from "./date.js";
+
+export type TxOBCliConnectOpts = {
+  // A postgres:// or mongodb:// connection string
+  url: string;
+  // MongoDB database. Defaults to the database of the connection string
+  db?: string;
+  // Events table or collection. Defaults to "events"
+  table?: string;
+};
+
+export type TxOBCliConnection = {
+  admin: TxOBAdminClient<string>;
+  processorClient: Pick<TxOBProcessorClient<string>, "getBacklogStats">;
+  retention: TxOBRetentionClient;
+  createWakeupEmitter(): Promise<WakeupEmitter>;
+  close(): Promise<void>;
+};
+
+export type TxOBCliOutput = { write(chunk: string): unknown };
+
+export type TxOBCliOpts = {
+  stdout: TxOBCliOutput;
+  stderr: TxOBCliOutput;
+  // Defaults to `process.env`
+  env?: Record<string, string | undefined>;
+  // Stops `tail`
+  signal?: AbortSignal;
+  // Defaults to connecting with the pg or mongodb client depending on the connection string
+  connect?: (opts: TxOBCliConnectOpts) => Promise<TxOBCliConnection>;
+};
+
+const usage = `Usage: txob <command> [options]
+
+Commands:
+  stats                         Pending, retrying and dead-lettered events per type
+  list                          List events, most recent first
+    --status <status>           pending, failed or processed
+    --type <type>               Only events of this type
+    --limit <n>                 Defaults to 100
+    --offset <n>                Defaults to 0
+  show <id>                     Show an event and its handler results
+  retry <id>                    Make a processed event pending again
+    --handler <name>            Also re-run this handler when it already succeeded
+  purge                         Delete processed events
+    --older-than <duration>     Processed longer ago than this, e.g. 30d, 12h, 15m
+    --dead-lettered             Purge failed events instead of successfully processed ones
+    --batch-size <n>            Events deleted per statement. Defaults to 1000
+  tail                          Print new events as they are published
+    --type <type>               Only events of this type
+    --interval <ms>             Fallback polling interval. Defaults to 1000
+    --overlap <ms>              Also print events committed this late. Defaults to 10000
+
+Options:
+  --url <url>                   postgres:// or mongodb:// connection string. Defaults to $TXOB_DATABASE_URL
+  --db <name>                   MongoDB database. Defaults to the database of the connection string
+  --table <name>                Events table or collection. Defaults to "events"
+  --max-errors <n>              The processor maxErrors. Defaults to ${defaultMaxErrors}
+  --json                        Print JSON instead of tables
+  -h, --help                    Show this help
+`;
+
+const eventStatuses: TxOBEventStatus[] = ["pending", "failed", "processed"];
+const defaultPurgeBatchSize = 1_000;
+const defaultTailIntervalMs = 1_000;
+const defaultTailOverlapMs = 10_000;
+const tailBatchSize = 100;
+
+const durationUnitsMs: Record<string, number> = {
+  ms: 1,
+  s: 1_000,
+  m: 60 * 1_000,
+  h: 60 * 60 * 1_000,
+  d: 24 * 60 * 60 * 1_000,
+};
+
+// Schemas are only used for typing, the CLI handles events of any type
+const eventSchemas: TxOBEventSchemaMap<string> = {};
+
+const connect = async ({
+  url,
+  db,
+  table,
+}: TxOBCliConnectOpts): Promise<TxOBCliConnection> => {
+  const { protocol } = new URL(url);
+  if (protocol === "postgres:" || protocol === "postgresql:") {
+    const [{ Client }, txobPg] = await Promise.all([
+      import("pg"),
+      import("./pg/client.js"),
+    ]);
+    // Retries run in a transaction, which requires a dedicated client
+    const querier = new Client({ connectionString: url });
+    await querier.connect();
+
+    return {
+      admin: txobPg.createAdminClient({ querier, table, eventSchemas }),
+      processorClient: txobPg.createProcessorClient({
+        querier,
+        table,
+        eventSchemas,
+      }),
+      retention: txobPg.createRetentionClient({ querier, table }),
+      createWakeupEmitter: () =>
+        txobPg.createWakeupEmitter({
+          listenClientConfig: { connectionString: url },
+          table,
+        }),
+      close: () => querier.end(),
+    };
+  }
+  if (protocol === "mongodb:" || protocol === "mongodb+srv:") {
+    const [{ MongoClient }, txobMongo] = await Promise.all([
+      import("mongodb"),
+      import("./mongodb/client.js"),
+    ]);
+    const mongo = new MongoClient(url);
+    await mongo.connect();
+    const database = db ?? mongo.db().databaseName;
+
+    return {
+      admin: txobMongo.createAdminClient({
+        mongo,
+        db: database,
+        collection: table,
+        eventSchemas,
+      }),
+      processorClient: txobMongo.createProcessorClient({
+        mongo,
+        db: database,
+        collection: table,
+        eventSchemas,
+      }),
+      retention: txobMongo.createRetentionClient({
+        mongo,
+        db: database,
+        collection: table,
+      }),
+      createWakeupEmitter: () =>
+        txobMongo.createWakeupEmitter({
+          mongo,
+          db: database,
+          collection: table,
+        }),
+      close: () => mongo.close(),
+    };
+  }
+
+  throw new Error(
+    `unsupported connection string protocol ${protocol}, expected postgres: or mongodb:`,
+  );
+};
+
+const parseInteger = (
+  name: string,
+  value: string | undefined,
+  defaultValue: number,
+): number => {
+  if (value === undefined) {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer, got ${value}`);
+  }
+
+  return parsed;
+};
+
+const parseDuration = (value: string): number => {
+  const match = /^(\d+)(ms|s|m|h|d)$/.exec(value);
+  if (!match) {
+    throw new Error(
+      `--older-than must be a duration such as 30d, 12h, 15m, 30s or 500ms, got ${value}`,
+    );
+  }
+
+  return Number(match[1]) * durationUnitsMs[match[2]];
+};
+
+const formatDate = (value: Date | string | null | undefined): string =>
+  value ? new Date(value).toISOString() : "-";
+
+const formatError = (error: unknown): string =>
+  typeof error === "string" ? error : JSON.stringify(error);
+
+const formatTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => row[i].length)),
+  );
+
+  return [headers, ...rows]
+    .map((row) =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd(),
+    )
+    .map((line) => `${line}\n`)
+    .join("");
+};
+
+const formatEventRows = (
+  events: TxOBEvent<string>[],
+  maxErrors: number,
+): string =>
+  formatTable(
+    ["ID", "TYPE", "STATUS", "ERRORS", "TIMESTAMP", "PROCESSED_AT"],
+    events.map((event) => [
+      event.id,
+      event.type,
+      getEventStatus(event, maxErrors),
+      String(event.errors),
+      formatDate(event.timestamp),
+      formatDate(event.processed_at),
+    ]),
+  );
+
+const formatEvent = (event: TxOBEvent<string>, maxErrors: number): string => {
+  const fields: [string, string][] = [
+    ["id", event.id],
+    ["type", event.type],
+    ["status", getEventStatus(event, maxErrors)],
+    ["correlation_id", event.correlation_id],
+    ["timestamp", formatDate(event.timestamp)],
+    ["errors", String(event.errors)],
+    ["backoff_until", formatDate(event.backoff_until)],
+    ["available_at", formatDate(event.available_at)],
+    ["processed_at", formatDate(event.processed_at)],
+    ["data", JSON.stringify(event.data)],
+  ];
+  const handlers = Object.entries(event.handler_results);
+
+  return `${fields
+    .map(([name, value]) => `${name.padEnd(16)}${value}\n`)
+    .join("")}${
+    handlers.length === 0
+      ? ""
+      : `\n${formatTable(
+          ["HANDLER", "STATUS", "ERRORS", "LAST_ERROR"],
+          handlers.map(([handlerName, result]) => {
+            const lastError = result.errors?.at(-1);
+            return [
+              handlerName,
+              result.processed_at
+                ? "processed"
+                : result.unprocessable_at
+                  ? "unprocessable"
+                  : result.exhausted_at
+                    ? "exhausted"
+                    : "pending",
+              String(result.errors?.length ?? 0),
+              lastError ? formatError(lastError.error) : "-",
+            ];
+          }),
+        )}`
+  }`;
+};
+
+const waitForWakeup = (
+  intervalMs: number,
+  signal: AbortSignal | undefined,
+  onWakeup: (listener: () => void) => void,
+): Promise<void> =>
+  new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      onWakeup(() => {});
+      resolve();
+    };
+    const timer = setTimeout(done, intervalMs);
+    signal?.addEventListener("abort", done, { once: true });
+    onWakeup(done);
+  });
+
+/**
+ * Runs the `txob` command line tool, see `txob --help`.
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @param opts - Output streams, environment and abort signal for `tail`
+ * @returns The process exit code
+ */
+export const runCli = async (
+  argv: string[],
+  opts: TxOBCliOpts,
+): Promise<number> => {
+  const { stdout, stderr, env = process.env, signal } = opts;
+
+  let connection: TxOBCliConnection | undefined;
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        url: { type: "string" },
+        db: { type: "string" },
+        table: { type: "string" },
+        "max-errors": { type: "string" },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+        status: { type: "string" },
+        type: { type: "string" },
+        limit: { type: "string" },
+        offset: { type: "string" },
+        handler: { type: "string" },
+        "older-than": { type: "string" },
+        "dead-lettered": { type: "boolean", default: false },
+        "batch-size": { type: "string" },
+        interval: { type: "string" },
+        overlap: { type: "string" },
+      },
+    });
+    const [command, eventId] = positionals;
+    if (values.help) {
+      stdout.write(usage);
+      return 0;
+    }
+    if (!command) {
+      stderr.write(usage);
+      return 1;
+    }
+    if (
+      !["stats", "list", "show", "retry", "purge", "tail"].includes(command)
+    ) {
+      throw new Error(`unknown command ${command}`);
+    }
+    if ((command === "show" || command === "retry") && !eventId) {
+      throw new Error(`${command} requires an event id`);
+    }
+    if (
+      values.status !== undefined &&
+      !eventStatuses.includes(values.status as TxOBEventStatus)
+    ) {
+      throw new Error(
+        `--status must be one of ${eventStatuses.join(", ")}, got ${values.status}`,
+      );
+    }
+    if (command === "purge" && values["older-than"] === undefined) {
+      throw new Error("purge requires --older-than");
+    }
+    const url = values.url ?? env.TXOB_DATABASE_URL;
+    if (!url) {
+      throw new Error("--url or TXOB_DATABASE_URL is required");
+    }
+    const maxErrors = parseInteger(
+      "max-errors",
+      values["max-errors"],
+      defaultMaxErrors,
+    );
+    const print = (value: unknown, table: string) =>
+      stdout.write(values.json ? `${JSON.stringify(value, null, 2)}\n` : table);
+
+    connection = await (opts.connect ?? connect)({
+      url,
+      db: values.db,
+      table: values.table,
+    });
+    const { admin, processorClient, retention } = connection;
+
+    switch (command) {
+      case "stats": {
+        if (!processorClient.getBacklogStats) {
+          throw new Error("the client does not report backlog stats");
+        }
+        const stats = await processorClient.getBacklogStats({ maxErrors });
+        print(
+          stats,
+          formatTable(
+            [
+              "TYPE",
+              "PENDING",
+              "RETRYING",
+              "DEAD_LETTERED",
+              "OLDEST_PENDING_AT",
+            ],
+            stats.map((stat) => [
+              stat.type,
+              String(stat.pending),
+              String(stat.retrying),
+              String(stat.deadLettered),
+              formatDate(stat.oldestPendingAt),
+            ]),
+          ),
+        );
+        return 0;
+      }
+      case "list": {
+        const events = await admin.listEvents({
+          maxErrors,
+          status: values.status as TxOBEventStatus | undefined,
+          type: values.type,
+          limit: parseInteger("limit", values.limit, 100),
+          offset: parseInteger("offset", values.offset, 0),
+        });
+        print(events, formatEventRows(events, maxErrors));
+        return 0;
+      }
+      case "show": {
+        const event = await admin.getEvent(eventId);
+        if (!event) {
+          throw new Error(`event ${eventId} not found`);
+        }
+        print(event, formatEvent(event, maxErrors));
+        return 0;
+      }
+      case "retry": {
+        const retried = values.handler
+          ? await admin.retryHandler(eventId, values.handler)
+          : await admin.retryEvent(eventId);
+        if (!retried) {
+          throw new Error(`no processed event ${eventId} to retry`);
+        }
+        print({ id: eventId, retried }, `event ${eventId} is pending again\n`);
+        return 0;
+      }
+      case "purge": {
+        const deadLettered = values["dead-lettered"];
+        const batchSize = parseInteger(
+          "batch-size",
+          values["batch-size"],
+          defaultPurgeBatchSize,
+        );
+        const processedBefore = new Date(
+          getDate().getTime() - parseDuration(values["older-than"] as string),
+        );
+        let purged = 0;
+        for (;;) {
+          const batch = await retention.purgeEvents({
+            processedBefore,
+            maxErrors,
+            deadLettered,
+            limit: batchSize,
+          });
+          purged += batch;
+          if (batch < batchSize) break;
+        }
+        print(
+          { purged, deadLettered, processedBefore },
+          `purged ${purged} ${deadLettered ? "dead-lettered" : "processed"} events processed before ${processedBefore.toISOString()}\n`,
+        );
+        return 0;
+      }
+      case "tail": {
+        const intervalMs = parseInteger(
+          "interval",
+          values.interval,
+          defaultTailIntervalMs,
+        );
+        const overlapMs = parseInteger(
+          "overlap",
+          values.overlap,
+          defaultTailOverlapMs,
+        );
+        const wakeupEmitter = await connection.createWakeupEmitter();
+        let woken = false;
+        let wake = () => {};
+        const wakeupListener = () => {
+          woken = true;
+          wake();
+        };
+        wakeupEmitter.on("wakeup", wakeupListener);
+        // Polling goes on when the emitter fails
+        wakeupEmitter.onError?.((error) => {
+          stderr.write(
+            `txob: wakeup emitter error, falling back to polling: ${error instanceof Error ? error.message : String(error)}\n`,
+          );
+        });
+
+        // Events are re-read from `overlapMs` before the newest one printed, so that events committed late or
+        // stamped by a publisher with a skewed clock are still printed once, told apart by id
+        let newest = getDate();
+        const seen = new Map<string, number>();
+        const readWindow = async (print: boolean) => {
+          const since = new Date(newest.getTime() - overlapMs);
+          for (let offset = 0; ; offset += tailBatchSize) {
+            const events = await admin.listEvents({
+              maxErrors,
+              type: values.type,
+              since,
+              order: "asc",
+              limit: tailBatchSize,
+              offset,
+            });
+            for (const event of events) {
+              if (seen.has(event.id)) continue;
+              const timestamp = new Date(event.timestamp);
+              seen.set(event.id, timestamp.getTime());
+              if (timestamp > newest) {
+                newest = timestamp;
+              }
+              if (print) {
+                stdout.write(
+                  values.json
+                    ? `${JSON.stringify(event)}\n`
+                    : `${formatDate(event.timestamp)}  ${event.type}  ${event.id}  ${JSON.stringify(event.data)}\n`,
+                );
+              }
+            }
+            if (events.length < tailBatchSize) break;
+          }
+          // Ids before the window can't be returned again
+          for (const [id, timestamp] of seen) {
+            if (timestamp < since.getTime()) {
+              seen.delete(id);
+            }
+          }
+        };
+        try {
+          // Events of the first window were created before `tail` started
+          await readWindow(false);
+          while (!signal?.aborted) {
+            woken = false;
+            await readWindow(true);
+            if (!woken) {
+              await waitForWakeup(intervalMs, signal, (listener) => {
+                wake = listener;
+              });
+            }
+          }
+        } finally {
+          wakeupEmitter.off("wakeup", wakeupListener);
+          await wakeupEmitter.close();
+        }
+        return 0;
+      }
+    }
+
+    return 1;
+  } catch (error) {
+    stderr.write(
+      `txob: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return 1;
+  } finally {
+    await connection?.close();
+  }
+};
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { TxOBError, ErrorUnprocessableEventHandler } from "./error.js";
+import {
+  TxOBError,
+  ErrorUnprocessableEventHandler,
+  ErrorEventHandlerTimeout,
+  ErrorSchemaDrift,
+} from "./error.js";
 
 describe("TxOBError", () => {
   it("sets message and optional backoffUntil", () => {
@@ -24,3 +29,23 @@ describe("ErrorUnprocessableEventHandler", () => {
     expect(err.error).toBe(inner);
   });
 });
+
+describe("ErrorEventHandlerTimeout", () => {
+  it("exposes the elapsed timeout", () => {
+    const err = new ErrorEventHandlerTimeout(250);
+    expect(err.message).toBe("event handler timed out after 250ms");
+    expect(err.timeoutMs).toBe(250);
+  });
+});
+
+describe("ErrorSchemaDrift", () => {
+  it("joins the issue messages and exposes the issues", () => {
+    const issues = [
+      { kind: "column" as const, name: "priority", message: "no priority" },
+      { kind: "index" as const, name: "id_1", message: "no unique id" },
+    ];
+    const err = new ErrorSchemaDrift(issues);
+    expect(err.message).toBe("events schema drift: no priority; no unique id");
+    expect(err.issues).toBe(issues);
+  });
+});
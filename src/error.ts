@@ -1,3 +1,5 @@
+import type { TxOBSchemaDriftIssue } from "./processor.js";
+
 /**
  * TxOBError can be thrown by an event handler to indicate that the event processing should be retried.
  * It allows handlers to specify a custom backoff time via the `backoffUntil` property.
@@ -51,3 +53,33 @@ export class ErrorUnprocessableEventHandler extends Error {
     this.error = error;
   }
 }
+
+/**
+ * ErrorEventHandlerTimeout is recorded when an event handler doesn't settle within its timeout.
+ * The handler's `signal` is aborted with this error so the handler can stop its work. The attempt
+ * counts as a failure and is retried like any other error.
+ */
+export class ErrorEventHandlerTimeout extends Error {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`event handler timed out after ${timeoutMs}ms`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * ErrorSchemaDrift rejects `EventProcessor.verifySchema` with `failOnDrift`, or is emitted before the
+ * processor stops with `schemaCheck: { failOnDrift: true }`, when the events table is missing columns,
+ * indexes or the wakeup trigger the processor is configured to use. `issues` lists what to fix.
+ */
+export class ErrorSchemaDrift extends Error {
+  issues: TxOBSchemaDriftIssue[];
+
+  constructor(issues: TxOBSchemaDriftIssue[]) {
+    super(
+      `events schema drift: ${issues.map(({ message }) => message).join("; ")}`,
+    );
+    this.issues = issues;
+  }
+}
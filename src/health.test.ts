@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createHealthHandler } from "./health.js";
+import type { TxOBProcessorHealth } from "./processor.js";
+
+const startedAt = new Date("2024-06-01T12:00:00.000Z");
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(startedAt);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const healthy: TxOBProcessorHealth = {
+  state: "started",
+  pollingLoopRunning: true,
+  lastSuccessfulPollAt: startedAt,
+  consecutivePollFailures: 0,
+  wakeupEmitterConnected: true,
+  queueDepth: 2,
+  inFlightEvents: 1,
+};
+
+const request = (
+  handler: ReturnType<typeof createHealthHandler>,
+  url: string,
+) => {
+  const res = {
+    writeHead: vi.fn(() => res),
+    end: vi.fn(() => res),
+  };
+  handler({ url } as IncomingMessage, res as unknown as ServerResponse);
+  const [body] = res.end.mock.calls[0] as unknown as [string?];
+
+  return {
+    status: (res.writeHead.mock.calls[0] as unknown as [number])[0],
+    body: body ? JSON.parse(body) : undefined,
+  };
+};
+
+describe("createHealthHandler", () => {
+  it("responds ok with the processor health", () => {
+    const handler = createHealthHandler({
+      processor: { getHealth: () => healthy },
+    });
+
+    expect(request(handler, "/healthz")).toEqual({
+      status: 200,
+      body: {
+        status: "ok",
+        ...healthy,
+        lastSuccessfulPollAt: startedAt.toISOString(),
+      },
+    });
+    expect(request(handler, "/readyz?verbose=1").status).toBe(200);
+    expect(request(handler, "/metrics")).toEqual({
+      status: 404,
+      body: undefined,
+    });
+  });
+
+  it("fails both probes once the polling loop of a started processor died", () => {
+    const handler = createHealthHandler({
+      processor: {
+        getHealth: () => ({ ...healthy, pollingLoopRunning: false }),
+      },
+    });
+
+    expect(request(handler, "/healthz")).toMatchObject({
+      status: 503,
+      body: { status: "unavailable" },
+    });
+    expect(request(handler, "/readyz").status).toBe(503);
+  });
+
+  it("stays live but not ready while the processor isn't started", () => {
+    const handler = createHealthHandler({
+      processor: {
+        getHealth: () => ({
+          ...healthy,
+          state: "stopped",
+          pollingLoopRunning: false,
+        }),
+      },
+    });
+
+    expect(request(handler, "/healthz").status).toBe(200);
+    expect(request(handler, "/readyz").status).toBe(503);
+  });
+
+  it("is not ready while polls fail or the wakeup emitter is disconnected", () => {
+    let health = healthy;
+    const handler = createHealthHandler({
+      processor: { getHealth: () => health },
+      maxConsecutivePollFailures: 2,
+    });
+
+    health = { ...healthy, consecutivePollFailures: 1 };
+    expect(request(handler, "/readyz").status).toBe(200);
+    health = { ...healthy, consecutivePollFailures: 2 };
+    expect(request(handler, "/readyz").status).toBe(503);
+    expect(request(handler, "/healthz").status).toBe(200);
+
+    health = { ...healthy, wakeupEmitterConnected: false };
+    expect(request(handler, "/readyz").status).toBe(503);
+    health = { ...healthy, wakeupEmitterConnected: undefined };
+    expect(request(handler, "/readyz").status).toBe(200);
+  });
+
+  it("is not ready when the last successful poll is older than maxPollAgeMs", () => {
+    let health: TxOBProcessorHealth = {
+      ...healthy,
+      lastSuccessfulPollAt: undefined,
+    };
+    const handler = createHealthHandler({
+      processor: { getHealth: () => health },
+      maxPollAgeMs: 1_000,
+    });
+
+    expect(request(handler, "/readyz").status).toBe(503);
+    health = healthy;
+    vi.advanceTimersByTime(1_000);
+    expect(request(handler, "/readyz").status).toBe(200);
+    vi.advanceTimersByTime(1);
+    expect(request(handler, "/readyz").status).toBe(503);
+  });
+});
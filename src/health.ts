@@ -0,0 +1,59 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { TxOBProcessorHealth } from "./processor.js";
+
+export type TxOBHealthHandlerOpts = {
+  processor: { getHealth(): TxOBProcessorHealth };
+  // Consecutive failed polls after which the processor is no longer ready
+  maxConsecutivePollFailures?: number;
+  // Age of the last successful poll after which the processor is no longer ready, unchecked by default
+  maxPollAgeMs?: number;
+};
+
+const defaultMaxConsecutivePollFailures = 3;
+
+/**
+ * Creates a request handler for Kubernetes style probes, usable with `http.createServer` or mounted
+ * in an existing server. `/healthz` fails once the polling loop of a started processor died and
+ * `/readyz` additionally fails while the processor isn't started, polls keep failing or the wakeup
+ * emitter is disconnected. Both respond with the processor health as JSON.
+ *
+ * @param opts - The processor to report on and the readiness thresholds
+ * @returns A handler responding to `/healthz` and `/readyz` and with 404 to any other path
+ */
+export const createHealthHandler = ({
+  processor,
+  maxConsecutivePollFailures = defaultMaxConsecutivePollFailures,
+  maxPollAgeMs,
+}: TxOBHealthHandlerOpts) => {
+  const isLive = (health: TxOBProcessorHealth): boolean =>
+    health.state !== "started" || health.pollingLoopRunning;
+
+  const isReady = (health: TxOBProcessorHealth): boolean =>
+    health.state === "started" &&
+    health.pollingLoopRunning &&
+    health.consecutivePollFailures < maxConsecutivePollFailures &&
+    health.wakeupEmitterConnected !== false &&
+    (maxPollAgeMs === undefined ||
+      (health.lastSuccessfulPollAt !== undefined &&
+        Date.now() - health.lastSuccessfulPollAt.getTime() <= maxPollAgeMs));
+
+  return (req: IncomingMessage, res: ServerResponse): void => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const check =
+      pathname === "/healthz"
+        ? isLive
+        : pathname === "/readyz"
+          ? isReady
+          : undefined;
+    if (!check) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const health = processor.getHealth();
+    const ok = check(health);
+    res
+      .writeHead(ok ? 200 : 503, { "content-type": "application/json" })
+      .end(JSON.stringify({ status: ok ? "ok" : "unavailable", ...health }));
+  };
+};
@@ -1,3 +1,10 @@
 export * from "./processor.js";
 export * from "./error.js";
+export * from "./publisher.js";
 export * from "./telemetry.js";
+export * from "./admin.js";
+export * from "./retention.js";
+export * from "./circuit-breaker.js";
+export * from "./rate-limit.js";
+export * from "./health.js";
+export * from "./prometheus.js";
@@ -0,0 +1,499 @@
+import { vi, describe, it, expect } from "vitest";
+import {
+  createEventPublisher,
+  createMemoryStore,
+  createProcessorClient,
+  createWakeupEmitter,
+} from "./client.js";
+import { EventProcessor, type TxOBEvent } from "../processor.js";
+import { sleep } from "../sleep.js";
+
+const fixedNow = new Date("2024-06-01T12:00:00.000Z");
+
+vi.mock("../date.js", () => ({
+  getDate: () => fixedNow,
+}));
+
+const eventSchemas = {
+  TestEvent: {
+    "~standard": {
+      version: 1 as const,
+      vendor: "test",
+      validate: (value: unknown) => ({
+        value:
+          typeof value === "object" && value !== null
+            ? (value as Record<string, unknown>)
+            : {},
+      }),
+    },
+  },
+};
+
+const createEvent = (
+  id: string,
+  overrides: Partial<TxOBEvent<string>> = {},
+): TxOBEvent<string> => ({
+  id,
+  timestamp: new Date(fixedNow.getTime() - 60_000 + Number(id) * 1_000),
+  type: "TestEvent",
+  data: {},
+  correlation_id: `corr-${id}`,
+  handler_results: {},
+  errors: 0,
+  ...overrides,
+});
+
+describe("getEventsToProcess", () => {
+  it("should return events that are ready to process oldest first", async () => {
+    const store = createMemoryStore([
+      createEvent("3"),
+      createEvent("1"),
+      createEvent("2", { processed_at: fixedNow }),
+      createEvent("4", { backoff_until: new Date(fixedNow.getTime() + 1) }),
+      createEvent("5", { available_at: new Date(fixedNow.getTime() + 1) }),
+      createEvent("6", { errors: 5 }),
+      createEvent("7", { backoff_until: new Date(fixedNow.getTime() - 1) }),
+      createEvent("8"),
+    ]);
+    store.locks.add("8");
+    const client = createProcessorClient({ store, eventSchemas });
+
+    const result = await client.getEventsToProcess({ maxErrors: 5 });
+
+    expect(result).toEqual([
+      { id: "1", errors: 0 },
+      { id: "3", errors: 0 },
+      { id: "7", errors: 0 },
+    ]);
+  });
+
+  it("should respect the limit", async () => {
+    const store = createMemoryStore([
+      createEvent("1"),
+      createEvent("2"),
+      createEvent("3"),
+    ]);
+    const client = createProcessorClient({ store, limit: 2, eventSchemas });
+
+    const result = await client.getEventsToProcess({ maxErrors: 5 });
+
+    expect(result.map((event) => event.id)).toEqual(["1", "2"]);
+  });
+
+  it("should order by priority when prioritized", async () => {
+    const store = createMemoryStore([
+      createEvent("1"),
+      createEvent("2", { priority: 1 }),
+      createEvent("3", { priority: 10 }),
+      createEvent("4", { priority: 1 }),
+    ]);
+    const client = createProcessorClient({ store, eventSchemas });
+
+    const result = await client.getEventsToProcess({
+      maxErrors: 5,
+      prioritized: true,
+    });
+
+    expect(result).toEqual([
+      { id: "3", errors: 0, priority: 10 },
+      { id: "2", errors: 0, priority: 1 },
+      { id: "4", errors: 0, priority: 1 },
+      { id: "1", errors: 0, priority: undefined },
+    ]);
+  });
+
+  it("should only return the oldest event per ordering key", async () => {
+    const store = createMemoryStore([
+      createEvent("1", {
+        correlation_id: "a",
+        backoff_until: new Date(fixedNow.getTime() + 1),
+        errors: 1,
+      }),
+      createEvent("2", { correlation_id: "a" }),
+      createEvent("3", { correlation_id: "b" }),
+      createEvent("4", { correlation_id: "b" }),
+    ]);
+    const client = createProcessorClient({ store, eventSchemas });
+
+    const blocked = await client.getEventsToProcess({
+      maxErrors: 5,
+      ordering: { key: "correlation_id" },
+    });
+    const continued = await client.getEventsToProcess({
+      maxErrors: 5,
+      ordering: { key: "correlation_id", onFailure: "continue" },
+    });
+
+    expect(blocked).toEqual([{ id: "3", errors: 0, correlation_id: "b" }]);
+    expect(continued).toEqual([
+      { id: "2", errors: 0, correlation_id: "a" },
+      { id: "3", errors: 0, correlation_id: "b" },
+    ]);
+  });
+});
+
+describe("getNextAvailableAt", () => {
+  it("should return the nearest future available_at of pending events", async () => {
+    const soon = new Date(fixedNow.getTime() + 1_000);
+    const store = createMemoryStore([
+      createEvent("1", { available_at: new Date(fixedNow.getTime() + 5_000) }),
+      createEvent("2", { available_at: soon }),
+      createEvent("3", {
+        available_at: new Date(fixedNow.getTime() + 500),
+        processed_at: fixedNow,
+      }),
+    ]);
+    const client = createProcessorClient({ store, eventSchemas });
+
+    expect(await client.getNextAvailableAt!({ maxErrors: 5 })).toEqual(soon);
+    store.events.clear();
+    expect(await client.getNextAvailableAt!({ maxErrors: 5 })).toBeNull();
+  });
+});
+
+describe("getBacklogStats", () => {
+  it("should count pending, retrying and dead-lettered events by type", async () => {
+    const store = createMemoryStore([
+      createEvent("1", { processed_at: fixedNow }),
+      createEvent("2", { errors: 1 }),
+      createEvent("3"),
+      createEvent("4", { errors: 5, processed_at: fixedNow }),
+      createEvent("5", { type: "OtherEvent", errors: 5 }),
+    ]);
+    const client = createProcessorClient({ store, eventSchemas });
+
+    expect(await client.getBacklogStats!({ maxErrors: 5 })).toEqual([
+      {
+        type: "TestEvent",
+        pending: 2,
+        retrying: 1,
+        deadLettered: 1,
+        oldestPendingAt: store.events.get("2")!.timestamp,
+      },
+      {
+        type: "OtherEvent",
+        pending: 0,
+        retrying: 0,
+        deadLettered: 1,
+        oldestPendingAt: null,
+      },
+    ]);
+  });
+});
+
+describe("claimEventsToProcess", () => {
+  it("should hide claimed events until the claim expires", async () => {
+    const claimedUntil = new Date(fixedNow.getTime() + 60_000);
+    const store = createMemoryStore([
+      createEvent("1"),
+      createEvent("2"),
+      createEvent("3"),
+    ]);
+    const client = createProcessorClient({ store, eventSchemas });
+
+    const claimed = await client.claimEventsToProcess!({
+      maxErrors: 5,
+      limit: 2,
+      claimedUntil,
+    });
+
+    expect(claimed).toEqual([
+      { ...createEvent("1"), backoff_until: claimedUntil },
+      { ...createEvent("2"), backoff_until: claimedUntil },
+    ]);
+    expect(store.events.get("1")?.backoff_until).toEqual(claimedUntil);
+    expect(await client.getEventsToProcess({ maxErrors: 5 })).toEqual([
+      { id: "3", errors: 0 },
+    ]);
+  });
+
+  it("should only write back results while the claim is held", async () => {
+    const claimedUntil = new Date(fixedNow.getTime() + 60_000);
+    const store = createMemoryStore([createEvent("1"), createEvent("2")]);
+    const client = createProcessorClient({ store, eventSchemas });
+    const [claimed] = await client.claimEventsToProcess!({
+      maxErrors: 5,
+      limit: 1,
+      claimedUntil,
+    });
+    const results: boolean[] = [];
+
+    await client.transaction(async (txClient) => {
+      results.push(
+        await txClient.updateClaimedEvent!(
+          { ...claimed!, processed_at: fixedNow, backoff_until: null },
+          claimedUntil,
+        ),
+      );
+      results.push(
+        await txClient.updateClaimedEvent!(
+          { ...createEvent("2"), processed_at: fixedNow },
+          claimedUntil,
+        ),
+      );
+    });
+
+    expect(results).toEqual([true, false]);
+    expect(store.events.get("1")).toMatchObject({
+      processed_at: fixedNow,
+      backoff_until: null,
+    });
+    expect(store.events.get("2")?.processed_at).toBeUndefined();
+  });
+});
+
+describe("transaction", () => {
+  it("should skip events locked by another transaction", async () => {
+    const store = createMemoryStore([createEvent("1")]);
+    const client = createProcessorClient({ store, eventSchemas });
+    let lockedInOther: unknown;
+
+    await client.transaction(async (txClient) => {
+      expect(
+        await txClient.getEventByIdForUpdateSkipLocked("1", { maxErrors: 5 }),
+      ).toMatchObject({ id: "1" });
+      await client.transaction(async (otherTxClient) => {
+        lockedInOther = await otherTxClient.getEventByIdForUpdateSkipLocked(
+          "1",
+          { maxErrors: 5 },
+        );
+      });
+      expect(await client.getEventsToProcess({ maxErrors: 5 })).toEqual([]);
+    });
+
+    expect(lockedInOther).toBeNull();
+    expect(store.locks.size).toBe(0);
+  });
+
+  it("should not return events that are not ready to process", async () => {
+    const store = createMemoryStore([createEvent("1", { errors: 5 })]);
+    const client = createProcessorClient({ store, eventSchemas });
+
+    await client.transaction(async (txClient) => {
+      expect(
+        await txClient.getEventByIdForUpdateSkipLocked("1", { maxErrors: 5 }),
+      ).toBeNull();
+      expect(
+        await txClient.getEventByIdForUpdateSkipLocked("2", { maxErrors: 5 }),
+      ).toBeNull();
+    });
+  });
+
+  it("should apply updates and created events on commit", async () => {
+    const store = createMemoryStore([createEvent("1")]);
+    const client = createProcessorClient({ store, eventSchemas });
+    const onInsert = vi.fn();
+    store.emitter.on("insert", onInsert);
+
+    await client.transaction(async (txClient) => {
+      const event = await txClient.getEventByIdForUpdateSkipLocked("1", {
+        maxErrors: 5,
+      });
+      event!.data = { changed: true };
+      event!.processed_at = fixedNow;
+      event!.handler_results = { handler: { processed_at: fixedNow } };
+      await txClient.updateEvent(event!);
+      await txClient.createEvent(createEvent("2"));
+
+      expect(store.events.get("1")?.processed_at).toBeUndefined();
+      expect(store.events.has("2")).toBe(false);
+    });
+
+    expect(store.events.get("1")).toEqual({
+      ...createEvent("1"),
+      processed_at: fixedNow,
+      handler_results: { handler: { processed_at: fixedNow } },
+      backoff_until: undefined,
+    });
+    expect(store.events.get("2")).toEqual(createEvent("2"));
+    expect(onInsert).toHaveBeenCalledOnce();
+  });
+
+  it("should discard writes and release locks on error", async () => {
+    const store = createMemoryStore([createEvent("1")]);
+    const client = createProcessorClient({ store, eventSchemas });
+
+    await expect(
+      client.transaction(async (txClient) => {
+        const event = await txClient.getEventByIdForUpdateSkipLocked("1", {
+          maxErrors: 5,
+        });
+        await txClient.updateEvent({ ...event!, processed_at: fixedNow });
+        await txClient.createEvent(createEvent("2"));
+        throw new Error("handler failed");
+      }),
+    ).rejects.toThrow("handler failed");
+
+    expect(store.events.get("1")).toEqual(createEvent("1"));
+    expect(store.events.has("2")).toBe(false);
+    expect(store.locks.size).toBe(0);
+  });
+});
+
+describe("lease mode", () => {
+  it("should lease events until the lease expires", async () => {
+    const lease = {
+      lockedBy: "worker-1",
+      lockedUntil: new Date(fixedNow.getTime() + 60_000),
+    };
+    const store = createMemoryStore([
+      createEvent("1"),
+      createEvent("2", {
+        locked_by: "worker-0",
+        locked_until: new Date(fixedNow.getTime() - 1),
+      }),
+    ]);
+    const client = createProcessorClient({ store, eventSchemas });
+
+    expect(
+      await client.leaseEvent!("1", { maxErrors: 5, ...lease }),
+    ).toMatchObject({ id: "1", locked_by: "worker-1" });
+    expect(await client.leaseEvent!("1", { maxErrors: 5, ...lease })).toBeNull();
+    expect(await client.getEventsToProcess({ maxErrors: 5 })).toEqual([
+      { id: "2", errors: 0 },
+    ]);
+    expect(
+      await client.leaseEvent!("2", { maxErrors: 5, ...lease }),
+    ).toMatchObject({ id: "2", locked_by: "worker-1" });
+  });
+
+  it("should only write back results while the lease is held", async () => {
+    const lease = {
+      lockedBy: "worker-1",
+      lockedUntil: new Date(fixedNow.getTime() + 60_000),
+    };
+    const store = createMemoryStore([createEvent("1"), createEvent("2")]);
+    const client = createProcessorClient({ store, eventSchemas });
+    const event = await client.leaseEvent!("1", { maxErrors: 5, ...lease });
+    const results: boolean[] = [];
+
+    await client.transaction(async (txClient) => {
+      results.push(
+        await txClient.updateLeasedEvent!(
+          { ...event!, processed_at: fixedNow },
+          lease,
+        ),
+      );
+      results.push(
+        await txClient.updateLeasedEvent!(
+          { ...createEvent("2"), processed_at: fixedNow },
+          lease,
+        ),
+      );
+    });
+
+    expect(results).toEqual([true, false]);
+    expect(store.events.get("1")).toMatchObject({
+      processed_at: fixedNow,
+      locked_by: null,
+      locked_until: null,
+    });
+    expect(store.events.get("2")?.processed_at).toBeUndefined();
+  });
+});
+
+describe("createEventPublisher", () => {
+  it("should insert the event into the store", async () => {
+    const store = createMemoryStore();
+    const publisher = createEventPublisher({ eventSchemas });
+
+    const event = await publisher.publish(
+      { type: "TestEvent", data: { foo: "bar" }, priority: 1 },
+      { store },
+    );
+
+    expect(store.events.get(event.id)).toEqual(event);
+    expect(event).toMatchObject({
+      type: "TestEvent",
+      data: { foo: "bar" },
+      priority: 1,
+      handler_results: {},
+      errors: 0,
+    });
+  });
+
+  it("should reject duplicate ids", async () => {
+    const store = createMemoryStore([createEvent("1")]);
+    const publisher = createEventPublisher({ eventSchemas });
+
+    await expect(
+      publisher.publish({ id: "1", type: "TestEvent", data: {} }, { store }),
+    ).rejects.toThrow("event with id '1' already exists");
+  });
+});
+
+describe("createWakeupEmitter", () => {
+  it("should emit wakeup when events are published", async () => {
+    const store = createMemoryStore();
+    const emitter = createWakeupEmitter({ store });
+    const listener = vi.fn();
+    emitter.on("wakeup", listener);
+
+    await createEventPublisher({ eventSchemas }).publish(
+      { type: "TestEvent", data: {} },
+      { store },
+    );
+    expect(listener).toHaveBeenCalledOnce();
+
+    await emitter.close?.();
+    await createEventPublisher({ eventSchemas }).publish(
+      { type: "TestEvent", data: {} },
+      { store },
+    );
+    expect(listener).toHaveBeenCalledOnce();
+  });
+});
+
+describe("EventProcessor", () => {
+  it("should process published events end to end", async () => {
+    const store = createMemoryStore();
+    const handler = vi.fn();
+    const processor = new EventProcessor({
+      client: createProcessorClient({ store, eventSchemas }),
+      wakeupEmitter: createWakeupEmitter({ store }),
+      wakeupThrottleMs: 0,
+      handlerMap: { TestEvent: { handler } },
+    });
+    processor.start();
+    // Let the initial poll settle so the event is picked up through the wakeup
+    await sleep(10);
+
+    const event = await createEventPublisher({ eventSchemas }).publish(
+      { type: "TestEvent", data: { foo: "bar" } },
+      { store },
+    );
+    await sleep(50);
+    await processor.stop();
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(handler.mock.calls[0]![0]).toMatchObject({
+      id: event.id,
+      data: { foo: "bar" },
+    });
+    expect(store.events.get(event.id)).toMatchObject({
+      processed_at: fixedNow,
+      handler_results: { handler: { processed_at: fixedNow } },
+    });
+  });
+
+  it("should process events in lease mode", async () => {
+    const store = createMemoryStore([createEvent("1")]);
+    const handler = vi.fn();
+    const processor = new EventProcessor({
+      client: createProcessorClient({ store, eventSchemas }),
+      handlerMap: { TestEvent: { handler } },
+      lease: { durationMs: 30_000, workerId: "worker-1" },
+      pollingIntervalMs: 5,
+    });
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(store.events.get("1")).toMatchObject({
+      processed_at: fixedNow,
+      locked_by: null,
+      locked_until: null,
+    });
+  });
+});
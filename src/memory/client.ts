@@ -0,0 +1,516 @@
+import { EventEmitter } from "node:events";
+import type {
+  TxOBBacklogStats,
+  TxOBClaimEventsOpts,
+  TxOBEventByType,
+  TxOBEventSchemaMap,
+  TxOBSchemaOutput,
+  TxOBEvent,
+  TxOBLease,
+  TxOBProcessorClient,
+  TxOBProcessorClientOpts,
+  TxOBTransactionProcessorClient,
+  TxOBUnlockedEvent,
+  WakeupEmitter,
+} from "../processor.js";
+import {
+  createPublishableEvent,
+  type TxOBEventPublisher,
+  type TxOBPublishableEvent,
+} from "../publisher.js";
+import type { TxOBTelemetryTracer } from "../telemetry.js";
+import { deepClone } from "../clone.js";
+import { getDate } from "../date.js";
+
+export type TxOBMemoryStore = {
+  // Committed events by id. Mutating them directly bypasses locking
+  events: Map<string, TxOBEvent<string>>;
+  // Ids of events locked by an open transaction
+  locks: Set<string>;
+  // Emits "insert" whenever events are committed
+  emitter: EventEmitter;
+};
+
+/**
+ * Creates an in-memory event store shared by the memory processor client, publisher and wakeup emitter.
+ *
+ * @param events - Optional events to seed the store with
+ * @returns A TxOBMemoryStore
+ */
+export const createMemoryStore = (
+  events: TxOBEvent<string>[] = [],
+): TxOBMemoryStore => ({
+  events: new Map(events.map((event) => [event.id, deepClone(event)])),
+  locks: new Set(),
+  emitter: new EventEmitter(),
+});
+
+// Leases are only stamped in lease mode, so they are always checked
+const isAvailable = (event: TxOBEvent<string>, now: Date): boolean =>
+  (!event.backoff_until || event.backoff_until < now) &&
+  (!event.available_at || event.available_at <= now) &&
+  (!event.locked_until || event.locked_until < now);
+
+const isReadyToProcess = (
+  event: TxOBEvent<string>,
+  maxErrors: number,
+  now: Date,
+): boolean =>
+  !event.processed_at && isAvailable(event, now) && event.errors < maxErrors;
+
+const compareEventsToProcess =
+  (prioritized?: boolean) =>
+  (a: TxOBEvent<string>, b: TxOBEvent<string>): number => {
+    if (prioritized && (a.priority ?? null) !== (b.priority ?? null)) {
+      // Events without a priority come last
+      if (a.priority == null) return 1;
+      if (b.priority == null) return -1;
+      return b.priority - a.priority;
+    }
+    return a.timestamp.getTime() - b.timestamp.getTime();
+  };
+
+const insertEvents = (
+  store: TxOBMemoryStore,
+  events: TxOBPublishableEvent<string>[],
+): void => {
+  for (const event of events) {
+    if (store.events.has(event.id)) {
+      throw new Error(`event with id '${event.id}' already exists`);
+    }
+  }
+  for (const event of events) {
+    store.events.set(event.id, deepClone(event));
+  }
+  if (events.length > 0) {
+    store.emitter.emit("insert");
+  }
+};
+
+export type CreateProcessorClientOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  store: TxOBMemoryStore;
+  limit?: number;
+  eventSchemas: TEventSchemas;
+};
+
+/**
+ * Creates an in-memory processor client for unit tests and local development.
+ * It mirrors the database clients: locked events are skipped, `backoff_until`, `available_at` and
+ * `maxErrors` are honored, and writes only become visible when the transaction commits.
+ *
+ * @param opts - Options for the processor client
+ * @returns A TxOBProcessorClient typed against `eventSchemas`
+ */
+export const createProcessorClient = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateProcessorClientOpts<TEventSchemas>,
+): TxOBProcessorClient<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  }
+> => {
+  const { store, limit = 100, eventSchemas: _eventSchemas } = opts;
+
+  const getEventsToProcess = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<
+    TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[]
+  > => {
+    const { maxErrors, ordering, prioritized } = opts;
+    const now = getDate();
+    let events: TxOBEvent<string>[];
+
+    if (ordering) {
+      // Only the oldest unprocessed event per ordering key is handed out. Events without a key are unordered
+      // When blocking, the oldest event must itself be ready, otherwise it is skipped in favor of the oldest ready event
+      const blocking = (ordering.onFailure ?? "block") === "block";
+      const heads = new Map<string, TxOBEvent<string>>();
+      for (const event of [...store.events.values()]
+        .filter((event) =>
+          blocking
+            ? !event.processed_at && event.errors < maxErrors
+            : isReadyToProcess(event, maxErrors, now),
+        )
+        .sort(compareEventsToProcess())) {
+        const key = event[ordering.key] ?? event.id;
+        if (!heads.has(key)) heads.set(key, event);
+      }
+      events = [...heads.values()].filter(
+        (event) =>
+          !store.locks.has(event.id) &&
+          (!blocking || isAvailable(event, now)),
+      );
+    } else {
+      events = [...store.events.values()].filter(
+        (event) =>
+          !store.locks.has(event.id) &&
+          isReadyToProcess(event, maxErrors, now),
+      );
+    }
+
+    return events
+      .sort(compareEventsToProcess(prioritized))
+      .slice(0, limit)
+      .map((event) => ({
+        id: event.id,
+        errors: event.errors,
+        ...(ordering && { [ordering.key]: event[ordering.key] }),
+        ...(prioritized && { priority: event.priority }),
+      })) as TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[];
+  };
+
+  const getNextAvailableAt = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<Date | null> => {
+    const now = getDate();
+    let nextAvailableAt: Date | null = null;
+    for (const event of store.events.values()) {
+      if (
+        !event.processed_at &&
+        event.errors < opts.maxErrors &&
+        event.available_at &&
+        event.available_at > now &&
+        (!nextAvailableAt || event.available_at < nextAvailableAt)
+      ) {
+        nextAvailableAt = event.available_at;
+      }
+    }
+
+    return nextAvailableAt;
+  };
+
+  const getBacklogStats = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<TxOBBacklogStats[]> => {
+    const stats = new Map<string, TxOBBacklogStats>();
+    for (const event of store.events.values()) {
+      const pending = !event.processed_at && event.errors < opts.maxErrors;
+      const deadLettered = event.errors >= opts.maxErrors;
+      if (!pending && !deadLettered) {
+        continue;
+      }
+
+      let stat = stats.get(event.type);
+      if (!stat) {
+        stat = {
+          type: event.type,
+          pending: 0,
+          retrying: 0,
+          deadLettered: 0,
+          oldestPendingAt: null,
+        };
+        stats.set(event.type, stat);
+      }
+      if (pending) {
+        stat.pending++;
+        if (event.errors > 0) {
+          stat.retrying++;
+        }
+        if (!stat.oldestPendingAt || event.timestamp < stat.oldestPendingAt) {
+          stat.oldestPendingAt = event.timestamp;
+        }
+      }
+      if (deadLettered) {
+        stat.deadLettered++;
+      }
+    }
+
+    return [...stats.values()];
+  };
+
+  const claimEventsToProcess = async (
+    opts: TxOBClaimEventsOpts,
+  ): Promise<
+    TxOBEventByType<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[]
+  > => {
+    const now = getDate();
+    const events = [...store.events.values()]
+      .filter(
+        (event) =>
+          !store.locks.has(event.id) &&
+          isReadyToProcess(event, opts.maxErrors, now),
+      )
+      .sort(compareEventsToProcess(opts.prioritized))
+      .slice(0, Math.min(limit, opts.limit));
+    for (const event of events) {
+      event.backoff_until = opts.claimedUntil;
+    }
+
+    return events.map((event) => deepClone(event)) as TxOBEventByType<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[];
+  };
+
+  const leaseEvent = async (
+    eventId: TxOBEvent<
+      keyof TEventSchemas & string,
+      TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+    >["id"],
+    opts: TxOBProcessorClientOpts & TxOBLease,
+  ): Promise<
+    | TxOBEvent<
+        keyof TEventSchemas & string,
+        TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+      >
+    | null
+  > => {
+    const event = store.events.get(eventId);
+    if (
+      !event ||
+      store.locks.has(eventId) ||
+      !isReadyToProcess(event, opts.maxErrors, getDate())
+    ) {
+      return null;
+    }
+    const leasedEvent = {
+      ...event,
+      locked_by: opts.lockedBy,
+      locked_until: opts.lockedUntil,
+    };
+    store.events.set(eventId, leasedEvent);
+
+    return deepClone(leasedEvent) as TxOBEvent<
+      keyof TEventSchemas & string,
+      TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+    >;
+  };
+
+  const transaction: TxOBProcessorClient<
+    keyof TEventSchemas & string,
+    {
+      [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+    }
+  >["transaction"] = async (
+    fn: (
+      txProcessorClient: TxOBTransactionProcessorClient<
+        keyof TEventSchemas & string,
+        {
+          [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+            TEventSchemas[TType]
+          >;
+        }
+      >,
+    ) => Promise<void>,
+  ): Promise<void> => {
+    const lockedIds = new Set<string>();
+    const updatedEvents = new Map<string, TxOBEvent<string>>();
+    const releasedLeases = new Set<string>();
+    const createdEvents: TxOBPublishableEvent<string>[] = [];
+
+    try {
+      await fn({
+        getEventByIdForUpdateSkipLocked: async (
+          eventId: TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >["id"],
+          opts: TxOBProcessorClientOpts,
+        ): Promise<
+          | TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >
+          | null
+        > => {
+          const event = store.events.get(eventId);
+          if (
+            !event ||
+            (store.locks.has(eventId) && !lockedIds.has(eventId)) ||
+            !isReadyToProcess(event, opts.maxErrors, getDate())
+          ) {
+            return null;
+          }
+          store.locks.add(eventId);
+          lockedIds.add(eventId);
+
+          return deepClone(event) as TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >;
+        },
+        updateEvent: async (
+          event: TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >,
+        ): Promise<void> => {
+          updatedEvents.set(event.id, deepClone(event));
+        },
+        updateClaimedEvent: async (
+          event: TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >,
+          claimedUntil: Date,
+        ): Promise<boolean> => {
+          const storedEvent = store.events.get(event.id);
+          if (
+            storedEvent?.backoff_until?.getTime() !== claimedUntil.getTime()
+          ) {
+            return false;
+          }
+          updatedEvents.set(event.id, deepClone(event));
+
+          return true;
+        },
+        updateLeasedEvent: async (
+          event: TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >,
+          lease: TxOBLease,
+        ): Promise<boolean> => {
+          const storedEvent = store.events.get(event.id);
+          if (
+            storedEvent?.locked_by !== lease.lockedBy ||
+            storedEvent.locked_until?.getTime() !== lease.lockedUntil.getTime()
+          ) {
+            return false;
+          }
+          updatedEvents.set(event.id, deepClone(event));
+          releasedLeases.add(event.id);
+
+          return true;
+        },
+        createEvent: async (
+          event: Omit<
+            TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >,
+            "processed_at" | "backoff_until"
+          >,
+        ): Promise<void> => {
+          createdEvents.push(deepClone(event));
+        },
+      });
+
+      // Commit. Only the fields written by the database clients' `updateEvent` are applied
+      for (const [eventId, event] of updatedEvents) {
+        const storedEvent = store.events.get(eventId);
+        if (!storedEvent) continue;
+        store.events.set(eventId, {
+          ...storedEvent,
+          handler_results: event.handler_results,
+          errors: event.errors,
+          processed_at: event.processed_at,
+          backoff_until: event.backoff_until,
+          ...(releasedLeases.has(eventId) && {
+            locked_by: null,
+            locked_until: null,
+          }),
+        });
+      }
+      insertEvents(store, createdEvents);
+    } finally {
+      for (const eventId of lockedIds) {
+        store.locks.delete(eventId);
+      }
+    }
+  };
+
+  return {
+    getEventsToProcess,
+    getNextAvailableAt,
+    getBacklogStats,
+    claimEventsToProcess,
+    leaseEvent,
+    transaction,
+  };
+};
+
+export type CreateEventPublisherOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  eventSchemas: TEventSchemas;
+  // Stores the active trace context with published events, see `TxOBTelemetryTracer`
+  tracer?: TxOBTelemetryTracer;
+};
+
+/**
+ * Creates a publisher that writes outbox events into a memory store.
+ *
+ * @param opts - Options for the event publisher
+ * @returns A TxOBEventPublisher typed against `eventSchemas`
+ */
+export const createEventPublisher = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateEventPublisherOpts<TEventSchemas>,
+): TxOBEventPublisher<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  },
+  { store: TxOBMemoryStore }
+> => {
+  const { eventSchemas: _eventSchemas, tracer } = opts;
+
+  return {
+    publish: async (event, { store }) => {
+      const publishableEvent = createPublishableEvent(event, { tracer });
+      insertEvents(store, [publishableEvent]);
+
+      return publishableEvent;
+    },
+  };
+};
+
+/**
+ * Creates an in-process wakeup emitter that emits 'wakeup' whenever events are committed to the store.
+ *
+ * @param opts - Options for the wakeup emitter
+ * @returns A WakeupEmitter
+ */
+export const createWakeupEmitter = (opts: {
+  store: TxOBMemoryStore;
+}): WakeupEmitter => {
+  const { store } = opts;
+  const emitter = new EventEmitter();
+  const onInsert = () => {
+    emitter.emit("wakeup");
+  };
+  store.emitter.on("insert", onInsert);
+
+  return {
+    on: (event: "wakeup", listener: () => void) => {
+      emitter.on(event, listener);
+    },
+    off: (event: "wakeup", listener: () => void) => {
+      emitter.off(event, listener);
+    },
+    close: async () => {
+      store.emitter.off("insert", onInsert);
+    },
+  };
+};
@@ -1,7 +1,15 @@
 import { vi, describe, it, expect, beforeEach } from "vitest";
 import { ObjectId } from "mongodb";
 import type { TxOBEvent } from "../processor.js";
-import { createProcessorClient, createWakeupEmitter } from "./client.js";
+import {
+  createAdminClient,
+  createEventPublisher,
+  createProcessorClient,
+  createRetentionClient,
+  createWakeupEmitter,
+  ensureIndexes,
+  migrate,
+} from "./client.js";
 
 const fixedNow = new Date("2024-06-01T12:00:00.000Z");
 
@@ -30,23 +38,45 @@ function createMongoMocks() {
     project: vi.fn().mockReturnThis(),
     limit: vi.fn().mockReturnThis(),
     sort: vi.fn().mockReturnThis(),
+    skip: vi.fn().mockReturnThis(),
     toArray,
   };
+  const aggregateToArray = vi.fn();
+  const aggregate = vi.fn(() => ({ toArray: aggregateToArray }));
+  const findOne = vi.fn();
   const findOneAndUpdate = vi.fn();
   const updateOne = vi.fn();
+  const updateMany = vi.fn();
+  const deleteOne = vi.fn();
+  const deleteMany = vi.fn();
+  const insertMany = vi.fn();
   const insertOne = vi.fn();
   const watch = vi.fn();
+  const createIndexes = vi.fn();
+  const createCollection = vi.fn();
+  const listIndexes = vi.fn();
+  const listCollections = vi.fn();
 
   const collection = vi.fn(() => ({
     find: vi.fn(() => findChain),
+    aggregate,
+    findOne,
     findOneAndUpdate,
     updateOne,
+    updateMany,
+    deleteOne,
+    deleteMany,
     insertOne,
+    insertMany,
     watch,
+    createIndexes,
+    listIndexes,
   }));
 
   const db = vi.fn(() => ({
     collection,
+    createCollection,
+    listCollections,
   }));
 
   const session = {
@@ -65,10 +95,21 @@ function createMongoMocks() {
   return {
     mongo: mongo as any,
     toArray,
+    aggregate,
+    aggregateToArray,
+    findOne,
     findOneAndUpdate,
     updateOne,
+    updateMany,
+    deleteOne,
+    deleteMany,
     insertOne,
+    insertMany,
     watch,
+    createIndexes,
+    createCollection,
+    listIndexes,
+    listCollections,
     collection,
     session,
   };
@@ -108,6 +149,9 @@ describe("createProcessorClient (MongoDB)", () => {
             { backoff_until: { $lt: fixedNow } },
           ],
         },
+        {
+          $or: [{ available_at: null }, { available_at: { $lte: fixedNow } }],
+        },
         {
           $or: [{ lock: null }, { lock: { $exists: false } }],
         },
@@ -120,6 +164,226 @@ describe("createProcessorClient (MongoDB)", () => {
     expect(findReturn.sort).toHaveBeenCalledWith("timestamp", "asc");
   });
 
+  it("getEventsToProcess sorts by descending priority when prioritized", async () => {
+    const { mongo, toArray, collection } = createMongoMocks();
+    toArray.mockResolvedValue([]);
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    await client.getEventsToProcess({ maxErrors: 3, prioritized: true });
+
+    const findReturn = collection.mock.results[0].value.find.mock.results[0]
+      .value;
+    expect(findReturn.project).toHaveBeenCalledWith({
+      id: 1,
+      errors: 1,
+      priority: 1,
+    });
+    expect(findReturn.sort).toHaveBeenCalledWith(
+      { priority: -1, timestamp: 1 },
+      undefined,
+    );
+  });
+
+  it("getNextAvailableAt returns the earliest upcoming available_at", async () => {
+    const availableAt = new Date("2024-06-01T13:00:00.000Z");
+    const { mongo, toArray, collection } = createMongoMocks();
+    toArray.mockResolvedValue([{ available_at: availableAt }]);
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    const result = await client.getNextAvailableAt?.({ maxErrors: 3 });
+
+    expect(result).toBe(availableAt);
+    const coll = collection.mock.results[0].value;
+    expect(coll.find).toHaveBeenCalledWith({
+      processed_at: null,
+      available_at: { $gt: fixedNow },
+      errors: { $lt: 3 },
+    });
+    const findReturn = coll.find.mock.results[0].value;
+    expect(findReturn.limit).toHaveBeenCalledWith(1);
+    expect(findReturn.sort).toHaveBeenCalledWith("available_at", "asc");
+  });
+
+  it("getBacklogStats groups pending, retrying and dead-lettered events by type", async () => {
+    const oldestPendingAt = new Date("2024-06-01T11:00:00.000Z");
+    const { mongo, aggregate, aggregateToArray } = createMongoMocks();
+    aggregateToArray.mockResolvedValue([
+      {
+        _id: "TestEvent",
+        pending: 3,
+        retrying: 1,
+        deadLettered: 2,
+        oldestPendingAt,
+      },
+      { _id: "OtherEvent", pending: 0, retrying: 0, deadLettered: 1 },
+    ]);
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    const result = await client.getBacklogStats?.({ maxErrors: 3 });
+
+    expect(result).toEqual([
+      {
+        type: "TestEvent",
+        pending: 3,
+        retrying: 1,
+        deadLettered: 2,
+        oldestPendingAt,
+      },
+      {
+        type: "OtherEvent",
+        pending: 0,
+        retrying: 0,
+        deadLettered: 1,
+        oldestPendingAt: null,
+      },
+    ]);
+    const [pipeline] = aggregate.mock.calls[0] as unknown as [
+      Record<string, unknown>[],
+    ];
+    expect(pipeline[0]).toEqual({
+      $match: { $or: [{ processed_at: null }, { errors: { $gte: 3 } }] },
+    });
+    expect(pipeline[1]).toMatchObject({ $group: { _id: "$type" } });
+  });
+
+  it("claimEventsToProcess claims ready events in a transaction", async () => {
+    const claimedUntil = new Date("2024-06-01T12:01:00.000Z");
+    const rows = [
+      { id: "e1", errors: 0, backoff_until: null },
+      { id: "e2", errors: 1, backoff_until: null },
+    ];
+    const { mongo, toArray, collection, updateMany, session } =
+      createMongoMocks();
+    toArray.mockResolvedValue(rows);
+
+    const client = createProcessorClient({
+      mongo,
+      db: "app",
+      limit: 10,
+      eventSchemas,
+    });
+
+    const result = await client.claimEventsToProcess?.({
+      maxErrors: 3,
+      limit: 5,
+      claimedUntil,
+    });
+
+    expect(result).toEqual([
+      { id: "e1", errors: 0, backoff_until: claimedUntil },
+      { id: "e2", errors: 1, backoff_until: claimedUntil },
+    ]);
+    expect(session.withTransaction).toHaveBeenCalledOnce();
+    const coll = collection.mock.results[0].value;
+    expect(coll.find).toHaveBeenCalledWith(
+      expect.objectContaining({ processed_at: null, errors: { $lt: 3 } }),
+      { session },
+    );
+    const findReturn = coll.find.mock.results[0].value;
+    expect(findReturn.limit).toHaveBeenCalledWith(5);
+    expect(findReturn.sort).toHaveBeenCalledWith("timestamp", "asc");
+    expect(updateMany).toHaveBeenCalledWith(
+      { id: { $in: ["e1", "e2"] } },
+      { $set: { backoff_until: claimedUntil } },
+      { session },
+    );
+  });
+
+  it("claimEventsToProcess skips the update when nothing is ready", async () => {
+    const { mongo, toArray, updateMany } = createMongoMocks();
+    toArray.mockResolvedValue([]);
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    const result = await client.claimEventsToProcess?.({
+      maxErrors: 3,
+      prioritized: true,
+      limit: 200,
+      claimedUntil: fixedNow,
+    });
+
+    expect(result).toEqual([]);
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+
+  it("getEventsToProcess only returns the oldest unprocessed event per ordering key", async () => {
+    const rows = [{ id: "e1", errors: 0, partition_key: "order-1" }];
+    const { mongo, aggregate, aggregateToArray } = createMongoMocks();
+    aggregateToArray.mockResolvedValue(rows);
+
+    const client = createProcessorClient({
+      mongo,
+      db: "app",
+      limit: 10,
+      eventSchemas,
+    });
+
+    const result = await client.getEventsToProcess({
+      maxErrors: 3,
+      ordering: { key: "partition_key" },
+    });
+
+    expect(result).toEqual(rows);
+    const [pipeline] = aggregate.mock.calls[0] as unknown as [any[]];
+    expect(pipeline[0]).toEqual({
+      $match: { processed_at: null, errors: { $lt: 3 } },
+    });
+    expect(pipeline).toContainEqual({
+      $group: {
+        _id: { $ifNull: ["$partition_key", "$id"] },
+        head: { $first: "$$ROOT" },
+      },
+    });
+    expect(pipeline).toContainEqual({
+      $match: {
+        processed_at: null,
+        $and: [
+          {
+            $or: [
+              { backoff_until: null },
+              { backoff_until: { $lt: fixedNow } },
+            ],
+          },
+          {
+            $or: [
+              { available_at: null },
+              { available_at: { $lte: fixedNow } },
+            ],
+          },
+          {
+            $or: [{ lock: null }, { lock: { $exists: false } }],
+          },
+        ],
+        errors: { $lt: 3 },
+      },
+    });
+    expect(pipeline.at(-2)).toEqual({ $limit: 10 });
+    expect(pipeline.at(-1)).toEqual({
+      $project: { _id: 0, id: 1, errors: 1, partition_key: 1 },
+    });
+  });
+
+  it("getEventsToProcess filters ready events before grouping when failures do not block", async () => {
+    const { mongo, aggregate, aggregateToArray } = createMongoMocks();
+    aggregateToArray.mockResolvedValue([]);
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    await client.getEventsToProcess({
+      maxErrors: 3,
+      ordering: { key: "correlation_id", onFailure: "continue" },
+    });
+
+    const [pipeline] = aggregate.mock.calls[0] as unknown as [any[]];
+    expect(pipeline[0].$match).toHaveProperty("$and");
+    expect(
+      pipeline.filter((stage: Record<string, unknown>) => "$match" in stage),
+    ).toHaveLength(1);
+  });
+
   it("transaction runs getEventByIdForUpdateSkipLocked and returns row", async () => {
     const { mongo, findOneAndUpdate } = createMongoMocks();
     const doc = {
@@ -133,7 +397,7 @@ describe("createProcessorClient (MongoDB)", () => {
       backoff_until: null,
       processed_at: null,
     };
-    findOneAndUpdate.mockResolvedValue({ value: doc });
+    findOneAndUpdate.mockResolvedValue(doc);
 
     const client = createProcessorClient({
       mongo,
@@ -177,6 +441,128 @@ describe("createProcessorClient (MongoDB)", () => {
     expect(loaded).toBeNull();
   });
 
+  it("leaseEvent stamps the lease on an unleased ready event", async () => {
+    const lockedUntil = new Date("2024-06-01T12:01:00.000Z");
+    const { mongo, findOneAndUpdate, session } = createMongoMocks();
+    const doc = { id: "1", errors: 0, locked_by: "worker-1", locked_until: lockedUntil };
+    // The driver resolves the document itself
+    findOneAndUpdate.mockResolvedValue(doc);
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    const leased = await client.leaseEvent?.("1", {
+      maxErrors: 5,
+      lockedBy: "worker-1",
+      lockedUntil,
+    });
+
+    expect(leased).toEqual(doc);
+    expect(session.withTransaction).not.toHaveBeenCalled();
+    const [filter, update, opts] = findOneAndUpdate.mock.calls[0];
+    expect(filter).toMatchObject({ id: "1", processed_at: null });
+    expect(filter.$and).toContainEqual({
+      $or: [{ locked_until: null }, { locked_until: { $lt: fixedNow } }],
+    });
+    expect(update).toEqual({
+      $set: { locked_by: "worker-1", locked_until: lockedUntil },
+    });
+    expect(opts.returnDocument).toBe("after");
+  });
+
+  it("leaseEvent returns null when the event cannot be leased", async () => {
+    const { mongo, findOneAndUpdate } = createMongoMocks();
+    findOneAndUpdate.mockResolvedValue(null);
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    expect(
+      await client.leaseEvent?.("1", {
+        maxErrors: 5,
+        lockedBy: "worker-1",
+        lockedUntil: new Date("2024-06-01T12:01:00.000Z"),
+      }),
+    ).toBeNull();
+  });
+
+  it("updateClaimedEvent only writes while the claim is held", async () => {
+    const claimedUntil = new Date("2024-06-01T12:01:00.000Z");
+    const { mongo, updateOne } = createMongoMocks();
+    updateOne
+      .mockResolvedValueOnce({ matchedCount: 1 })
+      .mockResolvedValueOnce({ matchedCount: 0 });
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    const event = {
+      id: "e1",
+      handler_results: {},
+      errors: 0,
+      backoff_until: null,
+      processed_at: fixedNow,
+    } as unknown as TxOBEvent<"TestEvent", Record<string, unknown>>;
+    const results: boolean[] = [];
+    await client.transaction(async (tx) => {
+      results.push(await tx.updateClaimedEvent!(event, claimedUntil));
+      results.push(await tx.updateClaimedEvent!(event, claimedUntil));
+    });
+
+    expect(results).toEqual([true, false]);
+    expect(updateOne).toHaveBeenCalledWith(
+      { id: "e1", backoff_until: claimedUntil },
+      {
+        $set: {
+          handler_results: {},
+          errors: 0,
+          processed_at: fixedNow,
+          backoff_until: null,
+        },
+      },
+      expect.objectContaining({ session: expect.anything() }),
+    );
+  });
+
+  it("updateLeasedEvent only writes while the lease is held", async () => {
+    const lease = {
+      lockedBy: "worker-1",
+      lockedUntil: new Date("2024-06-01T12:01:00.000Z"),
+    };
+    const { mongo, updateOne } = createMongoMocks();
+    updateOne
+      .mockResolvedValueOnce({ matchedCount: 1 })
+      .mockResolvedValueOnce({ matchedCount: 0 });
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    const event = {
+      id: "e1",
+      handler_results: {},
+      errors: 0,
+      backoff_until: null,
+      processed_at: fixedNow,
+    } as unknown as TxOBEvent<"TestEvent", Record<string, unknown>>;
+    const results: boolean[] = [];
+    await client.transaction(async (tx) => {
+      results.push(await tx.updateLeasedEvent!(event, lease));
+      results.push(await tx.updateLeasedEvent!(event, lease));
+    });
+
+    expect(results).toEqual([true, false]);
+    expect(updateOne).toHaveBeenCalledWith(
+      { id: "e1", locked_by: "worker-1", locked_until: lease.lockedUntil },
+      {
+        $set: {
+          handler_results: {},
+          errors: 0,
+          processed_at: fixedNow,
+          backoff_until: null,
+          locked_by: null,
+          locked_until: null,
+        },
+      },
+      expect.objectContaining({ session: expect.anything() }),
+    );
+  });
+
   it("updateEvent and createEvent call driver with expected payloads", async () => {
     const { mongo, updateOne, insertOne } = createMongoMocks();
 
@@ -243,6 +629,99 @@ describe("createProcessorClient (MongoDB)", () => {
   });
 });
 
+describe("verifySchema (MongoDB)", () => {
+  it("reports a missing collection", async () => {
+    const { mongo, listCollections, listIndexes } = createMongoMocks();
+    listCollections.mockReturnValue({ toArray: () => Promise.resolve([]) });
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+
+    expect(await client.verifySchema!({})).toEqual([
+      {
+        kind: "table",
+        name: "events",
+        message:
+          'collection "events" does not exist: run migrate() from txob/mongodb',
+      },
+    ]);
+    expect(listCollections).toHaveBeenCalledWith(
+      { name: "events" },
+      { nameOnly: true },
+    );
+    expect(listIndexes).not.toHaveBeenCalled();
+  });
+
+  it("reports missing processing and unique id indexes", async () => {
+    const { mongo, listCollections, listIndexes } = createMongoMocks();
+    listCollections.mockReturnValue({
+      toArray: () => Promise.resolve([{ name: "events" }]),
+    });
+    listIndexes.mockReturnValue({
+      toArray: () =>
+        Promise.resolve([
+          { key: { _id: 1 }, name: "_id_" },
+          { key: { id: 1 }, name: "id_1" },
+        ]),
+    });
+
+    const client = createProcessorClient({ mongo, db: "app", eventSchemas });
+    const issues = await client.verifySchema!({});
+
+    expect(issues.map(({ kind, name }) => [kind, name])).toEqual([
+      ["index", "processed_at_1_backoff_until_1_errors_1"],
+      ["index", "id_1"],
+    ]);
+
+    listIndexes.mockReturnValue({
+      toArray: () =>
+        Promise.resolve([
+          { key: { _id: 1 }, name: "_id_" },
+          { key: { processed_at: 1, backoff_until: 1, errors: 1 } },
+          { key: { id: 1 }, unique: true },
+        ]),
+    });
+    expect(await client.verifySchema!({})).toEqual([]);
+  });
+});
+
+describe("createEventPublisher (MongoDB)", () => {
+  it("inserts the event with default bookkeeping fields in the given session", async () => {
+    const { mongo, insertOne, collection } = createMongoMocks();
+    const publisher = createEventPublisher({
+      mongo,
+      db: "app",
+      collection: "outbox",
+      eventSchemas,
+    });
+    const session = {} as any;
+
+    const event = await publisher.publish(
+      { id: "e1", type: "TestEvent", data: { x: 1 } },
+      { session },
+    );
+
+    expect(collection).toHaveBeenCalledWith("outbox");
+    expect(event).toEqual({
+      id: "e1",
+      timestamp: fixedNow,
+      type: "TestEvent",
+      data: { x: 1 },
+      correlation_id: expect.any(String),
+      handler_results: {},
+      errors: 0,
+    });
+    expect(insertOne).toHaveBeenCalledWith(
+      {
+        ...event,
+        processed_at: null,
+        backoff_until: null,
+        lock: null,
+      },
+      { session },
+    );
+  });
+});
+
 describe("createWakeupEmitter (MongoDB)", () => {
   it("emits wakeup on insert change and closes the stream", async () => {
     const handlers: Record<string, ((...args: unknown[]) => void)[]> = {};
@@ -330,9 +809,11 @@ describe("createWakeupEmitter (MongoDB)", () => {
     const ee = emitter as unknown as import("node:events").EventEmitter;
     ee.on("error", (e: unknown) => errors.push(e));
 
+    expect(emitter.isConnected?.()).toBe(true);
     for (const fn of handlers["close"] ?? []) {
       fn();
     }
+    expect(emitter.isConnected?.()).toBe(false);
     expect(errors).toHaveLength(1);
     expect((errors[0] as Error).message).toBe("MongoDB Change Stream closed");
   });
@@ -356,3 +837,244 @@ describe("createWakeupEmitter (MongoDB)", () => {
     emitter.off("wakeup", fn);
   });
 });
+
+describe("createAdminClient (MongoDB)", () => {
+  it("listFailedEvents queries processed events with max errors", async () => {
+    const rows = [{ id: "e1" }];
+    const { mongo, toArray, collection } = createMongoMocks();
+    toArray.mockResolvedValue(rows);
+
+    const admin = createAdminClient({ mongo, db: "app", eventSchemas });
+
+    const result = await admin.listFailedEvents({ maxErrors: 5, offset: 20 });
+
+    expect(result).toEqual(rows);
+    const coll = collection.mock.results[0].value;
+    expect(coll.find).toHaveBeenCalledWith({
+      processed_at: { $ne: null },
+      errors: { $gte: 5 },
+    });
+    const findReturn = coll.find.mock.results[0].value;
+    expect(findReturn.sort).toHaveBeenCalledWith("processed_at", "desc");
+    expect(findReturn.skip).toHaveBeenCalledWith(20);
+    expect(findReturn.limit).toHaveBeenCalledWith(100);
+  });
+
+  it("listEvents filters by status, type and creation date", async () => {
+    const { mongo, toArray, collection } = createMongoMocks();
+    toArray.mockResolvedValue([]);
+    const since = new Date("2024-06-01T12:00:00.000Z");
+
+    const admin = createAdminClient({ mongo, db: "app", eventSchemas });
+
+    await admin.listEvents({
+      maxErrors: 5,
+      status: "failed",
+      type: "TestEvent",
+      since,
+      order: "asc",
+      limit: 10,
+    });
+
+    const coll = collection.mock.results[0].value;
+    expect(coll.find).toHaveBeenCalledWith({
+      processed_at: { $ne: null },
+      errors: { $gte: 5 },
+      type: "TestEvent",
+      timestamp: { $gte: since },
+    });
+    const findReturn = coll.find.mock.results[0].value;
+    expect(findReturn.sort).toHaveBeenCalledWith({ timestamp: 1, id: 1 });
+    expect(findReturn.skip).toHaveBeenCalledWith(0);
+    expect(findReturn.limit).toHaveBeenCalledWith(10);
+
+    await admin.listEvents({ maxErrors: 5, status: "pending" });
+    expect(collection.mock.results[1].value.find).toHaveBeenCalledWith({
+      processed_at: null,
+    });
+  });
+
+  it("retryEvent resets the event in a transaction", async () => {
+    const { mongo, findOne, updateOne, session } = createMongoMocks();
+    findOne.mockResolvedValue({
+      handler_results: {
+        sendEmail: { processed_at: fixedNow },
+        chargeCard: { unprocessable_at: fixedNow },
+      },
+    });
+
+    const admin = createAdminClient({ mongo, db: "app", eventSchemas });
+
+    expect(await admin.retryEvent("e1")).toBe(true);
+    expect(session.withTransaction).toHaveBeenCalledOnce();
+    expect(findOne).toHaveBeenCalledWith(
+      { id: "e1", processed_at: { $ne: null } },
+      { session, projection: { handler_results: 1 } },
+    );
+    expect(updateOne).toHaveBeenCalledWith(
+      { id: "e1" },
+      {
+        $set: {
+          handler_results: {
+            sendEmail: { processed_at: fixedNow },
+            chargeCard: {},
+          },
+          errors: 0,
+          processed_at: null,
+          backoff_until: null,
+        },
+      },
+      { session },
+    );
+  });
+
+  it("retryHandler returns false when the event is not processed", async () => {
+    const { mongo, findOne, updateOne } = createMongoMocks();
+    findOne.mockResolvedValue(null);
+
+    const admin = createAdminClient({ mongo, db: "app", eventSchemas });
+
+    expect(await admin.retryHandler("e1", "sendEmail")).toBe(false);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it("discardEvent deletes the processed event", async () => {
+    const { mongo, deleteOne } = createMongoMocks();
+    deleteOne.mockResolvedValue({ deletedCount: 1 });
+
+    const admin = createAdminClient({ mongo, db: "app", eventSchemas });
+
+    expect(await admin.discardEvent("e1")).toBe(true);
+    expect(deleteOne).toHaveBeenCalledWith({
+      id: "e1",
+      processed_at: { $ne: null },
+    });
+  });
+});
+
+describe("createRetentionClient (MongoDB)", () => {
+  it("purgeEvents deletes a batch of processed events", async () => {
+    const { mongo, toArray, collection, deleteMany, insertMany, session } =
+      createMongoMocks();
+    toArray.mockResolvedValue([{ id: "e1" }, { id: "e2" }]);
+    deleteMany.mockResolvedValue({ deletedCount: 2 });
+
+    const client = createRetentionClient({ mongo, db: "app" });
+
+    const purged = await client.purgeEvents({
+      processedBefore: fixedNow,
+      maxErrors: 5,
+      deadLettered: false,
+      limit: 100,
+    });
+
+    expect(purged).toBe(2);
+    const coll = collection.mock.results[0].value;
+    expect(coll.find).toHaveBeenCalledWith(
+      { processed_at: { $lt: fixedNow }, errors: { $lt: 5 } },
+      { session: undefined },
+    );
+    expect(deleteMany).toHaveBeenCalledWith(
+      {
+        id: { $in: ["e1", "e2"] },
+        processed_at: { $lt: fixedNow },
+        errors: { $lt: 5 },
+      },
+      { session: undefined },
+    );
+    expect(insertMany).not.toHaveBeenCalled();
+    expect(session.withTransaction).not.toHaveBeenCalled();
+  });
+
+  it("purgeEvents archives dead-lettered events in a transaction", async () => {
+    const { mongo, toArray, collection, deleteMany, insertMany, session } =
+      createMongoMocks();
+    const events = [{ id: "e1", errors: 5 }];
+    toArray.mockResolvedValue(events);
+    deleteMany.mockResolvedValue({ deletedCount: 1 });
+
+    const client = createRetentionClient({
+      mongo,
+      db: "app",
+      archiveCollection: "events_archive",
+    });
+
+    const purged = await client.purgeEvents({
+      processedBefore: fixedNow,
+      maxErrors: 5,
+      deadLettered: true,
+      limit: 100,
+    });
+
+    expect(purged).toBe(1);
+    expect(session.withTransaction).toHaveBeenCalledOnce();
+    expect(collection).toHaveBeenCalledWith("events_archive");
+    expect(insertMany).toHaveBeenCalledWith(events, { session });
+    expect(deleteMany).toHaveBeenCalledWith(
+      {
+        id: { $in: ["e1"] },
+        processed_at: { $lt: fixedNow },
+        errors: { $gte: 5 },
+      },
+      { session },
+    );
+  });
+});
+
+describe("migrate (MongoDB)", () => {
+  it("creates the collection once and ensures its indexes", async () => {
+    const { mongo, toArray, updateOne, createCollection, createIndexes } =
+      createMongoMocks();
+    toArray.mockResolvedValue([]);
+    createCollection.mockRejectedValue(
+      Object.assign(new Error("Collection already exists"), { code: 48 }),
+    );
+
+    expect(await migrate({ mongo, db: "app" })).toEqual([1]);
+    expect(createCollection).toHaveBeenCalledWith("events");
+    expect(updateOne).toHaveBeenCalledWith(
+      { collection: "events", version: 1 },
+      { $setOnInsert: { applied_at: fixedNow } },
+      { upsert: true },
+    );
+    expect(createIndexes).toHaveBeenCalledOnce();
+
+    toArray.mockResolvedValue([{ version: 1 }]);
+    createCollection.mockClear();
+
+    expect(await migrate({ mongo, db: "app" })).toEqual([]);
+    expect(createCollection).not.toHaveBeenCalled();
+    expect(createIndexes).toHaveBeenCalledTimes(2);
+  });
+
+  it("surfaces other errors creating the collection", async () => {
+    const { mongo, toArray, updateOne, createCollection } = createMongoMocks();
+    toArray.mockResolvedValue([]);
+    createCollection.mockRejectedValue(new Error("not authorized"));
+
+    await expect(migrate({ mongo, db: "app" })).rejects.toThrow(
+      "not authorized",
+    );
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("ensureIndexes (MongoDB)", () => {
+  it("creates the processing, id, correlation id, processed at and dead-lettered indexes", async () => {
+    const { mongo, collection, createIndexes } = createMongoMocks();
+
+    await ensureIndexes({ mongo, db: "app", collection: "outbox" });
+
+    expect(collection).toHaveBeenCalledWith("outbox");
+    expect(createIndexes).toHaveBeenCalledWith([
+      {
+        key: { processed_at: 1, backoff_until: 1, errors: 1 },
+        partialFilterExpression: { processed_at: null },
+      },
+      { key: { id: 1 }, unique: true },
+      { key: { correlation_id: 1 } },
+      { key: { processed_at: 1 } },
+      { key: { errors: 1 }, partialFilterExpression: { errors: { $gt: 0 } } },
+    ]);
+  });
+});
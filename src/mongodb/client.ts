@@ -1,29 +1,174 @@
 import { EventEmitter } from "node:events";
-import { MongoClient, ObjectId, type ChangeStream } from "mongodb";
+import {
+  MongoClient,
+  ObjectId,
+  type ChangeStream,
+  type ClientSession,
+  type Collection,
+  type Db,
+  type Document,
+} from "mongodb";
 import type {
+  TxOBBacklogStats,
+  TxOBClaimEventsOpts,
+  TxOBEventByType,
   TxOBEventSchemaMap,
   TxOBSchemaOutput,
   TxOBEvent,
+  TxOBLease,
+  TxOBOrderingOpts,
   TxOBProcessorClient,
   TxOBProcessorClientOpts,
+  TxOBSchemaDriftIssue,
   TxOBTransactionProcessorClient,
+  TxOBUnlockedEvent,
   WakeupEmitter,
 } from "../processor.js";
+import { resetHandlerResults, type TxOBAdminClient } from "../admin.js";
+import type { TxOBRetentionClient } from "../retention.js";
 import { getDate } from "../date.js";
+import {
+  createPublishableEvent,
+  type TxOBEventPublisher,
+  type TxOBPublishableEvent,
+} from "../publisher.js";
+import type { TxOBTelemetryTracer } from "../telemetry.js";
 
-const createReadyToProcessFilter = (maxErrors: number) => ({
+const createReadyToProcessFilter = (maxErrors: number, leased?: boolean) => ({
   processed_at: null,
   $and: [
     {
       $or: [{ backoff_until: null }, { backoff_until: { $lt: getDate() } }],
     },
+    // `null` also matches documents published before `available_at` existed
+    {
+      $or: [{ available_at: null }, { available_at: { $lte: getDate() } }],
+    },
     {
       $or: [{ lock: null }, { lock: { $exists: false } }],
     },
+    // Events leased by a processor in lease mode are skipped until the lease expires
+    ...(leased
+      ? [
+          {
+            $or: [
+              { locked_until: null },
+              { locked_until: { $lt: getDate() } },
+            ],
+          },
+        ]
+      : []),
   ],
   errors: { $lt: maxErrors },
 });
 
+const eventProjection = {
+  _id: 0,
+  id: 1,
+  timestamp: 1,
+  type: 1,
+  data: 1,
+  correlation_id: 1,
+  partition_key: 1,
+  priority: 1,
+  available_at: 1,
+  handler_results: 1,
+  errors: 1,
+  backoff_until: 1,
+  processed_at: 1,
+  traceparent: 1,
+  tracestate: 1,
+};
+
+const insertEvent = async (
+  eventsCollection: Collection,
+  event: TxOBPublishableEvent<string>,
+  session?: ClientSession,
+): Promise<void> => {
+  await eventsCollection.insertOne(
+    {
+      id: event.id,
+      timestamp: event.timestamp,
+      type: event.type,
+      data: event.data,
+      correlation_id: event.correlation_id,
+      ...(event.partition_key !== undefined && {
+        partition_key: event.partition_key,
+      }),
+      ...(event.priority !== undefined && { priority: event.priority }),
+      ...(event.available_at !== undefined && {
+        available_at: event.available_at,
+      }),
+      ...(event.traceparent !== undefined && {
+        traceparent: event.traceparent,
+      }),
+      ...(event.tracestate !== undefined && { tracestate: event.tracestate }),
+      handler_results: event.handler_results,
+      errors: event.errors,
+      processed_at: null,
+      backoff_until: null,
+      lock: null,
+    },
+    {
+      session,
+    },
+  );
+};
+
+const createEventsToProcessPipeline = (
+  limit: number,
+  opts: TxOBProcessorClientOpts & { ordering: TxOBOrderingOpts },
+): Document[] => {
+  const { maxErrors, ordering, prioritized, leased } = opts;
+  // Only the oldest unprocessed event per ordering key is handed out. Events without a key are unordered
+  // When blocking, the oldest event must itself be ready, otherwise it is skipped in favor of the oldest ready event
+  const blocking = (ordering.onFailure ?? "block") === "block";
+
+  return [
+    {
+      $match: blocking
+        ? { processed_at: null, errors: { $lt: maxErrors } }
+        : createReadyToProcessFilter(maxErrors, leased),
+    },
+    {
+      $project: {
+        id: 1,
+        errors: 1,
+        timestamp: 1,
+        backoff_until: 1,
+        available_at: 1,
+        processed_at: 1,
+        lock: 1,
+        ...(leased && { locked_until: 1 }),
+        [ordering.key]: 1,
+        ...(prioritized && { priority: 1 }),
+      },
+    },
+    { $sort: { timestamp: 1 } },
+    {
+      $group: {
+        _id: { $ifNull: [`$${ordering.key}`, "$id"] },
+        head: { $first: "$$ROOT" },
+      },
+    },
+    { $replaceRoot: { newRoot: "$head" } },
+    ...(blocking
+      ? [{ $match: createReadyToProcessFilter(maxErrors, leased) }]
+      : []),
+    { $sort: prioritized ? { priority: -1, timestamp: 1 } : { timestamp: 1 } },
+    { $limit: limit },
+    {
+      $project: {
+        _id: 0,
+        id: 1,
+        errors: 1,
+        [ordering.key]: 1,
+        ...(prioritized && { priority: 1 }),
+      },
+    },
+  ];
+};
+
 export type CreateProcessorClientOpts<
   TEventSchemas extends TxOBEventSchemaMap<string>,
 > = {
@@ -54,34 +199,219 @@ export const createProcessorClient = <
   const getEventsToProcess = async (
     opts: TxOBProcessorClientOpts,
   ): Promise<
-    Pick<
-      TxOBEvent<
-        keyof TEventSchemas & string,
-        TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
-      >,
-      "id" | "errors"
+    TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
     >[]
   > => {
-    const filter = createReadyToProcessFilter(opts.maxErrors);
+    if (opts.ordering) {
+      return (await mongo
+        .db(db)
+        .collection(collection)
+        .aggregate(
+          createEventsToProcessPipeline(limit, {
+            ...opts,
+            ordering: opts.ordering,
+          }),
+        )
+        .toArray()) as TxOBUnlockedEvent<
+        keyof TEventSchemas & string,
+        {
+          [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+            TEventSchemas[TType]
+          >;
+        }
+      >[];
+    }
+
+    const filter = createReadyToProcessFilter(opts.maxErrors, opts.leased);
 
     const events = (await mongo
       .db(db)
       .collection(collection)
       .find(filter)
-      .project({ id: 1, errors: 1 })
+      .project(
+        opts.prioritized ? { id: 1, errors: 1, priority: 1 } : { id: 1, errors: 1 },
+      )
       .limit(limit)
-      .sort("timestamp", "asc")
-      .toArray()) as Pick<
-      TxOBEvent<
-        keyof TEventSchemas & string,
-        TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
-      >,
-      "id" | "errors"
+      .sort(
+        opts.prioritized ? { priority: -1, timestamp: 1 } : "timestamp",
+        opts.prioritized ? undefined : "asc",
+      )
+      .toArray()) as TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
     >[];
 
     return events;
   };
 
+  const getNextAvailableAt = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<Date | null> => {
+    const [event] = (await mongo
+      .db(db)
+      .collection(collection)
+      .find({
+        processed_at: null,
+        available_at: { $gt: getDate() },
+        errors: { $lt: opts.maxErrors },
+      })
+      .project({ available_at: 1 })
+      .limit(1)
+      .sort("available_at", "asc")
+      .toArray()) as { available_at: Date }[];
+
+    return event?.available_at ?? null;
+  };
+
+  const getBacklogStats = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<TxOBBacklogStats[]> => {
+    const pending = {
+      $and: [
+        { $eq: [{ $ifNull: ["$processed_at", null] }, null] },
+        { $lt: ["$errors", opts.maxErrors] },
+      ],
+    };
+    const stats = (await mongo
+      .db(db)
+      .collection(collection)
+      .aggregate([
+        {
+          $match: {
+            $or: [
+              { processed_at: null },
+              { errors: { $gte: opts.maxErrors } },
+            ],
+          },
+        },
+        {
+          $group: {
+            _id: "$type",
+            pending: { $sum: { $cond: [pending, 1, 0] } },
+            retrying: {
+              $sum: {
+                $cond: [{ $and: [pending, { $gt: ["$errors", 0] }] }, 1, 0],
+              },
+            },
+            deadLettered: {
+              $sum: { $cond: [{ $gte: ["$errors", opts.maxErrors] }, 1, 0] },
+            },
+            // $min ignores the nulls of events that are not pending
+            oldestPendingAt: { $min: { $cond: [pending, "$timestamp", null] } },
+          },
+        },
+      ])
+      .toArray()) as (Omit<TxOBBacklogStats, "type"> & { _id: string })[];
+
+    return stats.map(({ _id, ...stat }) => ({
+      type: _id,
+      ...stat,
+      oldestPendingAt: stat.oldestPendingAt ?? null,
+    }));
+  };
+
+  const claimEventsToProcess = async (
+    opts: TxOBClaimEventsOpts,
+  ): Promise<
+    TxOBEventByType<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[]
+  > => {
+    let claimed: TxOBEventByType<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[] = [];
+    // Concurrent claims of the same events cause a write conflict, which aborts and retries the transaction
+    // so every event found here is claimed by this call only
+    await mongo.withSession(async (session): Promise<void> => {
+      await session.withTransaction(async (): Promise<void> => {
+        const eventsCollection = mongo.db(db).collection(collection);
+        const events = (await eventsCollection
+          .find(createReadyToProcessFilter(opts.maxErrors), { session })
+          .project(eventProjection)
+          .limit(Math.min(limit, opts.limit))
+          .sort(
+            opts.prioritized ? { priority: -1, timestamp: 1 } : "timestamp",
+            opts.prioritized ? undefined : "asc",
+          )
+          .toArray()) as typeof claimed;
+        if (events.length === 0) {
+          claimed = [];
+          return;
+        }
+
+        await eventsCollection.updateMany(
+          { id: { $in: events.map((event) => event.id) } },
+          { $set: { backoff_until: opts.claimedUntil } },
+          { session },
+        );
+        claimed = events.map((event) => ({
+          ...event,
+          backoff_until: opts.claimedUntil,
+        }));
+      });
+    });
+
+    return claimed;
+  };
+
+  // Updating a single document is atomic, so the lease is stamped without a transaction
+  const leaseEvent = async (
+    eventId: TxOBEvent<
+      keyof TEventSchemas & string,
+      TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+    >["id"],
+    opts: TxOBProcessorClientOpts & TxOBLease,
+  ): Promise<
+    | TxOBEvent<
+        keyof TEventSchemas & string,
+        TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+      >
+    | null
+  > => {
+    // Since driver v6 `findOneAndUpdate` resolves the document itself rather than a `{ value }` result
+    const event = await mongo
+      .db(db)
+      .collection(collection)
+      .findOneAndUpdate(
+        { id: eventId, ...createReadyToProcessFilter(opts.maxErrors, true) },
+        {
+          $set: {
+            locked_by: opts.lockedBy,
+            locked_until: opts.lockedUntil,
+          },
+        },
+        {
+          returnDocument: "after",
+          projection: eventProjection,
+        },
+      );
+
+    return event as TxOBEvent<
+      keyof TEventSchemas & string,
+      TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+    > | null;
+  };
+
   const transaction: TxOBProcessorClient<
     keyof TEventSchemas & string,
     {
@@ -116,9 +446,10 @@ export const createProcessorClient = <
             | null
           > => {
             // https://www.mongodb.com/blog/post/how-to-select--for-update-inside-mongodb-transactions
-            // Note: findOneAndUpdate returns null (not an error) when document not found,
-            // so any thrown error is unexpected and will propagate to the transaction handler
-            const result = await mongo
+            // Note: findOneAndUpdate resolves the document itself, or null (not an error) when the
+            // document is not found, so any thrown error is unexpected and will propagate to the
+            // transaction handler
+            const event = await mongo
               .db(db)
               .collection(collection)
               .findOneAndUpdate(
@@ -131,26 +462,14 @@ export const createProcessorClient = <
                 {
                   session,
                   returnDocument: "after",
-                  projection: {
-                    id: 1,
-                    timestamp: 1,
-                    type: 1,
-                    data: 1,
-                    correlation_id: 1,
-                    handler_results: 1,
-                    errors: 1,
-                    backoff_until: 1,
-                    processed_at: 1,
-                  },
+                  projection: eventProjection,
                 },
               );
 
-            if (!result || !result.value) return null;
-
-            return result.value as TxOBEvent<
+            return event as TxOBEvent<
               keyof TEventSchemas & string,
               TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
-            >;
+            > | null;
           },
           updateEvent: async (
             event: TxOBEvent<
@@ -179,6 +498,69 @@ export const createProcessorClient = <
                 },
               );
           },
+          updateClaimedEvent: async (
+            event: TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >,
+            claimedUntil: Date,
+          ): Promise<boolean> => {
+            const result = await mongo
+              .db(db)
+              .collection(collection)
+              .updateOne(
+                {
+                  id: event.id,
+                  backoff_until: claimedUntil,
+                },
+                {
+                  $set: {
+                    handler_results: event.handler_results,
+                    errors: event.errors,
+                    processed_at: event.processed_at,
+                    backoff_until: event.backoff_until,
+                  },
+                },
+                {
+                  session,
+                },
+              );
+
+            return result.matchedCount === 1;
+          },
+          updateLeasedEvent: async (
+            event: TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >,
+            lease: TxOBLease,
+          ): Promise<boolean> => {
+            const result = await mongo
+              .db(db)
+              .collection(collection)
+              .updateOne(
+                {
+                  id: event.id,
+                  locked_by: lease.lockedBy,
+                  locked_until: lease.lockedUntil,
+                },
+                {
+                  $set: {
+                    handler_results: event.handler_results,
+                    errors: event.errors,
+                    processed_at: event.processed_at,
+                    backoff_until: event.backoff_until,
+                    locked_by: null,
+                    locked_until: null,
+                  },
+                },
+                {
+                  session,
+                },
+              );
+
+            return result.matchedCount === 1;
+          },
           createEvent: async (
             event: Omit<
               TxOBEvent<
@@ -188,22 +570,10 @@ export const createProcessorClient = <
               "processed_at" | "backoff_until"
             >,
           ): Promise<void> => {
-            await mongo.db(db).collection(collection).insertOne(
-              {
-                id: event.id,
-                timestamp: event.timestamp,
-                type: event.type,
-                data: event.data,
-                correlation_id: event.correlation_id,
-                handler_results: event.handler_results,
-                errors: event.errors,
-                processed_at: null,
-                backoff_until: null,
-                lock: null,
-              },
-              {
-                session,
-              },
+            await insertEvent(
+              mongo.db(db).collection(collection),
+              event,
+              session,
             );
           },
         });
@@ -211,12 +581,430 @@ export const createProcessorClient = <
     });
   };
 
+  // Documents carry no schema, so only the collection and its indexes are checked
+  const verifySchema = async (): Promise<TxOBSchemaDriftIssue[]> => {
+    const database = mongo.db(db);
+    const collections = await database
+      .listCollections({ name: collection }, { nameOnly: true })
+      .toArray();
+    if (collections.length === 0) {
+      return [
+        {
+          kind: "table",
+          name: collection,
+          message: `collection "${collection}" does not exist: run migrate() from txob/mongodb`,
+        },
+      ];
+    }
+
+    const issues: TxOBSchemaDriftIssue[] = [];
+    const indexes = await database
+      .collection(collection)
+      .listIndexes()
+      .toArray();
+    if (
+      !indexes.some((index) => Object.keys(index.key)[0] === "processed_at")
+    ) {
+      issues.push({
+        kind: "index",
+        name: "processed_at_1_backoff_until_1_errors_1",
+        message: `no index on "${collection}" starts with processed_at, so every poll scans the collection: run ensureIndexes() from txob/mongodb`,
+      });
+    }
+    if (
+      !indexes.some(
+        (index) =>
+          index.unique &&
+          Object.keys(index.key).length === 1 &&
+          index.key.id !== undefined,
+      )
+    ) {
+      issues.push({
+        kind: "index",
+        name: "id_1",
+        message: `"${collection}.id" has no unique index, so events can be published twice: run ensureIndexes() from txob/mongodb`,
+      });
+    }
+
+    return issues;
+  };
+
   return {
     getEventsToProcess,
+    getNextAvailableAt,
+    getBacklogStats,
+    claimEventsToProcess,
+    leaseEvent,
+    verifySchema,
     transaction,
   };
 };
 
+export type CreateEventPublisherOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  mongo: MongoClient;
+  db: string;
+  collection?: string;
+  eventSchemas: TEventSchemas;
+  // Stores the active trace context with published events, see `TxOBTelemetryTracer`
+  tracer?: TxOBTelemetryTracer;
+};
+
+/**
+ * Creates a publisher for writing outbox events alongside the application's own writes.
+ * Pass the session of the current transaction (e.g. from `session.withTransaction`) so the event
+ * is committed or aborted together with the business data.
+ *
+ * @param opts - Options for the event publisher
+ * @returns A TxOBEventPublisher typed against `eventSchemas`
+ */
+export const createEventPublisher = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateEventPublisherOpts<TEventSchemas>,
+): TxOBEventPublisher<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  },
+  { session?: ClientSession }
+> => {
+  const {
+    mongo,
+    db,
+    collection = "events",
+    eventSchemas: _eventSchemas,
+    tracer,
+  } = opts;
+
+  return {
+    publish: async (event, { session }) => {
+      const publishableEvent = createPublishableEvent(event, { tracer });
+      await insertEvent(
+        mongo.db(db).collection(collection),
+        publishableEvent,
+        session,
+      );
+
+      return publishableEvent;
+    },
+  };
+};
+
+export type CreateAdminClientOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  mongo: MongoClient;
+  db: string;
+  collection?: string;
+  eventSchemas: TEventSchemas;
+};
+
+/**
+ * Creates an admin client for inspecting and replaying dead-lettered events.
+ * Retries run in a transaction, which requires a replica set or sharded cluster.
+ *
+ * @param opts - Options for the admin client
+ * @returns A TxOBAdminClient typed against `eventSchemas`
+ */
+export const createAdminClient = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateAdminClientOpts<TEventSchemas>,
+): TxOBAdminClient<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  }
+> => {
+  const { mongo, db, collection = "events", eventSchemas: _eventSchemas } = opts;
+  type AdminEvent = TxOBEventByType<
+    keyof TEventSchemas & string,
+    {
+      [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+        TEventSchemas[TType]
+      >;
+    }
+  >;
+
+  const retry = async (
+    eventId: string,
+    handlerNames?: string[],
+  ): Promise<boolean> => {
+    let retried = false;
+    await mongo.withSession(async (session): Promise<void> => {
+      await session.withTransaction(async (): Promise<void> => {
+        const eventsCollection = mongo.db(db).collection(collection);
+        const event = (await eventsCollection.findOne(
+          { id: eventId, processed_at: { $ne: null } },
+          { session, projection: { handler_results: 1 } },
+        )) as Pick<AdminEvent, "handler_results"> | null;
+        if (!event) {
+          retried = false;
+          return;
+        }
+
+        await eventsCollection.updateOne(
+          { id: eventId },
+          {
+            $set: {
+              handler_results: resetHandlerResults(
+                event.handler_results,
+                handlerNames,
+              ),
+              errors: 0,
+              processed_at: null,
+              backoff_until: null,
+            },
+          },
+          { session },
+        );
+        retried = true;
+      });
+    });
+
+    return retried;
+  };
+
+  return {
+    listFailedEvents: async ({ maxErrors, limit = 100, offset = 0 }) =>
+      (await mongo
+        .db(db)
+        .collection(collection)
+        .find({ processed_at: { $ne: null }, errors: { $gte: maxErrors } })
+        .project(eventProjection)
+        .sort("processed_at", "desc")
+        .skip(offset)
+        .limit(limit)
+        .toArray()) as AdminEvent[],
+    listEvents: async ({
+      maxErrors,
+      status,
+      type,
+      since,
+      order = "desc",
+      limit = 100,
+      offset = 0,
+    }) =>
+      (await mongo
+        .db(db)
+        .collection(collection)
+        .find({
+          ...(status === "pending" && { processed_at: null }),
+          ...(status &&
+            status !== "pending" && {
+              processed_at: { $ne: null },
+              errors:
+                status === "failed" ? { $gte: maxErrors } : { $lt: maxErrors },
+            }),
+          ...(type !== undefined && { type }),
+          ...(since && { timestamp: { $gte: since } }),
+        })
+        .project(eventProjection)
+        .sort(
+          order === "asc" ? { timestamp: 1, id: 1 } : { timestamp: -1, id: -1 },
+        )
+        .skip(offset)
+        .limit(limit)
+        .toArray()) as AdminEvent[],
+    getEvent: async (eventId) =>
+      (await mongo
+        .db(db)
+        .collection(collection)
+        .findOne({ id: eventId }, { projection: eventProjection })) as AdminEvent | null,
+    retryEvent: (eventId) => retry(eventId),
+    retryHandler: (eventId, handlerName) => retry(eventId, [handlerName]),
+    discardEvent: async (eventId) => {
+      const result = await mongo
+        .db(db)
+        .collection(collection)
+        .deleteOne({ id: eventId, processed_at: { $ne: null } });
+      return result.deletedCount > 0;
+    },
+  };
+};
+
+export type CreateRetentionClientOpts = {
+  mongo: MongoClient;
+  db: string;
+  collection?: string;
+  // Purged events are moved into this collection instead of being deleted
+  archiveCollection?: string;
+};
+
+/**
+ * Creates a retention client for `EventRetentionJob`. Archiving copies and deletes each batch
+ * in a transaction, which requires a replica set or sharded cluster.
+ *
+ * @param opts - Options for the retention client
+ * @returns A TxOBRetentionClient
+ */
+export const createRetentionClient = (
+  opts: CreateRetentionClientOpts,
+): TxOBRetentionClient => {
+  const { mongo, db, collection = "events", archiveCollection } = opts;
+
+  return {
+    purgeEvents: async ({ processedBefore, maxErrors, deadLettered, limit }) => {
+      const purgeable = {
+        processed_at: { $lt: processedBefore },
+        errors: deadLettered ? { $gte: maxErrors } : { $lt: maxErrors },
+      };
+      const purgeBatch = async (session?: ClientSession): Promise<number> => {
+        const eventsCollection = mongo.db(db).collection(collection);
+        const events = await eventsCollection
+          .find(purgeable, { session })
+          .project(archiveCollection ? {} : { id: 1 })
+          .limit(limit)
+          .sort("processed_at", "asc")
+          .toArray();
+        if (events.length === 0) {
+          return 0;
+        }
+
+        if (archiveCollection) {
+          await mongo
+            .db(db)
+            .collection(archiveCollection)
+            .insertMany(events, { session });
+        }
+        // Events retried since they were found are no longer purgeable and stay
+        const result = await eventsCollection.deleteMany(
+          { id: { $in: events.map((event) => event.id) }, ...purgeable },
+          { session },
+        );
+
+        return result.deletedCount;
+      };
+
+      if (!archiveCollection) {
+        return purgeBatch();
+      }
+
+      let purged = 0;
+      await mongo.withSession(async (session): Promise<void> => {
+        await session.withTransaction(async (): Promise<void> => {
+          purged = await purgeBatch(session);
+        });
+      });
+
+      return purged;
+    },
+  };
+};
+
+type Migration = {
+  version: number;
+  up: (database: Db, collection: string) => Promise<void>;
+};
+
+// 48: NamespaceExists
+const isNamespaceExistsError = (error: unknown): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  "code" in error &&
+  error.code === 48;
+
+// Append only: applied versions are recorded per collection and never run again
+const migrations: Migration[] = [
+  {
+    version: 1,
+    // Collections can't be created implicitly inside transactions on MongoDB < 4.4
+    up: async (database, collection) => {
+      try {
+        await database.createCollection(collection);
+      } catch (error) {
+        if (!isNamespaceExistsError(error)) {
+          throw error;
+        }
+      }
+    },
+  },
+];
+
+export type MigrateOpts = {
+  mongo: MongoClient;
+  db: string;
+  collection?: string;
+  // Records the applied migration versions of every events collection (default: "txob_migrations")
+  migrationsCollection?: string;
+};
+
+/**
+ * Creates the events collection and applies the migrations it's missing, then ensures its indexes.
+ * Migrations are versioned per collection and idempotent, so processes starting together may
+ * both run one without harm.
+ *
+ * @param opts - Options for the migration
+ * @returns The versions applied by this call, empty when the collection was up to date
+ */
+export const migrate = async (opts: MigrateOpts): Promise<number[]> => {
+  const {
+    mongo,
+    db,
+    collection = "events",
+    migrationsCollection = "txob_migrations",
+  } = opts;
+  const database = mongo.db(db);
+  const migrationsHistory = database.collection(migrationsCollection);
+
+  const appliedVersions = await migrationsHistory
+    .find({ collection })
+    .project({ _id: 0, version: 1 })
+    .toArray();
+  const pending = migrations.filter(
+    ({ version }) =>
+      !appliedVersions.some((applied) => applied.version === version),
+  );
+  for (const migration of pending) {
+    await migration.up(database, collection);
+    await migrationsHistory.updateOne(
+      { collection, version: migration.version },
+      { $setOnInsert: { applied_at: getDate() } },
+      { upsert: true },
+    );
+  }
+  await ensureIndexes({ mongo, db, collection });
+
+  return pending.map(({ version }) => version);
+};
+
+export type EnsureIndexesOpts = {
+  mongo: MongoClient;
+  db: string;
+  collection?: string;
+};
+
+/**
+ * Creates the indexes the processor, admin and retention queries rely on if they don't exist yet: the
+ * partial processing index over unprocessed events, a unique index on `id`, an index on `correlation_id`,
+ * an index on `processed_at` and a partial index on `errors` over failed events. Indexes created from the
+ * README snippet are left as they are. Called by `migrate`.
+ *
+ * @param opts - Options for the indexes
+ * @returns Promise that resolves when the indexes exist
+ */
+export const ensureIndexes = async (opts: EnsureIndexesOpts): Promise<void> => {
+  const { mongo, db, collection = "events" } = opts;
+
+  await mongo
+    .db(db)
+    .collection(collection)
+    .createIndexes([
+      {
+        key: { processed_at: 1, backoff_until: 1, errors: 1 },
+        partialFilterExpression: { processed_at: null },
+      },
+      { key: { id: 1 }, unique: true },
+      { key: { correlation_id: 1 } },
+      // Retention purges the oldest processed events first
+      { key: { processed_at: 1 } },
+      // Backlog stats count dead-lettered events without scanning every processed event
+      { key: { errors: 1 }, partialFilterExpression: { errors: { $gt: 0 } } },
+    ]);
+};
+
 type CreateWakeupEmitterOpts = {
   mongo: MongoClient;
   db: string;
@@ -232,7 +1020,7 @@ type CreateWakeupEmitterOpts = {
  * replica set by running `rs.initiate()` in the mongo shell.
  *
  * If the database is not configured for Change Streams, an error will be emitted via
- * the 'error' event on the returned WakeupEmitter. The error typically occurs when
+ * the 'error' event on the returned WakeupEmitter, see `onError`. The error typically occurs when
  * the change stream attempts to connect.
  *
  * See: https://www.mongodb.com/docs/manual/changeStreams/
@@ -268,8 +1056,12 @@ export const createWakeupEmitter = async (
     },
   );
 
+  let connected = true;
+
   // Handle change stream events
   changeStream.on("change", () => {
+    // The driver resumes the stream after transient errors
+    connected = true;
     emitter.emit("wakeup");
   });
 
@@ -279,11 +1071,13 @@ export const createWakeupEmitter = async (
   // - Connection errors
   // - Permission errors
   changeStream.on("error", (err) => {
+    connected = false;
     emitter.emit("error", err);
   });
 
   // Handle change stream close
   changeStream.on("close", () => {
+    connected = false;
     emitter.emit("error", new Error("MongoDB Change Stream closed"));
   });
 
@@ -298,5 +1092,9 @@ export const createWakeupEmitter = async (
     close: async () => {
       await changeStream.close();
     },
+    isConnected: () => connected,
+    onError: (listener: (error: unknown) => void) => {
+      emitter.on("error", listener);
+    },
   };
 };
@@ -0,0 +1,230 @@
+import { vi, describe, it, expect } from "vitest";
+import {
+  createEventPublisher,
+  createEventsTable,
+  createProcessorClient,
+} from "./client.js";
+
+const fixedNow = new Date("2024-06-01T12:00:00.000Z");
+
+vi.mock("../date.js", () => ({
+  getDate: () => fixedNow,
+}));
+
+const eventSchemas = {
+  TestEvent: {
+    "~standard": {
+      version: 1 as const,
+      vendor: "test",
+      validate: (value: unknown) => ({
+        value:
+          typeof value === "object" && value !== null
+            ? (value as Record<string, unknown>)
+            : {},
+      }),
+    },
+  },
+};
+
+const createQuerier = (rows: unknown = []) => ({
+  query: vi.fn<any>(() => Promise.resolve([rows, []])),
+});
+
+describe("getEventsToProcess", () => {
+  it("should execute the correct query", async () => {
+    const rows = [{ id: "1", errors: 0 }];
+    const querier = createQuerier(rows);
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    const result = await client.getEventsToProcess({ maxErrors: 5 });
+
+    expect(querier.query).toHaveBeenCalledWith(
+      "SELECT id, errors FROM `events` WHERE processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < ?) AND (available_at IS NULL OR available_at <= ?) AND errors < ? ORDER BY timestamp ASC LIMIT 100",
+      [fixedNow, fixedNow, 5],
+    );
+    expect(result).toBe(rows);
+  });
+
+  it("should only select the oldest unprocessed event per ordering key", async () => {
+    const querier = createQuerier();
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    await client.getEventsToProcess({
+      maxErrors: 5,
+      ordering: { key: "partition_key" },
+      prioritized: true,
+    });
+
+    expect(querier.query).toHaveBeenCalledWith(
+      "SELECT id, errors, `partition_key`, priority FROM (SELECT id, errors, `partition_key`, priority, timestamp, backoff_until, available_at, ROW_NUMBER() OVER (PARTITION BY COALESCE(`partition_key`, id) ORDER BY timestamp ASC) AS position FROM `events` WHERE processed_at IS NULL AND errors < ?) AS heads WHERE position = 1 AND (backoff_until IS NULL OR backoff_until < ?) AND (available_at IS NULL OR available_at <= ?) ORDER BY priority DESC, timestamp ASC LIMIT 100",
+      [5, fixedNow, fixedNow],
+    );
+  });
+});
+
+describe("getBacklogStats", () => {
+  it("should count pending, retrying and dead-lettered events by type", async () => {
+    const oldestPendingAt = new Date("2024-06-01T11:00:00.000Z");
+    const querier = createQuerier([
+      {
+        type: "TestEvent",
+        pending: "3",
+        retrying: "1",
+        dead_lettered: "2",
+        oldest_pending_at: oldestPendingAt,
+      },
+    ]);
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    const result = await client.getBacklogStats?.({ maxErrors: 5 });
+
+    expect(querier.query).toHaveBeenCalledWith(
+      "SELECT type, SUM(CASE WHEN processed_at IS NULL AND errors < ? THEN 1 ELSE 0 END) AS pending, SUM(CASE WHEN processed_at IS NULL AND errors < ? AND errors > 0 THEN 1 ELSE 0 END) AS retrying, SUM(CASE WHEN errors >= ? THEN 1 ELSE 0 END) AS dead_lettered, MIN(CASE WHEN processed_at IS NULL AND errors < ? THEN timestamp END) AS oldest_pending_at FROM (SELECT type, timestamp, errors, processed_at FROM `events` WHERE processed_at IS NULL UNION ALL SELECT type, timestamp, errors, processed_at FROM `events` WHERE processed_at IS NOT NULL AND errors >= ?) AS backlog GROUP BY type",
+      [5, 5, 5, 5, 5],
+    );
+    expect(result).toEqual([
+      {
+        type: "TestEvent",
+        pending: 3,
+        retrying: 1,
+        deadLettered: 2,
+        oldestPendingAt,
+      },
+    ]);
+  });
+});
+
+describe("transaction", () => {
+  it("should lock the event and parse JSON columns returned as text", async () => {
+    const querier = createQuerier([
+      {
+        id: "1",
+        data: '{"count":1}',
+        handler_results: '{"handler1":{}}',
+        errors: 0,
+      },
+    ]);
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    let event: unknown;
+    await client.transaction(async (txClient) => {
+      event = await txClient.getEventByIdForUpdateSkipLocked("1", {
+        maxErrors: 5,
+      });
+    });
+
+    expect(querier.query).toHaveBeenNthCalledWith(1, "START TRANSACTION");
+    expect(querier.query).toHaveBeenNthCalledWith(
+      2,
+      "SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, available_at, processed_at FROM `events` WHERE id = ? AND processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < ?) AND (available_at IS NULL OR available_at <= ?) AND errors < ? FOR UPDATE SKIP LOCKED",
+      ["1", fixedNow, fixedNow, 5],
+    );
+    expect(querier.query).toHaveBeenNthCalledWith(3, "COMMIT");
+    expect(event).toEqual({
+      id: "1",
+      data: { count: 1 },
+      handler_results: { handler1: {} },
+      errors: 0,
+    });
+  });
+
+  it("should return null when the event is locked or processed", async () => {
+    const querier = createQuerier([]);
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    await client.transaction(async (txClient) => {
+      expect(
+        await txClient.getEventByIdForUpdateSkipLocked("1", { maxErrors: 5 }),
+      ).toBeNull();
+    });
+  });
+
+  it("should write handler results as JSON when updating", async () => {
+    const querier = createQuerier();
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    await client.transaction(async (txClient) => {
+      await txClient.updateEvent({
+        id: "1",
+        type: "TestEvent",
+        timestamp: fixedNow,
+        data: {},
+        correlation_id: "abc",
+        handler_results: { handler1: { processed_at: fixedNow } },
+        errors: 1,
+        processed_at: fixedNow,
+      });
+    });
+
+    expect(querier.query).toHaveBeenNthCalledWith(
+      2,
+      "UPDATE `events` SET handler_results = ?, errors = ?, processed_at = ?, backoff_until = ? WHERE id = ?",
+      [
+        JSON.stringify({ handler1: { processed_at: fixedNow } }),
+        1,
+        fixedNow,
+        null,
+        "1",
+      ],
+    );
+  });
+
+  it("should rollback and rethrow on error", async () => {
+    const querier = createQuerier();
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    await expect(
+      client.transaction(async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(querier.query).toHaveBeenLastCalledWith("ROLLBACK");
+  });
+});
+
+describe("createEventPublisher", () => {
+  it("should insert the event with JSON encoded columns", async () => {
+    const querier = createQuerier();
+    const publisher = createEventPublisher({ eventSchemas });
+
+    const event = await publisher.publish(
+      { type: "TestEvent", data: { count: 1 }, partition_key: "order-1" },
+      { querier },
+    );
+
+    expect(querier.query).toHaveBeenCalledWith(
+      "INSERT INTO `events` (id, timestamp, type, data, correlation_id, handler_results, errors, partition_key) VALUES (?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        event.id,
+        fixedNow,
+        "TestEvent",
+        '{"count":1}',
+        event.correlation_id,
+        "{}",
+        0,
+        "order-1",
+      ],
+    );
+  });
+});
+
+describe("createEventsTable", () => {
+  it("should create the table if it does not exist", async () => {
+    const querier = createQuerier();
+
+    await createEventsTable({ querier, table: "outbox" });
+
+    expect(querier.query).toHaveBeenCalledOnce();
+    expect(querier.query).toHaveBeenCalledWith(
+      expect.stringContaining("CREATE TABLE IF NOT EXISTS `outbox`"),
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "INDEX `idx_outbox_processing` (processed_at, backoff_until, errors)",
+      ),
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      expect.stringContaining("INDEX `idx_outbox_errors` (errors)"),
+    );
+  });
+});
@@ -0,0 +1,397 @@
+import {
+  escapeId,
+  type Connection,
+  type ResultSetHeader,
+  type RowDataPacket,
+} from "mysql2/promise";
+import type {
+  TxOBBacklogStats,
+  TxOBEventSchemaMap,
+  TxOBSchemaOutput,
+  TxOBEvent,
+  TxOBProcessorClient,
+  TxOBProcessorClientOpts,
+  TxOBTransactionProcessorClient,
+  TxOBUnlockedEvent,
+} from "../processor.js";
+import {
+  createPublishableEvent,
+  type TxOBEventPublisher,
+  type TxOBPublishableEvent,
+} from "../publisher.js";
+import type { TxOBTelemetryTracer } from "../telemetry.js";
+import { getDate } from "../date.js";
+
+interface Querier {
+  query: Connection["query"];
+}
+
+// Columns backing optional event fields are only written when set so tables without them keep working
+const optionalEventColumns = [
+  "partition_key",
+  "priority",
+  "available_at",
+  "traceparent",
+  "tracestate",
+] as const;
+
+// mysql2 expands plain objects into `key = value` lists, so JSON columns are written as text
+const insertEvent = async (
+  querier: Querier,
+  table: string,
+  event: TxOBPublishableEvent<string>,
+): Promise<void> => {
+  const columns: string[] = [
+    "id",
+    "timestamp",
+    "type",
+    "data",
+    "correlation_id",
+    "handler_results",
+    "errors",
+  ];
+  const values: unknown[] = [
+    event.id,
+    event.timestamp,
+    event.type,
+    JSON.stringify(event.data),
+    event.correlation_id,
+    JSON.stringify(event.handler_results),
+    event.errors,
+  ];
+  for (const column of optionalEventColumns) {
+    if (event[column] !== undefined) {
+      columns.push(column);
+      values.push(event[column]);
+    }
+  }
+
+  await querier.query(
+    `INSERT INTO ${escapeId(table)} (${columns.join(", ")}) VALUES (${values.map(() => "?").join(", ")})`,
+    values,
+  );
+};
+
+// MariaDB stores JSON columns as LONGTEXT, which mysql2 returns unparsed
+const parseJsonColumns = <T extends { data: unknown; handler_results: unknown }>(
+  row: T,
+): T => ({
+  ...row,
+  data: typeof row.data === "string" ? JSON.parse(row.data) : row.data,
+  handler_results:
+    typeof row.handler_results === "string"
+      ? JSON.parse(row.handler_results)
+      : row.handler_results,
+});
+
+// The current time is bound from the application rather than `NOW()` so comparisons use the same
+// time zone conversion as the dates written by txob regardless of the session time zone
+const availableCondition =
+  "(backoff_until IS NULL OR backoff_until < ?) AND (available_at IS NULL OR available_at <= ?)";
+
+const readyToProcessCondition = `processed_at IS NULL AND ${availableCondition} AND errors < ?`;
+
+const createEventsToProcessQuery = (
+  table: string,
+  limit: number,
+  opts: TxOBProcessorClientOpts,
+): { sql: string; values: unknown[] } => {
+  const { ordering, prioritized, maxErrors } = opts;
+  const now = getDate();
+  const columns = ["id", "errors"];
+  if (ordering) columns.push(escapeId(ordering.key));
+  if (prioritized) columns.push("priority");
+  // NULL sorts first in MySQL, so events without a priority come last when descending
+  const orderBy = `${prioritized ? "priority DESC, " : ""}timestamp ASC`;
+
+  if (!ordering) {
+    return {
+      sql: `SELECT ${columns.join(", ")} FROM ${escapeId(table)} WHERE ${readyToProcessCondition} ORDER BY ${orderBy} LIMIT ${limit}`,
+      values: [now, now, maxErrors],
+    };
+  }
+
+  // Only the oldest unprocessed event per ordering key is handed out. Events without a key are unordered
+  // When blocking, the oldest event must itself be ready, otherwise it is skipped in favor of the oldest ready event
+  const blocking = (ordering.onFailure ?? "block") === "block";
+  const headsCondition = blocking
+    ? "processed_at IS NULL AND errors < ?"
+    : readyToProcessCondition;
+
+  return {
+    sql: `SELECT ${columns.join(", ")} FROM (SELECT ${columns.join(", ")}, timestamp, backoff_until, available_at, ROW_NUMBER() OVER (PARTITION BY COALESCE(${escapeId(ordering.key)}, id) ORDER BY timestamp ASC) AS position FROM ${escapeId(table)} WHERE ${headsCondition}) AS heads WHERE position = 1${blocking ? ` AND ${availableCondition}` : ""} ORDER BY ${orderBy} LIMIT ${limit}`,
+    values: blocking ? [maxErrors, now, now] : [now, now, maxErrors],
+  };
+};
+
+export type CreateProcessorClientOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  querier: Querier;
+  table?: string;
+  limit?: number;
+  eventSchemas: TEventSchemas;
+};
+
+/**
+ * Creates a MySQL (8.0+) or MariaDB (10.6+) processor client.
+ * Transactions are issued on `querier`, so it must be a single connection rather than a pool.
+ *
+ * @param opts - Options for the processor client
+ * @returns A TxOBProcessorClient typed against `eventSchemas`
+ */
+export const createProcessorClient = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateProcessorClientOpts<TEventSchemas>,
+): TxOBProcessorClient<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  }
+> => {
+  const { querier, table = "events", limit = 100, eventSchemas: _eventSchemas } =
+    opts;
+
+  const getEventsToProcess = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<
+    TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[]
+  > => {
+    const { sql, values } = createEventsToProcessQuery(table, limit, opts);
+    const [rows] = await querier.query<RowDataPacket[]>(sql, values);
+
+    return rows as TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[];
+  };
+
+  const getNextAvailableAt = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<Date | null> => {
+    const [rows] = await querier.query<RowDataPacket[]>(
+      `SELECT MIN(available_at) AS available_at FROM ${escapeId(table)} WHERE processed_at IS NULL AND available_at > ? AND errors < ?`,
+      [getDate(), opts.maxErrors],
+    );
+    return (rows[0]?.available_at as Date | null | undefined) ?? null;
+  };
+
+  const getBacklogStats = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<TxOBBacklogStats[]> => {
+    const pending = "processed_at IS NULL AND errors < ?";
+    // Pending and dead-lettered events are read separately so each side can use an index
+    const backlog = `SELECT type, timestamp, errors, processed_at FROM ${escapeId(table)} WHERE processed_at IS NULL UNION ALL SELECT type, timestamp, errors, processed_at FROM ${escapeId(table)} WHERE processed_at IS NOT NULL AND errors >= ?`;
+    const [rows] = await querier.query<RowDataPacket[]>(
+      `SELECT type, SUM(CASE WHEN ${pending} THEN 1 ELSE 0 END) AS pending, SUM(CASE WHEN ${pending} AND errors > 0 THEN 1 ELSE 0 END) AS retrying, SUM(CASE WHEN errors >= ? THEN 1 ELSE 0 END) AS dead_lettered, MIN(CASE WHEN ${pending} THEN timestamp END) AS oldest_pending_at FROM (${backlog}) AS backlog GROUP BY type`,
+      Array(5).fill(opts.maxErrors),
+    );
+
+    // SUM returns a DECIMAL, which mysql2 hands back as a string
+    return rows.map((row) => ({
+      type: row.type as string,
+      pending: Number(row.pending),
+      retrying: Number(row.retrying),
+      deadLettered: Number(row.dead_lettered),
+      oldestPendingAt: (row.oldest_pending_at as Date | null) ?? null,
+    }));
+  };
+
+  const transaction: TxOBProcessorClient<
+    keyof TEventSchemas & string,
+    {
+      [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+    }
+  >["transaction"] = async (
+    fn: (
+      txProcessorClient: TxOBTransactionProcessorClient<
+        keyof TEventSchemas & string,
+        {
+          [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+            TEventSchemas[TType]
+          >;
+        }
+      >,
+    ) => Promise<void>,
+  ): Promise<void> => {
+    try {
+      await querier.query("START TRANSACTION");
+      await fn({
+        getEventByIdForUpdateSkipLocked: async (
+          eventId: TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >["id"],
+          opts: TxOBProcessorClientOpts,
+        ): Promise<
+          | TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >
+          | null
+        > => {
+          const now = getDate();
+          const [rows] = await querier.query<RowDataPacket[]>(
+            `SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, available_at, processed_at${opts.traced ? ", traceparent, tracestate" : ""} FROM ${escapeId(table)} WHERE id = ? AND ${readyToProcessCondition} FOR UPDATE SKIP LOCKED`,
+            [eventId, now, now, opts.maxErrors],
+          );
+          if (rows.length === 0) {
+            return null;
+          }
+
+          return parseJsonColumns(
+            rows[0] as TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >,
+          );
+        },
+        updateEvent: async (
+          event: TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >,
+        ): Promise<void> => {
+          await querier.query(
+            `UPDATE ${escapeId(table)} SET handler_results = ?, errors = ?, processed_at = ?, backoff_until = ? WHERE id = ?`,
+            [
+              JSON.stringify(event.handler_results),
+              event.errors,
+              event.processed_at ?? null,
+              event.backoff_until ?? null,
+              event.id,
+            ],
+          );
+        },
+        createEvent: async (
+          event: Omit<
+            TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >,
+            "processed_at" | "backoff_until"
+          >,
+        ): Promise<void> => {
+          await insertEvent(querier, table, event);
+        },
+      });
+      await querier.query("COMMIT");
+    } catch (error) {
+      try {
+        await querier.query("ROLLBACK");
+      } catch (rollbackError) {
+        const message = error instanceof Error ? error.message : String(error);
+        const rollbackMessage =
+          rollbackError instanceof Error
+            ? rollbackError.message
+            : String(rollbackError);
+
+        throw new Error(
+          `Transaction failed: ${message} (rollback also failed: ${rollbackMessage})`,
+          { cause: error },
+        );
+      }
+
+      throw error;
+    }
+  };
+
+  return {
+    getEventsToProcess,
+    getNextAvailableAt,
+    getBacklogStats,
+    transaction,
+  };
+};
+
+export type CreateEventPublisherOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  table?: string;
+  eventSchemas: TEventSchemas;
+  // Stores the active trace context with published events, see `TxOBTelemetryTracer`
+  tracer?: TxOBTelemetryTracer;
+};
+
+/**
+ * Creates a publisher for writing outbox events with the application's own connection.
+ * Pass the connection that owns the current transaction so the event is committed or rolled back
+ * together with the business data.
+ *
+ * @param opts - Options for the event publisher
+ * @returns A TxOBEventPublisher typed against `eventSchemas`
+ */
+export const createEventPublisher = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateEventPublisherOpts<TEventSchemas>,
+): TxOBEventPublisher<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  },
+  { querier: Querier }
+> => {
+  const { table = "events", eventSchemas: _eventSchemas, tracer } = opts;
+
+  return {
+    publish: async (event, { querier }) => {
+      const publishableEvent = createPublishableEvent(event, { tracer });
+      await insertEvent(querier, table, publishableEvent);
+
+      return publishableEvent;
+    },
+  };
+};
+
+type CreateEventsTableOpts = {
+  querier: Querier;
+  table?: string;
+};
+
+/**
+ * Creates the events table with its processing index and the `errors` index the backlog stats use if it
+ * doesn't exist yet.
+ *
+ * @param opts - Options for the events table
+ * @returns Promise that resolves when the table exists
+ */
+export const createEventsTable = async (
+  opts: CreateEventsTableOpts,
+): Promise<void> => {
+  const { querier, table = "events" } = opts;
+
+  await querier.query<ResultSetHeader>(`
+    CREATE TABLE IF NOT EXISTS ${escapeId(table)} (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      timestamp DATETIME(3) NOT NULL,
+      type VARCHAR(255) NOT NULL,
+      data JSON,
+      correlation_id VARCHAR(255),
+      partition_key VARCHAR(255),
+      priority INT,
+      handler_results JSON,
+      errors INT NOT NULL DEFAULT 0,
+      backoff_until DATETIME(3),
+      available_at DATETIME(3),
+      processed_at DATETIME(3),
+      traceparent VARCHAR(55),
+      tracestate VARCHAR(512),
+      INDEX ${escapeId(`idx_${table}_processing`)} (processed_at, backoff_until, errors),
+      INDEX ${escapeId(`idx_${table}_correlation_id`)} (correlation_id),
+      INDEX ${escapeId(`idx_${table}_errors`)} (errors)
+    )
+  `);
+};
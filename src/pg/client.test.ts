@@ -1,5 +1,12 @@
 import { vi, describe, it, expect } from "vitest";
-import { createProcessorClient } from "./client.js";
+import {
+  createAdminClient,
+  createEventPublisher,
+  createProcessorClient,
+  createRetentionClient,
+  ensureIndexes,
+  migrate,
+} from "./client.js";
 
 const eventSchemas = {
   TestEvent: {
@@ -49,6 +56,253 @@ describe("getEventsToProcess", () => {
     );
     expect(result).toBe(rows);
   });
+
+  it("should skip leased events in lease mode", async () => {
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [] })),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    await client.getEventsToProcess({ maxErrors: 10, leased: true });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'SELECT id, errors FROM "events" WHERE processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < NOW()) AND (locked_until IS NULL OR locked_until < NOW()) AND errors < $1 ORDER BY timestamp ASC LIMIT 100',
+      [10],
+    );
+  });
+
+  it("should only select the oldest unprocessed event per ordering key", async () => {
+    const rows = [{ id: "1", errors: 0, partition_key: "order-1" }];
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows })),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    const result = await client.getEventsToProcess({
+      maxErrors: 5,
+      ordering: { key: "partition_key" },
+    });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'SELECT id, errors, "partition_key" FROM (SELECT DISTINCT ON (COALESCE("partition_key"::text, id::text)) id, errors, "partition_key", timestamp, backoff_until FROM "events" WHERE processed_at IS NULL AND errors < $1 ORDER BY COALESCE("partition_key"::text, id::text), timestamp ASC) AS heads WHERE (backoff_until IS NULL OR backoff_until < NOW()) ORDER BY timestamp ASC LIMIT 100',
+      [5],
+    );
+    expect(result).toBe(rows);
+  });
+
+  it("should select the oldest ready event per ordering key when failures do not block", async () => {
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [] })),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    await client.getEventsToProcess({
+      maxErrors: 5,
+      ordering: { key: "correlation_id", onFailure: "continue" },
+    });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'SELECT id, errors, "correlation_id" FROM (SELECT DISTINCT ON (COALESCE("correlation_id"::text, id::text)) id, errors, "correlation_id", timestamp, backoff_until FROM "events" WHERE processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < NOW()) AND errors < $1 ORDER BY COALESCE("correlation_id"::text, id::text), timestamp ASC) AS heads ORDER BY timestamp ASC LIMIT 100',
+      [5],
+    );
+  });
+
+  it("should select the highest priority events first when prioritized", async () => {
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [] })),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    await client.getEventsToProcess({ maxErrors: 5, prioritized: true });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'SELECT id, errors, priority FROM "events" WHERE processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < NOW()) AND errors < $1 ORDER BY priority DESC NULLS LAST, timestamp ASC LIMIT 100',
+      [5],
+    );
+  });
+
+  it("should skip events scheduled for later with scheduling", async () => {
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [] })),
+    } as any;
+    const client = createProcessorClient({
+      querier: pgClient,
+      scheduling: true,
+      eventSchemas,
+    });
+    await client.getEventsToProcess({
+      maxErrors: 5,
+      ordering: { key: "partition_key" },
+    });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'SELECT id, errors, "partition_key" FROM (SELECT DISTINCT ON (COALESCE("partition_key"::text, id::text)) id, errors, "partition_key", timestamp, backoff_until, available_at FROM "events" WHERE processed_at IS NULL AND errors < $1 ORDER BY COALESCE("partition_key"::text, id::text), timestamp ASC) AS heads WHERE (backoff_until IS NULL OR backoff_until < NOW()) AND (available_at IS NULL OR available_at <= NOW()) ORDER BY timestamp ASC LIMIT 100',
+      [5],
+    );
+  });
+});
+
+describe("getNextAvailableAt", () => {
+  it("should select the earliest upcoming available_at", async () => {
+    const availableAt = new Date("2024-06-01T12:00:00.000Z");
+    const pgClient = {
+      query: vi.fn<any>(() =>
+        Promise.resolve({ rows: [{ available_at: availableAt }] }),
+      ),
+    } as any;
+    const client = createProcessorClient({
+      querier: pgClient,
+      scheduling: true,
+      eventSchemas,
+    });
+    const result = await client.getNextAvailableAt?.({ maxErrors: 5 });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'SELECT MIN(available_at) AS available_at FROM "events" WHERE processed_at IS NULL AND available_at > NOW() AND errors < $1',
+      [5],
+    );
+    expect(result).toBe(availableAt);
+  });
+
+  it("should return null when no events are scheduled", async () => {
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [{ available_at: null }] })),
+    } as any;
+    const client = createProcessorClient({
+      querier: pgClient,
+      scheduling: true,
+      eventSchemas,
+    });
+    expect(await client.getNextAvailableAt?.({ maxErrors: 5 })).toBeNull();
+  });
+
+  it("should not be provided without scheduling", () => {
+    const client = createProcessorClient({
+      querier: { query: vi.fn() } as any,
+      eventSchemas,
+    });
+    expect(client.getNextAvailableAt).toBeUndefined();
+  });
+});
+
+describe("getBacklogStats", () => {
+  it("should count pending, retrying and dead-lettered events by type", async () => {
+    const oldestPendingAt = new Date("2024-06-01T12:00:00.000Z");
+    const pgClient = {
+      query: vi.fn<any>(() =>
+        Promise.resolve({
+          rows: [
+            {
+              type: "TestEvent",
+              pending: "3",
+              retrying: "1",
+              dead_lettered: "2",
+              oldest_pending_at: oldestPendingAt,
+            },
+          ],
+        }),
+      ),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    const result = await client.getBacklogStats?.({ maxErrors: 5 });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'SELECT type, COUNT(*) FILTER (WHERE processed_at IS NULL AND errors < $1) AS pending, COUNT(*) FILTER (WHERE processed_at IS NULL AND errors < $1 AND errors > 0) AS retrying, COUNT(*) FILTER (WHERE errors >= $1) AS dead_lettered, MIN(timestamp) FILTER (WHERE processed_at IS NULL AND errors < $1) AS oldest_pending_at FROM (SELECT type, timestamp, errors, processed_at FROM "events" WHERE processed_at IS NULL UNION ALL SELECT type, timestamp, errors, processed_at FROM "events" WHERE processed_at IS NOT NULL AND errors > 0 AND errors >= $1) AS backlog GROUP BY type',
+      [5],
+    );
+    expect(result).toEqual([
+      {
+        type: "TestEvent",
+        pending: 3,
+        retrying: 1,
+        deadLettered: 2,
+        oldestPendingAt,
+      },
+    ]);
+  });
+});
+
+describe("claimEventsToProcess", () => {
+  it("should claim ready events with a single locking update", async () => {
+    const claimedUntil = new Date("2024-06-01T12:01:00.000Z");
+    const rows = [{ id: "1", errors: 0, backoff_until: claimedUntil }];
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows })),
+    } as any;
+    const client = createProcessorClient({
+      querier: pgClient,
+      limit: 10,
+      eventSchemas,
+    });
+    const result = await client.claimEventsToProcess?.({
+      maxErrors: 5,
+      limit: 200,
+      claimedUntil,
+    });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'WITH claimed AS (UPDATE "events" SET backoff_until = $2 WHERE id IN (SELECT id FROM "events" WHERE processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < NOW()) AND errors < $1 ORDER BY timestamp ASC LIMIT 10 FOR UPDATE SKIP LOCKED) RETURNING id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at) SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at FROM claimed ORDER BY timestamp ASC',
+      [5, claimedUntil],
+    );
+    expect(result).toBe(rows);
+  });
+
+  it("should claim by priority when prioritized", async () => {
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [] })),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    await client.claimEventsToProcess?.({
+      maxErrors: 5,
+      prioritized: true,
+      limit: 3,
+      claimedUntil: new Date(),
+    });
+    const [sql] = pgClient.query.mock.calls[0];
+    expect(sql).toContain(
+      "ORDER BY priority DESC NULLS LAST, timestamp ASC LIMIT 3 FOR UPDATE SKIP LOCKED",
+    );
+    expect(sql).toContain("processed_at, priority) SELECT");
+  });
+  it("should claim the trace context columns when traced", async () => {
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [] })),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    await client.claimEventsToProcess?.({
+      maxErrors: 5,
+      traced: true,
+      limit: 3,
+      claimedUntil: new Date(),
+    });
+    const [sql] = pgClient.query.mock.calls[0];
+    expect(sql).toContain(
+      "processed_at, traceparent, tracestate) SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at, traceparent, tracestate FROM claimed",
+    );
+  });
+});
+
+describe("leaseEvent", () => {
+  it("should stamp the lease on an unleased ready event", async () => {
+    const lockedUntil = new Date();
+    const rows = [{ id: "1", errors: 0 }];
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows, rowCount: 1 })),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    const result = await client.leaseEvent?.("1", {
+      maxErrors: 5,
+      lockedBy: "worker-1",
+      lockedUntil,
+    });
+    expect(pgClient.query).toHaveBeenCalledWith(
+      'UPDATE "events" SET locked_by = $3, locked_until = $4 WHERE id = (SELECT id FROM "events" WHERE id = $2 AND processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < NOW()) AND errors < $1 AND (locked_until IS NULL OR locked_until < NOW()) FOR UPDATE SKIP LOCKED) RETURNING id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at',
+      [5, "1", "worker-1", lockedUntil],
+    );
+    expect(result).toBe(rows[0]);
+  });
+
+  it("should return null when the event is leased or not ready", async () => {
+    const pgClient = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [], rowCount: 0 })),
+    } as any;
+    const client = createProcessorClient({ querier: pgClient, eventSchemas });
+    expect(
+      await client.leaseEvent?.("1", {
+        maxErrors: 5,
+        lockedBy: "worker-1",
+        lockedUntil: new Date(),
+      }),
+    ).toBeNull();
+  });
 });
 
 describe("transaction", () => {
@@ -105,6 +359,27 @@ describe("transaction", () => {
       expect(result).toBe(1);
     });
 
+    it("should read and check available_at with scheduling", async () => {
+      const pgClient = {
+        query: vi.fn<any>(() => Promise.resolve({ rows: [], rowCount: 0 })),
+      } as any;
+      const client = createProcessorClient({
+        querier: pgClient,
+        scheduling: true,
+        eventSchemas,
+      });
+      await client.transaction(async (txClient) => {
+        await txClient.getEventByIdForUpdateSkipLocked("123", {
+          maxErrors: 6,
+        });
+      });
+
+      expect(pgClient.query).toHaveBeenCalledWith(
+        'SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at, available_at FROM "events" WHERE id = $1 AND processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < NOW()) AND (available_at IS NULL OR available_at <= NOW()) AND errors < $2 FOR UPDATE SKIP LOCKED',
+        ["123", 6],
+      );
+    });
+
     it("should return null on no rows", async () => {
       const rows = [];
       const pgClient = {
@@ -175,6 +450,87 @@ describe("transaction", () => {
     });
   });
 
+  describe("updateClaimedEvent", () => {
+    it("should only update the event while the claim is held", async () => {
+      const pgClient = {
+        query: vi.fn<any>((sql: string) =>
+          Promise.resolve({ rowCount: sql.startsWith("UPDATE") ? 0 : null }),
+        ),
+      } as any;
+      const claimedUntil = new Date();
+      const event = {
+        id: "1",
+        handler_results: {},
+        errors: 0,
+        processed_at: new Date(),
+        backoff_until: null,
+        timestamp: new Date(),
+        type: "TestEvent" as const,
+        data: {},
+        correlation_id: "abc123",
+      };
+      const client = createProcessorClient({ querier: pgClient, eventSchemas });
+      let held: boolean | undefined;
+      await client.transaction(async (txClient) => {
+        held = await txClient.updateClaimedEvent!(event, claimedUntil);
+      });
+
+      expect(held).toBe(false);
+      expect(pgClient.query).toHaveBeenCalledWith(
+        'UPDATE "events" SET handler_results = $1, errors = $2, processed_at = $3, backoff_until = $4 WHERE id = $5 AND backoff_until = $6',
+        [
+          event.handler_results,
+          event.errors,
+          event.processed_at,
+          event.backoff_until,
+          event.id,
+          claimedUntil,
+        ],
+      );
+    });
+  });
+
+  describe("updateLeasedEvent", () => {
+    it("should only update the event while the lease is held", async () => {
+      const pgClient = {
+        query: vi.fn<any>((sql: string) =>
+          Promise.resolve({ rowCount: sql.startsWith("UPDATE") ? 0 : null }),
+        ),
+      } as any;
+      const lease = { lockedBy: "worker-1", lockedUntil: new Date() };
+      const event = {
+        id: "1",
+        handler_results: {},
+        errors: 0,
+        processed_at: new Date(),
+        backoff_until: null,
+        timestamp: new Date(),
+        type: "TestEvent" as const,
+        data: {},
+        correlation_id: "abc123",
+      };
+      const client = createProcessorClient({ querier: pgClient, eventSchemas });
+      let held: boolean | undefined;
+      await client.transaction(async (txClient) => {
+        held = await txClient.updateLeasedEvent!(event, lease);
+      });
+
+      expect(held).toBe(false);
+      expect(pgClient.query).toHaveBeenCalledWith(
+        'UPDATE "events" SET handler_results = $1, errors = $2, processed_at = $3, backoff_until = $4, locked_by = NULL, locked_until = NULL WHERE id = $5 AND locked_by = $6 AND locked_until = $7',
+        [
+          event.handler_results,
+          event.errors,
+          event.processed_at,
+          event.backoff_until,
+          event.id,
+          lease.lockedBy,
+          lease.lockedUntil,
+        ],
+      );
+    });
+  });
+
   describe("createEvent", () => {
     it("should execute the correct query", async () => {
       const pgClient = {
@@ -296,3 +652,575 @@ describe("transaction", () => {
     });
   });
 });
+
+describe("verifySchema", () => {
+  const columns = [
+    ["id", "uuid"],
+    ["timestamp", "timestamp with time zone"],
+    ["type", "character varying"],
+    ["data", "jsonb"],
+    ["correlation_id", "uuid"],
+    ["handler_results", "jsonb"],
+    ["errors", "integer"],
+    ["backoff_until", "timestamp with time zone"],
+    ["processed_at", "timestamp with time zone"],
+  ].map(([column_name, data_type]) => ({ column_name, data_type }));
+  const indexes = [
+    { attname: "id", indisunique: true, indnkeyatts: 1 },
+    { attname: "processed_at", indisunique: false, indnkeyatts: 3 },
+  ];
+
+  it("should report a missing table", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [], rowCount: 0 })),
+    } as any;
+    const client = createProcessorClient({
+      querier,
+      table: "outbox",
+      eventSchemas,
+    });
+
+    expect(await client.verifySchema!({})).toEqual([
+      {
+        kind: "table",
+        name: "outbox",
+        message: 'table "outbox" does not exist: run migrate() from txob/pg',
+      },
+    ]);
+    expect(querier.query).toHaveBeenCalledOnce();
+    expect(querier.query).toHaveBeenCalledWith(
+      expect.stringContaining("FROM information_schema.columns"),
+      ["outbox"],
+    );
+  });
+
+  it("should report nothing for an up to date table", async () => {
+    const querier = {
+      query: vi
+        .fn<any>()
+        .mockResolvedValueOnce({ rows: columns, rowCount: columns.length })
+        .mockResolvedValueOnce({ rows: indexes, rowCount: indexes.length })
+        .mockResolvedValueOnce({ rows: [{}], rowCount: 1 }),
+    } as any;
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    expect(await client.verifySchema!({ wakeup: true })).toEqual([]);
+    expect(querier.query).toHaveBeenLastCalledWith(
+      expect.stringContaining("FROM pg_trigger"),
+      ['"events"', "txob_wakeup_notify_events"],
+    );
+  });
+
+  it("should report missing and mistyped columns, indexes and the wakeup trigger", async () => {
+    const driftedColumns = columns
+      .filter(({ column_name }) => column_name !== "backoff_until")
+      .map((column) =>
+        column.column_name === "processed_at"
+          ? { ...column, data_type: "timestamp without time zone" }
+          : column,
+      );
+    const querier = {
+      query: vi
+        .fn<any>()
+        .mockResolvedValueOnce({
+          rows: driftedColumns,
+          rowCount: driftedColumns.length,
+        })
+        .mockResolvedValueOnce({ rows: [indexes[0]], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 }),
+    } as any;
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    const issues = await client.verifySchema!({ leased: true, wakeup: true });
+
+    expect(issues.map(({ kind, name }) => [kind, name])).toEqual([
+      ["column", "backoff_until"],
+      ["column", "processed_at"],
+      ["column", "locked_by"],
+      ["column", "locked_until"],
+      ["index", "idx_events_processing"],
+      ["trigger", "txob_wakeup_notify_events"],
+    ]);
+    expect(issues[0].message).toBe(
+      'column "events.backoff_until" is missing: run migrate() from txob/pg or add it as TIMESTAMPTZ',
+    );
+    expect(issues[1].message).toBe(
+      'column "events.processed_at" is timestamp without time zone: alter it to TIMESTAMPTZ',
+    );
+  });
+
+  it("should require available_at with scheduling", async () => {
+    const querier = {
+      query: vi
+        .fn<any>()
+        .mockResolvedValueOnce({ rows: columns, rowCount: columns.length })
+        .mockResolvedValueOnce({ rows: indexes, rowCount: indexes.length }),
+    } as any;
+    const client = createProcessorClient({
+      querier,
+      scheduling: true,
+      eventSchemas,
+    });
+
+    expect(await client.verifySchema!({})).toEqual([
+      {
+        kind: "column",
+        name: "available_at",
+        message:
+          'column "events.available_at" is missing: run migrate() from txob/pg or add it as TIMESTAMPTZ',
+      },
+    ]);
+  });
+});
+
+describe("createEventPublisher", () => {
+  it("should insert the event with the given querier and default bookkeeping fields", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve()),
+    } as any;
+    const publisher = createEventPublisher({ table: "outbox", eventSchemas });
+
+    const event = await publisher.publish(
+      {
+        type: "TestEvent",
+        data: { thing1: "something" },
+        correlation_id: "abc123",
+      },
+      { querier },
+    );
+
+    expect(event).toEqual({
+      id: expect.any(String),
+      timestamp: expect.any(Date),
+      type: "TestEvent",
+      data: { thing1: "something" },
+      correlation_id: "abc123",
+      handler_results: {},
+      errors: 0,
+    });
+    expect(querier.query).toHaveBeenCalledOnce();
+    expect(querier.query).toHaveBeenCalledWith(
+      'INSERT INTO "outbox" (id, timestamp, type, data, correlation_id, handler_results, errors) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+      [
+        event.id,
+        event.timestamp,
+        "TestEvent",
+        { thing1: "something" },
+        "abc123",
+        {},
+        0,
+      ],
+    );
+  });
+
+  it("should write the partition key when provided", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve()),
+    } as any;
+    const publisher = createEventPublisher({ eventSchemas });
+
+    const event = await publisher.publish(
+      { type: "TestEvent", data: {}, partition_key: "order-1" },
+      { querier },
+    );
+
+    expect(querier.query).toHaveBeenCalledWith(
+      'INSERT INTO "events" (id, timestamp, type, data, correlation_id, handler_results, errors, partition_key) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
+      [
+        event.id,
+        event.timestamp,
+        "TestEvent",
+        {},
+        event.correlation_id,
+        {},
+        0,
+        "order-1",
+      ],
+    );
+  });
+
+  it("should write the available at date when scheduling an event", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve()),
+    } as any;
+    const publisher = createEventPublisher({ eventSchemas });
+    const availableAt = new Date("2024-06-01T13:00:00.000Z");
+
+    const event = await publisher.publish(
+      { type: "TestEvent", data: {}, available_at: availableAt },
+      { querier },
+    );
+
+    expect(event.available_at).toBe(availableAt);
+    expect(querier.query).toHaveBeenCalledWith(
+      'INSERT INTO "events" (id, timestamp, type, data, correlation_id, handler_results, errors, available_at) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
+      [
+        event.id,
+        event.timestamp,
+        "TestEvent",
+        {},
+        event.correlation_id,
+        {},
+        0,
+        availableAt,
+      ],
+    );
+  });
+
+  it("should write the trace context of the publisher tracer", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve()),
+    } as any;
+    const traceparent =
+      "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+    const publisher = createEventPublisher({
+      eventSchemas,
+      tracer: {
+        startSpan: vi.fn(),
+        getActiveTraceContext: () => ({ traceparent }),
+        startSpanFromTraceContext: vi.fn(),
+      },
+    });
+
+    const event = await publisher.publish(
+      { type: "TestEvent", data: {} },
+      { querier },
+    );
+
+    expect(querier.query).toHaveBeenCalledWith(
+      'INSERT INTO "events" (id, timestamp, type, data, correlation_id, handler_results, errors, traceparent) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
+      [
+        event.id,
+        event.timestamp,
+        "TestEvent",
+        {},
+        event.correlation_id,
+        {},
+        0,
+        traceparent,
+      ],
+    );
+  });
+
+  it("should propagate query errors", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.reject(new Error("insert failed"))),
+    } as any;
+    const publisher = createEventPublisher({ eventSchemas });
+
+    await expect(
+      publisher.publish({ type: "TestEvent", data: {} }, { querier }),
+    ).rejects.toThrow("insert failed");
+  });
+});
+
+describe("createAdminClient", () => {
+  it("should list dead-lettered events", async () => {
+    const rows = [{ id: "1" }];
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rows })),
+    } as any;
+    const admin = createAdminClient({ querier, eventSchemas });
+
+    const result = await admin.listFailedEvents({ maxErrors: 5, limit: 10 });
+
+    expect(querier.query).toHaveBeenCalledWith(
+      'SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at FROM "events" WHERE processed_at IS NOT NULL AND errors >= $1 ORDER BY processed_at DESC LIMIT $2 OFFSET $3',
+      [5, 10, 0],
+    );
+    expect(result).toBe(rows);
+  });
+
+  it("should list events filtered by status, type and creation date", async () => {
+    const rows = [{ id: "1" }];
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rows })),
+    } as any;
+    const admin = createAdminClient({ querier, eventSchemas });
+    const since = new Date("2024-06-01T12:00:00.000Z");
+
+    const result = await admin.listEvents({
+      maxErrors: 5,
+      status: "processed",
+      type: "TestEvent",
+      since,
+      order: "asc",
+    });
+
+    expect(querier.query).toHaveBeenCalledWith(
+      'SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at FROM "events" WHERE processed_at IS NOT NULL AND errors < $1 AND type = $2 AND timestamp >= $3 ORDER BY timestamp ASC, id ASC LIMIT $4 OFFSET $5',
+      [5, "TestEvent", since, 100, 0],
+    );
+    expect(result).toBe(rows);
+
+    await admin.listEvents({ maxErrors: 5, status: "pending", limit: 10 });
+    expect(querier.query).toHaveBeenLastCalledWith(
+      'SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at FROM "events" WHERE processed_at IS NULL ORDER BY timestamp DESC, id DESC LIMIT $1 OFFSET $2',
+      [10, 0],
+    );
+  });
+
+  it("should return null when getting an unknown event", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [] })),
+    } as any;
+    const admin = createAdminClient({ querier, eventSchemas });
+
+    expect(await admin.getEvent("1")).toBeNull();
+    expect(querier.query).toHaveBeenCalledWith(
+      'SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at FROM "events" WHERE id = $1',
+      ["1"],
+    );
+  });
+
+  it("should make a processed event pending again in a transaction", async () => {
+    const processedAt = new Date();
+    const querier = {
+      query: vi.fn<any>((text: string) =>
+        Promise.resolve(
+          text.startsWith("SELECT")
+            ? {
+                rowCount: 1,
+                rows: [
+                  {
+                    handler_results: {
+                      sendEmail: { processed_at: processedAt },
+                      chargeCard: { unprocessable_at: processedAt },
+                    },
+                  },
+                ],
+              }
+            : {},
+        ),
+      ),
+    } as any;
+    const admin = createAdminClient({ querier, eventSchemas });
+
+    expect(await admin.retryEvent("1")).toBe(true);
+
+    expect(querier.query).toHaveBeenCalledTimes(4);
+    expect(querier.query).toHaveBeenNthCalledWith(1, "BEGIN");
+    expect(querier.query).toHaveBeenNthCalledWith(
+      2,
+      'SELECT handler_results FROM "events" WHERE id = $1 AND processed_at IS NOT NULL FOR UPDATE',
+      ["1"],
+    );
+    expect(querier.query).toHaveBeenNthCalledWith(
+      3,
+      'UPDATE "events" SET handler_results = $1, errors = 0, processed_at = NULL, backoff_until = NULL WHERE id = $2',
+      [{ sendEmail: { processed_at: processedAt }, chargeCard: {} }, "1"],
+    );
+    expect(querier.query).toHaveBeenNthCalledWith(4, "COMMIT");
+  });
+
+  it("should re-run a succeeded handler when retrying it", async () => {
+    const processedAt = new Date();
+    const querier = {
+      query: vi.fn<any>((text: string) =>
+        Promise.resolve(
+          text.startsWith("SELECT")
+            ? {
+                rowCount: 1,
+                rows: [
+                  {
+                    handler_results: {
+                      sendEmail: { processed_at: processedAt },
+                    },
+                  },
+                ],
+              }
+            : {},
+        ),
+      ),
+    } as any;
+    const admin = createAdminClient({ querier, eventSchemas });
+
+    expect(await admin.retryHandler("1", "sendEmail")).toBe(true);
+    expect(querier.query).toHaveBeenNthCalledWith(
+      3,
+      expect.stringContaining("UPDATE"),
+      [{ sendEmail: {} }, "1"],
+    );
+  });
+
+  it("should not retry events that are not processed", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rowCount: 0, rows: [] })),
+    } as any;
+    const admin = createAdminClient({ querier, eventSchemas });
+
+    expect(await admin.retryEvent("1")).toBe(false);
+    expect(querier.query).toHaveBeenCalledTimes(3);
+    expect(querier.query).toHaveBeenLastCalledWith("COMMIT");
+  });
+
+  it("should delete a processed event when discarding it", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rowCount: 1 })),
+    } as any;
+    const admin = createAdminClient({ querier, eventSchemas });
+
+    expect(await admin.discardEvent("1")).toBe(true);
+    expect(querier.query).toHaveBeenCalledWith(
+      'DELETE FROM "events" WHERE id = $1 AND processed_at IS NOT NULL',
+      ["1"],
+    );
+  });
+});
+
+describe("createRetentionClient", () => {
+  it("should delete a batch of processed events", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rowCount: 2 })),
+    } as any;
+    const client = createRetentionClient({ querier });
+    const processedBefore = new Date();
+
+    const purged = await client.purgeEvents({
+      processedBefore,
+      maxErrors: 5,
+      deadLettered: false,
+      limit: 100,
+    });
+
+    expect(purged).toBe(2);
+    expect(querier.query).toHaveBeenCalledWith(
+      'DELETE FROM "events" WHERE id IN (SELECT id FROM "events" WHERE processed_at IS NOT NULL AND processed_at < $1 AND errors < $2 ORDER BY processed_at ASC LIMIT $3 FOR UPDATE SKIP LOCKED)',
+      [processedBefore, 5, 100],
+    );
+  });
+
+  it("should move dead-lettered events into the archive table", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rowCount: 1 })),
+    } as any;
+    const client = createRetentionClient({
+      querier,
+      archiveTable: "events_archive",
+    });
+    const processedBefore = new Date();
+
+    await client.purgeEvents({
+      processedBefore,
+      maxErrors: 5,
+      deadLettered: true,
+      limit: 100,
+    });
+
+    expect(querier.query).toHaveBeenCalledWith(
+      'WITH purged AS (DELETE FROM "events" WHERE id IN (SELECT id FROM "events" WHERE processed_at IS NOT NULL AND processed_at < $1 AND errors >= $2 ORDER BY processed_at ASC LIMIT $3 FOR UPDATE SKIP LOCKED) RETURNING "id", "timestamp", "type", "data", "correlation_id", "handler_results", "errors", "backoff_until", "processed_at") INSERT INTO "events_archive" ("id", "timestamp", "type", "data", "correlation_id", "handler_results", "errors", "backoff_until", "processed_at") SELECT "id", "timestamp", "type", "data", "correlation_id", "handler_results", "errors", "backoff_until", "processed_at" FROM purged',
+      [processedBefore, 5, 100],
+    );
+  });
+});
+
+describe("migrate", () => {
+  const createQuerier = (appliedVersions: number[]) => ({
+    query: vi.fn<any>((sql: string) =>
+      Promise.resolve(
+        sql.startsWith("SELECT version")
+          ? { rows: appliedVersions.map((version) => ({ version })) }
+          : { rows: [], rowCount: sql.includes("pg_index") ? 1 : 0 },
+      ),
+    ),
+  });
+
+  it("should apply pending migrations in a locked transaction", async () => {
+    const querier = createQuerier([1, 2, 3, 4]);
+
+    expect(await migrate({ querier: querier as any })).toEqual([5, 6]);
+
+    const statements = querier.query.mock.calls.map(([sql]) => sql);
+    expect(statements.slice(0, 2)).toEqual([
+      "BEGIN",
+      "SELECT pg_advisory_xact_lock(hashtext($1))",
+    ]);
+    expect(querier.query).toHaveBeenCalledWith(
+      'SELECT version FROM "txob_migrations" WHERE table_name = $1',
+      ["events"],
+    );
+    expect(statements).toContain(
+      'ALTER TABLE "events" ADD COLUMN IF NOT EXISTS locked_by TEXT, ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ',
+    );
+    expect(statements).not.toContain(
+      'ALTER TABLE "events" ADD COLUMN IF NOT EXISTS priority INTEGER',
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      'INSERT INTO "txob_migrations" (table_name, version) VALUES ($1, $2)',
+      ["events", 6],
+    );
+    expect(statements.indexOf("COMMIT")).toBeLessThan(
+      statements.findIndex((sql) => sql.startsWith("CREATE INDEX")),
+    );
+  });
+
+  it("should only ensure indexes when up to date", async () => {
+    const querier = createQuerier([1, 2, 3, 4, 5, 6]);
+
+    expect(
+      await migrate({ querier: querier as any, table: "outbox" }),
+    ).toEqual([]);
+    expect(querier.query).not.toHaveBeenCalledWith(
+      expect.stringContaining("ALTER TABLE"),
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      'CREATE INDEX IF NOT EXISTS "idx_outbox_processing" ON "outbox" (processed_at, backoff_until, errors) WHERE processed_at IS NULL',
+    );
+  });
+
+  it("should roll back when a migration fails", async () => {
+    const querier = {
+      query: vi.fn<any>((sql: string) =>
+        sql.startsWith("CREATE TABLE IF NOT EXISTS \"events\"")
+          ? Promise.reject(new Error("permission denied"))
+          : Promise.resolve({ rows: [] }),
+      ),
+    };
+
+    await expect(migrate({ querier: querier as any })).rejects.toThrow(
+      "permission denied",
+    );
+    expect(querier.query).toHaveBeenCalledWith("ROLLBACK");
+    expect(querier.query).not.toHaveBeenCalledWith(
+      expect.stringContaining("INSERT INTO"),
+      expect.anything(),
+    );
+  });
+});
+
+describe("ensureIndexes", () => {
+  it("should create the unique id index unless id is already unique", async () => {
+    const querier = {
+      query: vi.fn<any>(() => Promise.resolve({ rows: [], rowCount: 0 })),
+    } as any;
+
+    await ensureIndexes({ querier });
+
+    expect(querier.query).toHaveBeenCalledWith(
+      expect.stringContaining("FROM pg_index"),
+      ['"events"'],
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      'CREATE UNIQUE INDEX IF NOT EXISTS "idx_events_id" ON "events" (id)',
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      'CREATE INDEX IF NOT EXISTS "idx_events_correlation_id" ON "events" (correlation_id)',
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      'CREATE INDEX CONCURRENTLY IF NOT EXISTS "idx_events_processed_at" ON "events" (processed_at) WHERE processed_at IS NOT NULL',
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      'CREATE INDEX CONCURRENTLY IF NOT EXISTS "idx_events_dead_lettered" ON "events" (errors) WHERE processed_at IS NOT NULL AND errors > 0',
+    );
+    expect(querier.query).toHaveBeenCalledWith(
+      'CREATE INDEX CONCURRENTLY IF NOT EXISTS "idx_events_timestamp" ON "events" (timestamp, id)',
+    );
+
+    querier.query.mockResolvedValue({ rows: [{}], rowCount: 1 });
+    querier.query.mockClear();
+    await ensureIndexes({ querier });
+    expect(querier.query).not.toHaveBeenCalledWith(
+      expect.stringContaining("CREATE UNIQUE INDEX"),
+    );
+  });
+});
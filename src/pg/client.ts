@@ -5,20 +5,208 @@ import {
   type ClientConfig,
 } from "pg";
 import type {
+  TxOBBacklogStats,
+  TxOBClaimEventsOpts,
+  TxOBEventByType,
   TxOBEventSchemaMap,
   TxOBSchemaOutput,
   TxOBEvent,
+  TxOBLease,
+  TxOBOrderingOpts,
   TxOBProcessorClient,
   TxOBProcessorClientOpts,
+  TxOBSchemaDriftIssue,
   TxOBTransactionProcessorClient,
+  TxOBUnlockedEvent,
+  TxOBVerifySchemaOpts,
   WakeupEmitter,
 } from "../processor.js";
+import {
+  createPublishableEvent,
+  type TxOBEventPublisher,
+  type TxOBPublishableEvent,
+} from "../publisher.js";
+import type { TxOBTelemetryTracer } from "../telemetry.js";
+import { resetHandlerResults, type TxOBAdminClient } from "../admin.js";
+import type { TxOBRetentionClient } from "../retention.js";
 import { EventEmitter } from "node:events";
 
 interface Querier {
   query: Client["query"];
 }
 
+// Columns backing optional event fields are only written when set so tables without them can still be published to
+const optionalEventColumns = [
+  "partition_key",
+  "priority",
+  "available_at",
+  "traceparent",
+  "tracestate",
+] as const;
+
+const insertEvent = async (
+  querier: Querier,
+  table: string,
+  event: TxOBPublishableEvent<string>,
+): Promise<void> => {
+  const columns: string[] = [
+    "id",
+    "timestamp",
+    "type",
+    "data",
+    "correlation_id",
+    "handler_results",
+    "errors",
+  ];
+  const values: unknown[] = [
+    event.id,
+    event.timestamp,
+    event.type,
+    event.data,
+    event.correlation_id,
+    event.handler_results,
+    event.errors,
+  ];
+  for (const column of optionalEventColumns) {
+    if (event[column] !== undefined) {
+      columns.push(column);
+      values.push(event[column]);
+    }
+  }
+
+  await querier.query(
+    `INSERT INTO ${escapeIdentifier(table)} (${columns.join(", ")}) VALUES (${values.map((_, i) => `$${i + 1}`).join(", ")})`,
+    values,
+  );
+};
+
+// Columns every events table has
+const eventColumns =
+  "id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at";
+
+// Whether the processor client reads `available_at`, see `CreateProcessorClientOpts.scheduling`
+type TxOBSchedulingOpts = { scheduling?: boolean };
+
+const getEventColumns = (
+  opts: TxOBSchedulingOpts & { traced?: boolean },
+): string =>
+  `${eventColumns}${opts.scheduling ? ", available_at" : ""}${opts.traced ? ", traceparent, tracestate" : ""}`;
+
+const withTransaction = async <T>(
+  querier: Querier,
+  fn: () => Promise<T>,
+): Promise<T> => {
+  try {
+    await querier.query("BEGIN");
+    const result = await fn();
+    await querier.query("COMMIT");
+    return result;
+  } catch (error) {
+    try {
+      await querier.query("ROLLBACK");
+    } catch (rollbackError) {
+      const message = error instanceof Error ? error.message : String(error);
+      const rollbackMessage =
+        rollbackError instanceof Error
+          ? rollbackError.message
+          : String(rollbackError);
+
+      throw new Error(
+        `Transaction failed: ${message} (rollback also failed: ${rollbackMessage})`,
+        { cause: error },
+      );
+    }
+
+    throw error;
+  }
+};
+
+const getAvailableCondition = (opts: TxOBSchedulingOpts): string =>
+  `(backoff_until IS NULL OR backoff_until < NOW())${opts.scheduling ? " AND (available_at IS NULL OR available_at <= NOW())" : ""}`;
+
+const getReadyToProcessCondition = (opts: TxOBSchedulingOpts): string =>
+  `processed_at IS NULL AND ${getAvailableCondition(opts)} AND errors < $1`;
+
+// Only checked in lease mode so tables without the lease columns keep working
+const unleasedCondition = "(locked_until IS NULL OR locked_until < NOW())";
+
+const createEventsToProcessQuery = (
+  table: string,
+  limit: number,
+  opts: TxOBProcessorClientOpts & TxOBSchedulingOpts,
+): string => {
+  const { ordering, prioritized, leased, scheduling } = opts;
+  const availableCondition = getAvailableCondition(opts);
+  const available = leased
+    ? `${availableCondition} AND ${unleasedCondition}`
+    : availableCondition;
+  const ready = `processed_at IS NULL AND ${available} AND errors < $1`;
+  const columns = ["id", "errors"];
+  if (ordering) columns.push(escapeIdentifier(ordering.key));
+  if (prioritized) columns.push("priority");
+  const orderBy = `${prioritized ? "priority DESC NULLS LAST, " : ""}timestamp ASC`;
+
+  if (!ordering) {
+    return `SELECT ${columns.join(", ")} FROM ${escapeIdentifier(table)} WHERE ${ready} ORDER BY ${orderBy} LIMIT ${limit}`;
+  }
+
+  // Only the oldest unprocessed event per ordering key is handed out. Events without a key are unordered
+  // When blocking, the oldest event must itself be ready, otherwise it is skipped in favor of the oldest ready event
+  const key = escapeIdentifier(ordering.key);
+  const partition = `COALESCE(${key}::text, id::text)`;
+  const blocking = (ordering.onFailure ?? "block") === "block";
+  const headsCondition = blocking
+    ? "processed_at IS NULL AND errors < $1"
+    : ready;
+
+  return `SELECT ${columns.join(", ")} FROM (SELECT DISTINCT ON (${partition}) ${columns.join(", ")}, timestamp, backoff_until${scheduling ? ", available_at" : ""}${leased ? ", locked_until" : ""} FROM ${escapeIdentifier(table)} WHERE ${headsCondition} ORDER BY ${partition}, timestamp ASC) AS heads${blocking ? ` WHERE ${available}` : ""} ORDER BY ${orderBy} LIMIT ${limit}`;
+};
+
+const createClaimEventsQuery = (
+  table: string,
+  limit: number,
+  opts: TxOBClaimEventsOpts & TxOBSchedulingOpts,
+): string => {
+  const orderBy = `${opts.prioritized ? "priority DESC NULLS LAST, " : ""}timestamp ASC`;
+  const claimColumns = `${getEventColumns(opts)}${opts.prioritized ? ", priority" : ""}`;
+
+  // Rows locked by concurrent claims or transactions are skipped rather than waited on
+  return `WITH claimed AS (UPDATE ${escapeIdentifier(table)} SET backoff_until = $2 WHERE id IN (SELECT id FROM ${escapeIdentifier(table)} WHERE ${getReadyToProcessCondition(opts)} ORDER BY ${orderBy} LIMIT ${Math.min(limit, opts.limit)} FOR UPDATE SKIP LOCKED) RETURNING ${claimColumns}) SELECT ${claimColumns} FROM claimed ORDER BY ${orderBy}`;
+};
+
+const timestamptzColumn = {
+  dataTypes: ["timestamp with time zone"],
+  ddl: "TIMESTAMPTZ",
+};
+const textColumn = { dataTypes: ["text", "character varying"], ddl: "TEXT" };
+// pg returns bigint columns as strings
+const integerColumn = { dataTypes: ["integer", "smallint"], ddl: "INTEGER" };
+const jsonbColumn = { dataTypes: ["jsonb", "json"], ddl: "JSONB" };
+const uuidColumn = {
+  dataTypes: ["uuid", "text", "character varying"],
+  ddl: "UUID",
+};
+
+// Accepted `information_schema.columns.data_type` values of the columns the processor reads and the type to add them with
+const eventColumnTypes: Record<string, { dataTypes: string[]; ddl: string }> = {
+  id: uuidColumn,
+  timestamp: timestamptzColumn,
+  type: { ...textColumn, ddl: "VARCHAR(255)" },
+  data: jsonbColumn,
+  correlation_id: uuidColumn,
+  handler_results: jsonbColumn,
+  errors: integerColumn,
+  backoff_until: timestamptzColumn,
+  available_at: timestamptzColumn,
+  processed_at: timestamptzColumn,
+  partition_key: textColumn,
+  priority: integerColumn,
+  locked_by: textColumn,
+  locked_until: timestamptzColumn,
+  traceparent: textColumn,
+  tracestate: textColumn,
+};
+
 // TODO: leverage the signal option that comes in on options for `getEventsToProcess` and `getEventByIdForUpdateSkipLocked`
 // to cancel queries if/when supported by `pg` https://github.com/brianc/node-postgres/issues/2774
 
@@ -28,6 +216,9 @@ export type CreateProcessorClientOpts<
   querier: Querier;
   table?: string;
   limit?: number;
+  // Reads `available_at` so that scheduled events aren't processed before it, which requires the column
+  // (see "Upgrading" in the README). Without it `available_at` is ignored like `priority` without `priorityTiers`
+  scheduling?: boolean;
   eventSchemas: TEventSchemas;
 };
 
@@ -41,36 +232,137 @@ export const createProcessorClient = <
     [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
   }
 > => {
-  const { querier, table = "events", limit = 100, eventSchemas: _eventSchemas } =
-    opts;
+  const {
+    querier,
+    table = "events",
+    limit = 100,
+    scheduling = false,
+    eventSchemas: _eventSchemas,
+  } = opts;
   const _table = table;
   const _limit = limit;
   const getEventsToProcess = async (
     opts: TxOBProcessorClientOpts,
   ): Promise<
-    Pick<
-      TxOBEvent<
-        keyof TEventSchemas & string,
-        TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
-      >,
-      "id" | "errors"
+    TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
     >[]
   > => {
     const events = await querier.query<
-      Pick<
-        TxOBEvent<
-          keyof TEventSchemas & string,
-          TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
-        >,
-        "id" | "errors"
+      TxOBUnlockedEvent<
+        keyof TEventSchemas & string,
+        {
+          [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+            TEventSchemas[TType]
+          >;
+        }
       >
-    >(
-      `SELECT id, errors FROM ${escapeIdentifier(_table)} WHERE processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < NOW()) AND errors < $1 ORDER BY timestamp ASC LIMIT ${_limit}`,
+    >(createEventsToProcessQuery(_table, _limit, { ...opts, scheduling }), [
+      opts.maxErrors,
+    ]);
+    return events.rows;
+  };
+
+  const getNextAvailableAt = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<Date | null> => {
+    const result = await querier.query<{ available_at: Date | null }>(
+      `SELECT MIN(available_at) AS available_at FROM ${escapeIdentifier(_table)} WHERE processed_at IS NULL AND available_at > NOW() AND errors < $1`,
       [opts.maxErrors],
     );
+    return result.rows[0]?.available_at ?? null;
+  };
+
+  const getBacklogStats = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<TxOBBacklogStats[]> => {
+    const pending = "processed_at IS NULL AND errors < $1";
+    // Pending and dead-lettered events are read separately so each side can use its partial index, see `ensureIndexes`
+    const backlog = `SELECT type, timestamp, errors, processed_at FROM ${escapeIdentifier(_table)} WHERE processed_at IS NULL UNION ALL SELECT type, timestamp, errors, processed_at FROM ${escapeIdentifier(_table)} WHERE processed_at IS NOT NULL AND errors > 0 AND errors >= $1`;
+    // COUNT returns a bigint, which pg hands back as a string
+    const result = await querier.query<{
+      type: string;
+      pending: string;
+      retrying: string;
+      dead_lettered: string;
+      oldest_pending_at: Date | null;
+    }>(
+      `SELECT type, COUNT(*) FILTER (WHERE ${pending}) AS pending, COUNT(*) FILTER (WHERE ${pending} AND errors > 0) AS retrying, COUNT(*) FILTER (WHERE errors >= $1) AS dead_lettered, MIN(timestamp) FILTER (WHERE ${pending}) AS oldest_pending_at FROM (${backlog}) AS backlog GROUP BY type`,
+      [opts.maxErrors],
+    );
+
+    return result.rows.map((row) => ({
+      type: row.type,
+      pending: Number(row.pending),
+      retrying: Number(row.retrying),
+      deadLettered: Number(row.dead_lettered),
+      oldestPendingAt: row.oldest_pending_at,
+    }));
+  };
+
+  const claimEventsToProcess = async (
+    opts: TxOBClaimEventsOpts,
+  ): Promise<
+    TxOBEventByType<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[]
+  > => {
+    const events = await querier.query<
+      TxOBEventByType<
+        keyof TEventSchemas & string,
+        {
+          [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+            TEventSchemas[TType]
+          >;
+        }
+      >
+    >(createClaimEventsQuery(_table, _limit, { ...opts, scheduling }), [
+      opts.maxErrors,
+      opts.claimedUntil,
+    ]);
     return events.rows;
   };
 
+  // A single statement commits on its own, so the lease is stamped without holding a transaction open
+  const leaseEvent = async (
+    eventId: TxOBEvent<
+      keyof TEventSchemas & string,
+      TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+    >["id"],
+    opts: TxOBProcessorClientOpts & TxOBLease,
+  ): Promise<
+    | TxOBEvent<
+        keyof TEventSchemas & string,
+        TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+      >
+    | null
+  > => {
+    const event = await querier.query<
+      TxOBEvent<
+        keyof TEventSchemas & string,
+        TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+      >
+    >(
+      `UPDATE ${escapeIdentifier(_table)} SET locked_by = $3, locked_until = $4 WHERE id = (SELECT id FROM ${escapeIdentifier(_table)} WHERE id = $2 AND ${getReadyToProcessCondition({ scheduling })} AND ${unleasedCondition} FOR UPDATE SKIP LOCKED) RETURNING ${getEventColumns({ ...opts, scheduling })}`,
+      [opts.maxErrors, eventId, opts.lockedBy, opts.lockedUntil],
+    );
+    if (event.rowCount === 0) {
+      return null;
+    }
+
+    return event.rows[0];
+  };
+
   const transaction: TxOBProcessorClient<
     keyof TEventSchemas & string,
     {
@@ -88,9 +380,8 @@ export const createProcessorClient = <
       >,
     ) => Promise<void>,
   ): Promise<void> => {
-    try {
-      await querier.query("BEGIN");
-      await fn({
+    await withTransaction(querier, () =>
+      fn({
         getEventByIdForUpdateSkipLocked: async (
           eventId: TxOBEvent<
             keyof TEventSchemas & string,
@@ -110,7 +401,7 @@ export const createProcessorClient = <
               TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
             >
           >(
-            `SELECT id, timestamp, type, data, correlation_id, handler_results, errors, backoff_until, processed_at FROM ${escapeIdentifier(_table)} WHERE id = $1 AND processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < NOW()) AND errors < $2 FOR UPDATE SKIP LOCKED`,
+            `SELECT ${getEventColumns({ ...opts, scheduling })} FROM ${escapeIdentifier(_table)} WHERE id = $1 AND processed_at IS NULL AND ${getAvailableCondition({ scheduling })} AND errors < $2 FOR UPDATE SKIP LOCKED`,
             [eventId, opts.maxErrors],
           );
           if (event.rowCount === 0) {
@@ -136,6 +427,49 @@ export const createProcessorClient = <
             ],
           );
         },
+        updateClaimedEvent: async (
+          event: TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >,
+          claimedUntil: Date,
+        ): Promise<boolean> => {
+          const result = await querier.query(
+            `UPDATE ${escapeIdentifier(_table)} SET handler_results = $1, errors = $2, processed_at = $3, backoff_until = $4 WHERE id = $5 AND backoff_until = $6`,
+            [
+              event.handler_results,
+              event.errors,
+              event.processed_at,
+              event.backoff_until,
+              event.id,
+              claimedUntil,
+            ],
+          );
+
+          return result.rowCount === 1;
+        },
+        updateLeasedEvent: async (
+          event: TxOBEvent<
+            keyof TEventSchemas & string,
+            TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+          >,
+          lease: TxOBLease,
+        ): Promise<boolean> => {
+          const result = await querier.query(
+            `UPDATE ${escapeIdentifier(_table)} SET handler_results = $1, errors = $2, processed_at = $3, backoff_until = $4, locked_by = NULL, locked_until = NULL WHERE id = $5 AND locked_by = $6 AND locked_until = $7`,
+            [
+              event.handler_results,
+              event.errors,
+              event.processed_at,
+              event.backoff_until,
+              event.id,
+              lease.lockedBy,
+              lease.lockedUntil,
+            ],
+          );
+
+          return result.rowCount === 1;
+        },
         createEvent: async (
           event: Omit<
             TxOBEvent<
@@ -145,47 +479,476 @@ export const createProcessorClient = <
             "processed_at" | "backoff_until"
           >,
         ): Promise<void> => {
-          await querier.query(
-            `INSERT INTO ${escapeIdentifier(_table)} (id, timestamp, type, data, correlation_id, handler_results, errors) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-            [
-              event.id,
-              event.timestamp,
-              event.type,
-              event.data,
-              event.correlation_id,
-              event.handler_results,
-              event.errors,
-            ],
-          );
+          await insertEvent(querier, _table, event);
         },
-      });
-      await querier.query("COMMIT");
-    } catch (error) {
-      try {
-        await querier.query("ROLLBACK");
-      } catch (rollbackError) {
-        const message = error instanceof Error ? error.message : String(error);
-        const rollbackMessage =
-          rollbackError instanceof Error
-            ? rollbackError.message
-            : String(rollbackError);
-
-        throw new Error(
-          `Transaction failed: ${message} (rollback also failed: ${rollbackMessage})`,
-          { cause: error },
-        );
+      }),
+    );
+  };
+
+  const verifySchema = async (
+    opts: TxOBVerifySchemaOpts,
+  ): Promise<TxOBSchemaDriftIssue[]> => {
+    const columns = await querier.query<{
+      column_name: string;
+      data_type: string;
+    }>(
+      "SELECT column_name, data_type FROM information_schema.columns WHERE table_name = $1 AND table_schema = ANY(current_schemas(false))",
+      [_table],
+    );
+    if (columns.rowCount === 0) {
+      return [
+        {
+          kind: "table",
+          name: _table,
+          message: `table "${_table}" does not exist: run migrate() from txob/pg`,
+        },
+      ];
+    }
+
+    const issues: TxOBSchemaDriftIssue[] = [];
+    const requiredColumns = eventColumns.split(", ");
+    if (scheduling) requiredColumns.push("available_at");
+    if (opts.ordering) requiredColumns.push(opts.ordering.key);
+    if (opts.prioritized) requiredColumns.push("priority");
+    if (opts.leased) requiredColumns.push("locked_by", "locked_until");
+    if (opts.traced) requiredColumns.push("traceparent", "tracestate");
+    for (const name of new Set(requiredColumns)) {
+      const { dataTypes, ddl } = eventColumnTypes[name];
+      const column = columns.rows.find((row) => row.column_name === name);
+      if (!column) {
+        issues.push({
+          kind: "column",
+          name,
+          message: `column "${_table}.${name}" is missing: run migrate() from txob/pg or add it as ${ddl}`,
+        });
+      } else if (!dataTypes.includes(column.data_type)) {
+        issues.push({
+          kind: "column",
+          name,
+          message: `column "${_table}.${name}" is ${column.data_type}: alter it to ${ddl}`,
+        });
       }
+    }
 
-      throw error;
+    // Leading column of each index on the table
+    const indexes = await querier.query<{
+      attname: string;
+      indisunique: boolean;
+      indnkeyatts: number;
+    }>(
+      "SELECT pg_attribute.attname, pg_index.indisunique, pg_index.indnkeyatts FROM pg_index JOIN pg_attribute ON pg_attribute.attrelid = pg_index.indrelid AND pg_attribute.attnum = pg_index.indkey[0] WHERE pg_index.indrelid = $1::regclass",
+      [escapeIdentifier(_table)],
+    );
+    if (!indexes.rows.some((index) => index.attname === "processed_at")) {
+      issues.push({
+        kind: "index",
+        name: `idx_${_table}_processing`,
+        message: `no index on "${_table}" starts with processed_at, so every poll scans the table: run ensureIndexes() from txob/pg`,
+      });
+    }
+    if (
+      !indexes.rows.some(
+        (index) =>
+          index.attname === "id" &&
+          index.indisunique &&
+          index.indnkeyatts === 1,
+      )
+    ) {
+      issues.push({
+        kind: "index",
+        name: `idx_${_table}_id`,
+        message: `"${_table}.id" has no unique index, so events can be published twice: run ensureIndexes() from txob/pg`,
+      });
     }
+
+    if (opts.wakeup) {
+      const functionName = `txob_wakeup_notify_${_table}`;
+      const trigger = await querier.query(
+        "SELECT 1 FROM pg_trigger JOIN pg_proc ON pg_proc.oid = pg_trigger.tgfoid WHERE pg_trigger.tgrelid = $1::regclass AND pg_proc.proname = $2 AND pg_trigger.tgenabled <> 'D'",
+        [escapeIdentifier(_table), functionName],
+      );
+      if (trigger.rowCount === 0) {
+        issues.push({
+          kind: "trigger",
+          name: functionName,
+          message: `no enabled trigger on "${_table}" calls ${functionName}, so inserts send no wakeup signal: run createWakeupTrigger() from txob/pg`,
+        });
+      }
+    }
+
+    return issues;
   };
 
   return {
     getEventsToProcess,
+    ...(scheduling && { getNextAvailableAt }),
+    getBacklogStats,
+    claimEventsToProcess,
+    leaseEvent,
+    verifySchema,
     transaction,
   };
 };
 
+export type CreateEventPublisherOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  table?: string;
+  eventSchemas: TEventSchemas;
+  // Stores the active trace context with published events, see `TxOBTelemetryTracer`
+  tracer?: TxOBTelemetryTracer;
+};
+
+/**
+ * Creates a publisher for writing outbox events with the application's own querier.
+ * Pass the querier that owns the current transaction (e.g. a checked out `pg.PoolClient` after `BEGIN`)
+ * so the event is committed or rolled back together with the business data.
+ *
+ * @param opts - Options for the event publisher
+ * @returns A TxOBEventPublisher typed against `eventSchemas`
+ */
+export const createEventPublisher = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateEventPublisherOpts<TEventSchemas>,
+): TxOBEventPublisher<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  },
+  { querier: Querier }
+> => {
+  const { table = "events", eventSchemas: _eventSchemas, tracer } = opts;
+
+  return {
+    publish: async (event, { querier }) => {
+      const publishableEvent = createPublishableEvent(event, { tracer });
+      await insertEvent(querier, table, publishableEvent);
+
+      return publishableEvent;
+    },
+  };
+};
+
+export type CreateAdminClientOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  querier: Querier;
+  table?: string;
+  eventSchemas: TEventSchemas;
+};
+
+/**
+ * Creates an admin client for inspecting and replaying dead-lettered events.
+ * Retries run in a transaction, so `querier` must be a dedicated client rather than a pool.
+ *
+ * @param opts - Options for the admin client
+ * @returns A TxOBAdminClient typed against `eventSchemas`
+ */
+export const createAdminClient = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateAdminClientOpts<TEventSchemas>,
+): TxOBAdminClient<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  }
+> => {
+  const { querier, table = "events", eventSchemas: _eventSchemas } = opts;
+  type AdminEvent = TxOBEventByType<
+    keyof TEventSchemas & string,
+    {
+      [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+        TEventSchemas[TType]
+      >;
+    }
+  >;
+
+  const retry = (eventId: string, handlerNames?: string[]) =>
+    withTransaction(querier, async () => {
+      const event = await querier.query<Pick<AdminEvent, "handler_results">>(
+        `SELECT handler_results FROM ${escapeIdentifier(table)} WHERE id = $1 AND processed_at IS NOT NULL FOR UPDATE`,
+        [eventId],
+      );
+      if (event.rowCount === 0) {
+        return false;
+      }
+
+      await querier.query(
+        `UPDATE ${escapeIdentifier(table)} SET handler_results = $1, errors = 0, processed_at = NULL, backoff_until = NULL WHERE id = $2`,
+        [
+          resetHandlerResults(event.rows[0].handler_results, handlerNames),
+          eventId,
+        ],
+      );
+      return true;
+    });
+
+  return {
+    listFailedEvents: async ({ maxErrors, limit = 100, offset = 0 }) => {
+      const events = await querier.query<AdminEvent>(
+        `SELECT ${eventColumns} FROM ${escapeIdentifier(table)} WHERE processed_at IS NOT NULL AND errors >= $1 ORDER BY processed_at DESC LIMIT $2 OFFSET $3`,
+        [maxErrors, limit, offset],
+      );
+      return events.rows;
+    },
+    listEvents: async ({
+      maxErrors,
+      status,
+      type,
+      since,
+      order = "desc",
+      limit = 100,
+      offset = 0,
+    }) => {
+      const conditions: string[] = [];
+      const values: unknown[] = [];
+      if (status === "pending") {
+        conditions.push("processed_at IS NULL");
+      } else if (status) {
+        values.push(maxErrors);
+        conditions.push(
+          `processed_at IS NOT NULL AND errors ${status === "failed" ? ">=" : "<"} $${values.length}`,
+        );
+      }
+      if (type !== undefined) {
+        values.push(type);
+        conditions.push(`type = $${values.length}`);
+      }
+      if (since) {
+        values.push(since);
+        conditions.push(`timestamp >= $${values.length}`);
+      }
+      values.push(limit, offset);
+      const direction = order === "asc" ? "ASC" : "DESC";
+
+      const events = await querier.query<AdminEvent>(
+        `SELECT ${eventColumns} FROM ${escapeIdentifier(table)}${conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : ""} ORDER BY timestamp ${direction}, id ${direction} LIMIT $${values.length - 1} OFFSET $${values.length}`,
+        values,
+      );
+      return events.rows;
+    },
+    getEvent: async (eventId) => {
+      const event = await querier.query<AdminEvent>(
+        `SELECT ${eventColumns} FROM ${escapeIdentifier(table)} WHERE id = $1`,
+        [eventId],
+      );
+      return event.rows[0] ?? null;
+    },
+    retryEvent: (eventId) => retry(eventId),
+    retryHandler: (eventId, handlerName) => retry(eventId, [handlerName]),
+    discardEvent: async (eventId) => {
+      const result = await querier.query(
+        `DELETE FROM ${escapeIdentifier(table)} WHERE id = $1 AND processed_at IS NOT NULL`,
+        [eventId],
+      );
+      return (result.rowCount ?? 0) > 0;
+    },
+  };
+};
+
+export type CreateRetentionClientOpts = {
+  querier: Querier;
+  table?: string;
+  // Purged events are moved into this table instead of being deleted
+  archiveTable?: string;
+  // Columns copied into `archiveTable`, which must have them all (default: the columns every events table has)
+  // Add the columns of optional features, e.g. `partition_key` or `priority`, to archive them as well
+  archiveColumns?: string[];
+};
+
+/**
+ * Creates a retention client for `EventRetentionJob`. Each purge runs as a single statement
+ * so archived events are never lost or duplicated.
+ *
+ * @param opts - Options for the retention client
+ * @returns A TxOBRetentionClient
+ */
+export const createRetentionClient = (
+  opts: CreateRetentionClientOpts,
+): TxOBRetentionClient => {
+  const {
+    querier,
+    table = "events",
+    archiveTable,
+    archiveColumns = eventColumns.split(", "),
+  } = opts;
+  const archivedColumns = archiveColumns.map(escapeIdentifier).join(", ");
+
+  return {
+    purgeEvents: async ({ processedBefore, maxErrors, deadLettered, limit }) => {
+      const purgeable = `SELECT id FROM ${escapeIdentifier(table)} WHERE processed_at IS NOT NULL AND processed_at < $1 AND errors ${deadLettered ? ">=" : "<"} $2 ORDER BY processed_at ASC LIMIT $3 FOR UPDATE SKIP LOCKED`;
+      const deleteEvents = `DELETE FROM ${escapeIdentifier(table)} WHERE id IN (${purgeable})`;
+      const result = await querier.query(
+        archiveTable
+          ? `WITH purged AS (${deleteEvents} RETURNING ${archivedColumns}) INSERT INTO ${escapeIdentifier(archiveTable)} (${archivedColumns}) SELECT ${archivedColumns} FROM purged`
+          : deleteEvents,
+        [processedBefore, maxErrors, limit],
+      );
+
+      return result.rowCount ?? 0;
+    },
+  };
+};
+
+type Migration = {
+  version: number;
+  statements: (table: string) => string[];
+};
+
+// Append only: applied versions are recorded per table and never run again
+const migrations: Migration[] = [
+  {
+    version: 1,
+    statements: (table) => [
+      `CREATE TABLE IF NOT EXISTS ${escapeIdentifier(table)} (id UUID PRIMARY KEY, timestamp TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP, type VARCHAR(255) NOT NULL, data JSONB, correlation_id UUID, handler_results JSONB DEFAULT '{}', errors INTEGER DEFAULT 0, backoff_until TIMESTAMPTZ, processed_at TIMESTAMPTZ)`,
+    ],
+  },
+  // Ordered processing
+  {
+    version: 2,
+    statements: (table) => [
+      `ALTER TABLE ${escapeIdentifier(table)} ADD COLUMN IF NOT EXISTS partition_key TEXT`,
+    ],
+  },
+  // Priority tiers
+  {
+    version: 3,
+    statements: (table) => [
+      `ALTER TABLE ${escapeIdentifier(table)} ADD COLUMN IF NOT EXISTS priority INTEGER`,
+    ],
+  },
+  // Scheduled events
+  {
+    version: 4,
+    statements: (table) => [
+      `ALTER TABLE ${escapeIdentifier(table)} ADD COLUMN IF NOT EXISTS available_at TIMESTAMPTZ`,
+    ],
+  },
+  // Lease mode
+  {
+    version: 5,
+    statements: (table) => [
+      `ALTER TABLE ${escapeIdentifier(table)} ADD COLUMN IF NOT EXISTS locked_by TEXT, ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ`,
+    ],
+  },
+  // Trace context propagation
+  {
+    version: 6,
+    statements: (table) => [
+      `ALTER TABLE ${escapeIdentifier(table)} ADD COLUMN IF NOT EXISTS traceparent TEXT, ADD COLUMN IF NOT EXISTS tracestate TEXT`,
+    ],
+  },
+];
+
+export type MigrateOpts = {
+  querier: Querier;
+  table?: string;
+  // Records the applied migration versions of every events table (default: "txob_migrations")
+  migrationsTable?: string;
+};
+
+/**
+ * Creates the events table, or adds the columns newer features need to an existing one, then
+ * ensures its indexes. Migrations are versioned per table and applied once, in a transaction
+ * holding an advisory lock so that processes starting together don't race, so `querier` must be
+ * a dedicated client rather than a pool. Tables created from the README DDL are upgraded in place.
+ *
+ * @param opts - Options for the migration
+ * @returns The versions applied by this call, empty when the table was up to date
+ */
+export const migrate = async (opts: MigrateOpts): Promise<number[]> => {
+  const {
+    querier,
+    table = "events",
+    migrationsTable = "txob_migrations",
+  } = opts;
+
+  const applied = await withTransaction(querier, async () => {
+    await querier.query("SELECT pg_advisory_xact_lock(hashtext($1))", [
+      migrationsTable,
+    ]);
+    await querier.query(
+      `CREATE TABLE IF NOT EXISTS ${escapeIdentifier(migrationsTable)} (table_name TEXT NOT NULL, version INTEGER NOT NULL, applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), PRIMARY KEY (table_name, version))`,
+    );
+    const appliedVersions = await querier.query<{ version: number }>(
+      `SELECT version FROM ${escapeIdentifier(migrationsTable)} WHERE table_name = $1`,
+      [table],
+    );
+    const pending = migrations.filter(
+      ({ version }) =>
+        !appliedVersions.rows.some((row) => row.version === version),
+    );
+    for (const migration of pending) {
+      for (const statement of migration.statements(table)) {
+        await querier.query(statement);
+      }
+      await querier.query(
+        `INSERT INTO ${escapeIdentifier(migrationsTable)} (table_name, version) VALUES ($1, $2)`,
+        [table, migration.version],
+      );
+    }
+
+    return pending.map(({ version }) => version);
+  });
+  await ensureIndexes({ querier, table });
+
+  return applied;
+};
+
+export type EnsureIndexesOpts = {
+  querier: Querier;
+  table?: string;
+};
+
+/**
+ * Creates the indexes the processor, admin and retention queries rely on if they don't exist yet: the
+ * partial processing index over unprocessed events, a unique index on `id` unless `id` is already
+ * unique (e.g. the primary key), an index on `correlation_id`, a partial index on `processed_at`
+ * over processed events, a partial index on `errors` over processed events that failed and an index on
+ * `(timestamp, id)` for listing events in creation order. Called by `migrate`.
+ *
+ * The indexes over processed events and the creation order index are built with `CREATE INDEX CONCURRENTLY` so that publishers aren't blocked
+ * while they're added to a large existing table, which means `querier` must not be inside a transaction. An
+ * interrupted concurrent build leaves an INVALID index behind that `IF NOT EXISTS` skips, drop it with
+ * `DROP INDEX CONCURRENTLY` before calling again.
+ *
+ * @param opts - Options for the indexes
+ * @returns Promise that resolves when the indexes exist
+ */
+export const ensureIndexes = async (opts: EnsureIndexesOpts): Promise<void> => {
+  const { querier, table = "events" } = opts;
+
+  await querier.query(
+    `CREATE INDEX IF NOT EXISTS ${escapeIdentifier(`idx_${table}_processing`)} ON ${escapeIdentifier(table)} (processed_at, backoff_until, errors) WHERE processed_at IS NULL`,
+  );
+  const uniqueId = await querier.query(
+    `SELECT 1 FROM pg_index JOIN pg_attribute ON pg_attribute.attrelid = pg_index.indrelid AND pg_attribute.attnum = pg_index.indkey[0] WHERE pg_index.indrelid = $1::regclass AND pg_index.indisunique AND pg_index.indnkeyatts = 1 AND pg_attribute.attname = 'id'`,
+    [escapeIdentifier(table)],
+  );
+  if (uniqueId.rowCount === 0) {
+    await querier.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS ${escapeIdentifier(`idx_${table}_id`)} ON ${escapeIdentifier(table)} (id)`,
+    );
+  }
+  await querier.query(
+    `CREATE INDEX IF NOT EXISTS ${escapeIdentifier(`idx_${table}_correlation_id`)} ON ${escapeIdentifier(table)} (correlation_id)`,
+  );
+  // Retention purges the oldest processed events first
+  await querier.query(
+    `CREATE INDEX CONCURRENTLY IF NOT EXISTS ${escapeIdentifier(`idx_${table}_processed_at`)} ON ${escapeIdentifier(table)} (processed_at) WHERE processed_at IS NOT NULL`,
+  );
+  // Backlog stats count dead-lettered events without scanning every processed event
+  await querier.query(
+    `CREATE INDEX CONCURRENTLY IF NOT EXISTS ${escapeIdentifier(`idx_${table}_dead_lettered`)} ON ${escapeIdentifier(table)} (errors) WHERE processed_at IS NOT NULL AND errors > 0`,
+  );
+  // The admin client lists events and `txob tail` follows new ones in creation order
+  await querier.query(
+    `CREATE INDEX CONCURRENTLY IF NOT EXISTS ${escapeIdentifier(`idx_${table}_timestamp`)} ON ${escapeIdentifier(table)} (timestamp, id)`,
+  );
+};
+
 type CreateWakeupEmitterOpts =
   | {
       listenClientConfig: ClientConfig;
@@ -228,6 +991,7 @@ export const createWakeupEmitter = async (
   // Note: Postgres channel names are case-insensitive and converted to lowercase
   const listenChannel = channel.toLowerCase();
   await listenClient.query(`LISTEN ${escapeIdentifier(listenChannel)}`);
+  let connected = true;
 
   // Handle notifications
   listenClient.on("notification", (msg) => {
@@ -239,11 +1003,13 @@ export const createWakeupEmitter = async (
 
   // Handle connection errors
   listenClient.on("error", (err) => {
+    connected = false;
     emitter.emit("error", err);
   });
 
   // Handle disconnection
   listenClient.on("end", () => {
+    connected = false;
     emitter.emit("error", new Error("Postgres LISTEN connection ended"));
   });
 
@@ -271,6 +1037,10 @@ export const createWakeupEmitter = async (
       await listenClient.query(`UNLISTEN ${escapeIdentifier(listenChannel)}`);
       await listenClient.end();
     },
+    isConnected: () => connected,
+    onError: (listener: (error: unknown) => void) => {
+      emitter.on("error", listener);
+    },
   } as WakeupEmitter & { close: () => Promise<void> };
 };
 
@@ -153,7 +153,9 @@ describe("createWakeupEmitter", () => {
     (emitter as unknown as EventEmitter).on("error", (e: unknown) =>
       errs.push(e),
     );
+    expect(emitter.isConnected?.()).toBe(true);
     client.emit("end");
+    expect(emitter.isConnected?.()).toBe(false);
     expect(errs[0]).toBeInstanceOf(Error);
     expect((errs[0] as Error).message).toBe(
       "Postgres LISTEN connection ended",
@@ -7,15 +7,22 @@ import {
   TxOBEvent,
   defaultBackoff,
 } from "./processor.js";
-import { TxOBError, ErrorUnprocessableEventHandler } from "./error.js";
+import {
+  TxOBError,
+  ErrorUnprocessableEventHandler,
+  ErrorEventHandlerTimeout,
+  ErrorSchemaDrift,
+} from "./error.js";
 import { sleep } from "./sleep.js";
 import {
   TxOBTelemetryAttributeKey,
   TxOBTelemetryEventOutcome,
   TxOBTelemetryHandlerOutcome,
   TxOBTelemetryMetricName,
+  TxOBTelemetryPollOutcome,
   TxOBTelemetrySpanName,
 } from "./telemetry.js";
+import { TxOBCircuitBreakerState } from "./circuit-breaker.js";
 
 const mockTxClient = {
   getEventByIdForUpdateSkipLocked: vi.fn(),
@@ -120,6 +127,146 @@ describe("EventProcessor - schema typing", () => {
   });
 });
 
+describe("EventProcessor - schema validation", () => {
+  const eventSchemas = {
+    evtType1: {
+      "~standard": {
+        version: 1 as const,
+        vendor: "test",
+        validate: (value: unknown) => {
+          const data = value as Record<string, unknown>;
+          if (typeof data.count !== "string") {
+            return {
+              issues: [
+                { message: "expected a numeric string", path: [{ key: "count" }] },
+              ],
+            };
+          }
+          return { value: { count: Number(data.count) } };
+        },
+      },
+    },
+  };
+
+  it("passes the parsed schema output to handlers", async () => {
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.resolve()),
+      },
+    };
+    const evt1: TxOBEvent<"evtType1"> = {
+      type: "evtType1",
+      id: "1",
+      timestamp: now,
+      data: { count: "3" },
+      correlation_id: "abc123",
+      handler_results: {},
+      errors: 0,
+    };
+    let callCount = 0;
+    mockClient.getEventsToProcess.mockImplementation(() => {
+      callCount++;
+      return Promise.resolve(callCount === 1 ? [evt1] : []);
+    });
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation(() =>
+      Promise.resolve(evt1),
+    );
+    mockTxClient.updateEvent.mockImplementation(() => Promise.resolve());
+
+    const processor = createEventProcessor({
+      client: mockClient,
+      handlerMap,
+      eventSchemas,
+      pollingIntervalMs: 10,
+    });
+    processor.start();
+    await sleep(50);
+    await processor.stop();
+
+    expect(handlerMap.evtType1.handler1).toHaveBeenCalledOnce();
+    expect(handlerMap.evtType1.handler1).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "1", data: { count: 3 } }),
+      { signal: expect.any(AbortSignal) },
+    );
+    expect(mockTxClient.updateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { count: "3" },
+        processed_at: now,
+      }),
+    );
+  });
+
+  it("marks the event unprocessable and records issues when validation fails", async () => {
+    const onEventMaxErrorsReached = vi.fn();
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.resolve()),
+        handler2: vi.fn(() => Promise.resolve()),
+      },
+    };
+    const evt1: TxOBEvent<"evtType1"> = {
+      type: "evtType1",
+      id: "1",
+      timestamp: now,
+      data: { count: 3 },
+      correlation_id: "abc123",
+      handler_results: {
+        handler2: { processed_at: now },
+      },
+      errors: 0,
+    };
+    let callCount = 0;
+    mockClient.getEventsToProcess.mockImplementation(() => {
+      callCount++;
+      return Promise.resolve(callCount === 1 ? [evt1] : []);
+    });
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation(() =>
+      Promise.resolve(evt1),
+    );
+    mockTxClient.updateEvent.mockImplementation(() => Promise.resolve());
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      eventSchemas,
+      maxErrors: 5,
+      pollingIntervalMs: 10,
+      onEventMaxErrorsReached,
+    });
+    processor.start();
+    await sleep(50);
+    await processor.stop();
+
+    expect(handlerMap.evtType1.handler1).not.toHaveBeenCalled();
+    expect(handlerMap.evtType1.handler2).not.toHaveBeenCalled();
+    expect(onEventMaxErrorsReached).toHaveBeenCalledOnce();
+    expect(mockTxClient.updateEvent).toHaveBeenCalledOnce();
+    expect(mockTxClient.updateEvent).toHaveBeenCalledWith({
+      ...evt1,
+      errors: 5,
+      backoff_until: null,
+      processed_at: now,
+      handler_results: {
+        handler1: {
+          unprocessable_at: now,
+          errors: [
+            {
+              error: {
+                message: "event data failed schema validation",
+                issues: [
+                  { message: "expected a numeric string", path: ["count"] },
+                ],
+              },
+              timestamp: now,
+            },
+          ],
+        },
+        handler2: { processed_at: now },
+      },
+    });
+  });
+});
+
 describe("EventProcessor - processEvents", () => {
   it("does nothing when no events to process", async () => {
     const opts = {
@@ -1099,190 +1246,1480 @@ describe("EventProcessor - processEvents", () => {
   });
 });
 
-describe("defaultBackoff", () => {
-  it("should calculate a backoff", () => {
-    const backoff = defaultBackoff({
-      attempt: 3,
-      error: new Error("test"),
-      errors: [],
-      event: {
-        id: "event-1",
-        type: "evtType1",
-        timestamp: now,
-        data: {},
-        correlation_id: "abc123",
-        handler_results: {},
-        errors: 3,
-      },
-      maxErrors: 5,
-    });
-    const actual = backoff.getTime();
-    const expected = Date.now() + 1000 * 2 ** 3;
-    const diff = Math.abs(actual - expected);
-
-    expect(diff).lessThanOrEqual(1);
-  });
-
-  it("should cap backoff at maxDelayMs for large error counts", () => {
-    const maxDelayMs = 1000 * 60; // 60 seconds
-    const backoff = defaultBackoff({
-      attempt: 20,
-      error: new Error("test"),
-      errors: [],
-      event: {
-        id: "event-1",
-        type: "evtType1",
-        timestamp: now,
-        data: {},
-        correlation_id: "abc123",
-        handler_results: {},
-        errors: 20,
-      },
-      maxErrors: 30,
-    }); // Large error count that would exceed max
-    const actual = backoff.getTime();
-    const expected = Date.now() + maxDelayMs;
-    const diff = Math.abs(actual - expected);
-
-    expect(diff).lessThanOrEqual(1);
-  });
-});
-
-describe("EventProcessor - lifecycle", () => {
-  it("should shutdown gracefully", async () => {
-    let calls = 0;
-    let aborted = false;
+describe("EventProcessor - ordering", () => {
+  it("passes ordering options to the client and never runs two events with the same key concurrently", async () => {
+    const running = new Set<string>();
+    const overlaps: string[] = [];
     const handlerMap = {
       evtType1: {
-        handler1: vi.fn((event, { signal }) => {
-          calls++;
-          return new Promise<void>((r) => {
-            signal.addEventListener("abort", () => {
-              aborted = true;
-              r();
-            });
-          });
+        handler1: vi.fn(async (event: TxOBEvent<"evtType1">) => {
+          const key = event.partition_key ?? event.id;
+          if (running.has(key)) overlaps.push(key);
+          running.add(key);
+          await sleep(20);
+          running.delete(key);
         }),
       },
     };
-    const evt1: TxOBEvent<keyof typeof handlerMap> = {
+    const createEvent = (
+      id: string,
+      partitionKey: string,
+    ): TxOBEvent<"evtType1"> => ({
       type: "evtType1",
-      id: "1",
+      id,
       timestamp: now,
       data: {},
-      correlation_id: "abc123",
+      correlation_id: `corr-${id}`,
+      partition_key: partitionKey,
       handler_results: {},
       errors: 0,
-    };
-    let callCount = 0;
-    mockClient.getEventsToProcess.mockImplementation((opts) => {
-      // Check if signal is aborted - reject immediately to be caught by polling loop
-      if (opts?.signal?.aborted) {
-        return Promise.reject(new DOMException("Aborted", "AbortError"));
-      }
-      callCount++;
-      return Promise.resolve(callCount === 1 ? [evt1] : []);
     });
-    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation(() =>
-      Promise.resolve(evt1),
+    const events = [
+      createEvent("1", "order-1"),
+      createEvent("2", "order-1"),
+      createEvent("3", "order-2"),
+    ];
+    const processed = new Set<string>();
+    mockClient.getEventsToProcess.mockImplementation(() =>
+      Promise.resolve(
+        events
+          .filter((event) => !processed.has(event.id))
+          .map(({ id, errors, partition_key }) => ({
+            id,
+            errors,
+            partition_key,
+          })),
+      ),
     );
-    mockTxClient.updateEvent.mockImplementation(() => Promise.resolve());
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation((id) =>
+      Promise.resolve(events.find((event) => event.id === id) ?? null),
+    );
+    mockTxClient.updateEvent.mockImplementation((event) => {
+      processed.add(event.id);
+      return Promise.resolve();
+    });
 
+    const ordering = { key: "partition_key" as const };
     const processor = new EventProcessor({
       client: mockClient,
       handlerMap,
-      pollingIntervalMs: 10,
+      ordering,
+      pollingIntervalMs: 5,
     });
     processor.start();
-    await sleep(20); // Let it start processing
+    await sleep(100);
     await processor.stop();
-    // The stop() method now waits for the polling loop to complete,
-    // ensuring any pending rejections are caught by the polling loop's catch block
 
-    expect(calls).toBe(1);
-    expect(aborted).toBe(true);
+    expect(mockClient.getEventsToProcess).toHaveBeenCalledWith(
+      expect.objectContaining({ ordering }),
+    );
+    expect(handlerMap.evtType1.handler1).toHaveBeenCalledTimes(3);
+    expect(overlaps).toEqual([]);
+    expect(
+      handlerMap.evtType1.handler1.mock.calls.map(([event]) => event.id),
+    ).toEqual(["1", "3", "2"]);
   });
-  it("should respect shutdown timeout and throw", async () => {
+});
+
+describe("EventProcessor - priority", () => {
+  it("should throw when priority tiers reserve all of maxEventConcurrency", () => {
+    expect(
+      () =>
+        new EventProcessor({
+          client: mockClient,
+          handlerMap: {},
+          maxEventConcurrency: 2,
+          priorityTiers: [{ minPriority: 10, reservedConcurrency: 2 }],
+        }),
+    ).toThrow(
+      "priority tiers reserve 2 of 2 maxEventConcurrency, leaving none for lower priority events",
+    );
+  });
+
+  it("should keep a reserved slot for high priority events while low priority events saturate", async () => {
+    const started: string[] = [];
     const handlerMap = {
       evtType1: {
-        handler1: vi.fn(() => sleep(100)),
+        handler1: vi.fn(async (event: TxOBEvent<"evtType1">) => {
+          started.push(event.id);
+          await sleep(20);
+        }),
       },
     };
-    const evt1: TxOBEvent<keyof typeof handlerMap> = {
+    const createEvent = (
+      id: string,
+      priority: number,
+    ): TxOBEvent<"evtType1"> => ({
       type: "evtType1",
-      id: "1",
+      id,
       timestamp: now,
       data: {},
-      correlation_id: "abc123",
+      correlation_id: `corr-${id}`,
+      priority,
       handler_results: {},
       errors: 0,
-    };
-    let callCount = 0;
-    mockClient.getEventsToProcess.mockImplementation(() => {
-      callCount++;
-      return Promise.resolve(callCount === 1 ? [evt1] : []);
     });
-    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation(() =>
-      Promise.resolve(evt1),
+    const events = [
+      createEvent("low-1", 0),
+      createEvent("low-2", 0),
+      createEvent("low-3", 0),
+      createEvent("high-1", 10),
+    ];
+    const processed = new Set<string>();
+    mockClient.getEventsToProcess.mockImplementation(() =>
+      Promise.resolve(
+        events
+          .filter((event) => !processed.has(event.id))
+          .map(({ id, errors, priority }) => ({ id, errors, priority })),
+      ),
     );
-    mockTxClient.updateEvent.mockImplementation(() => Promise.resolve());
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation((id) =>
+      Promise.resolve(events.find((event) => event.id === id) ?? null),
+    );
+    mockTxClient.updateEvent.mockImplementation((event) => {
+      processed.add(event.id);
+      return Promise.resolve();
+    });
 
     const processor = new EventProcessor({
       client: mockClient,
       handlerMap,
-      pollingIntervalMs: 10,
+      maxEventConcurrency: 2,
+      priorityTiers: [{ minPriority: 10, reservedConcurrency: 1 }],
+      pollingIntervalMs: 5,
     });
     processor.start();
-
-    const start = Date.now();
-    try {
-      await processor.stop({ timeoutMs: 10 });
-    } catch (error: any) {
-      expect(error.message).toBe("shutdown timeout 10ms elapsed");
-    }
-    const diff = Date.now() - start;
-    expect(diff).toBeLessThan(50);
-  });
-  it("should warn when stopping a processor that is not started", async () => {
-    const logger = {
-      debug: vi.fn(),
-      info: vi.fn(),
-      warn: vi.fn(),
-      error: vi.fn(),
-    };
-    const processor = new EventProcessor({
-      client: mockClient,
-      handlerMap: {},
-      pollingIntervalMs: 10,
-      logger,
-    });
-
+    await sleep(120);
     await processor.stop();
 
-    expect(logger.warn).toHaveBeenCalledWith(
-      "cannot stop processor from 'stopped'",
+    expect(mockClient.getEventsToProcess).toHaveBeenCalledWith(
+      expect.objectContaining({ prioritized: true }),
     );
+    expect(started).toEqual(["low-1", "high-1", "low-2", "low-3"]);
   });
-  it("should handle shutdown when processor completes before stop is called", async () => {
-    let resolve: (() => void) | null = null;
-    const promise = new Promise<void>((r) => {
-      resolve = r;
-    });
 
+  it("should keep the reserved concurrency of every tier free from lower tiers together", async () => {
+    const running = new Set<string>();
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
     const handlerMap = {
       evtType1: {
-        handler1: vi.fn(() => promise),
+        handler1: vi.fn(async (event: TxOBEvent<"evtType1">) => {
+          running.add(event.id);
+          await released;
+        }),
       },
     };
-    const evt1: TxOBEvent<keyof typeof handlerMap> = {
+    const createEvent = (
+      id: string,
+      priority: number,
+    ): TxOBEvent<"evtType1"> => ({
       type: "evtType1",
-      id: "1",
+      id,
       timestamp: now,
       data: {},
-      correlation_id: "abc123",
+      correlation_id: `corr-${id}`,
+      priority,
       handler_results: {},
       errors: 0,
-    };
+    });
+    const events = [
+      ...[1, 2, 3, 4, 5].map((n) => createEvent(`low-${n}`, 0)),
+      ...[1, 2, 3, 4, 5].map((n) => createEvent(`mid-${n}`, 5)),
+    ];
+    mockClient.getEventsToProcess.mockImplementation(() =>
+      Promise.resolve(
+        events.map(({ id, errors, priority }) => ({ id, errors, priority })),
+      ),
+    );
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation((id) =>
+      Promise.resolve(events.find((event) => event.id === id) ?? null),
+    );
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      maxEventConcurrency: 10,
+      priorityTiers: [
+        { minPriority: 10, reservedConcurrency: 2 },
+        { minPriority: 5, reservedConcurrency: 3 },
+      ],
+      pollingIntervalMs: 5,
+    });
+    processor.start();
+    await sleep(30);
+
+    // Low events may take 10 - 2 - 3 slots, low and mid events together 10 - 2
+    expect([...running].filter((id) => id.startsWith("low"))).toHaveLength(5);
+    expect(running.size).toBe(8);
+
+    events.push(createEvent("high-1", 10), createEvent("high-2", 10));
+    await sleep(30);
+
+    expect(running).toContain("high-1");
+    expect(running).toContain("high-2");
+    expect(running.size).toBe(10);
+
+    release();
+    await processor.stop();
+  });
+});
+
+describe("EventProcessor - scheduled events", () => {
+  it("should poll again when the nearest scheduled event becomes available", async () => {
+    const client = {
+      getEventsToProcess: vi.fn(() => Promise.resolve([])),
+      getNextAvailableAt: vi
+        .fn()
+        .mockResolvedValueOnce(new Date(Date.now() + 40))
+        .mockResolvedValue(null),
+      transaction: vi.fn(),
+    };
+    const wakeupEmitter = {
+      on: vi.fn(),
+      off: vi.fn(),
+      close: vi.fn(),
+    };
+    const processor = new EventProcessor({
+      client,
+      handlerMap: {},
+      wakeupEmitter,
+      pollingIntervalMs: 10_000,
+      wakeupThrottleMs: 5,
+    });
+    processor.start();
+    await sleep(20);
+    expect(client.getEventsToProcess).toHaveBeenCalledOnce();
+    expect(client.getNextAvailableAt).toHaveBeenCalledWith(
+      expect.objectContaining({ maxErrors: 5 }),
+    );
+
+    await sleep(60);
+    await processor.stop();
+
+    expect(client.getEventsToProcess).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("EventProcessor - batch claiming", () => {
+  const createEvent = (id: string): TxOBEvent<"evtType1"> => ({
+    type: "evtType1",
+    id,
+    timestamp: now,
+    data: {},
+    correlation_id: `corr-${id}`,
+    handler_results: {},
+    errors: 0,
+  });
+
+  it("should process claimed events without locking them again", async () => {
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.resolve()),
+      },
+    };
+    const updateClaimedEvent = vi.fn(() => Promise.resolve(true));
+    const client = {
+      ...mockClient,
+      claimEventsToProcess: vi
+        .fn()
+        .mockResolvedValueOnce([createEvent("1"), createEvent("2")])
+        .mockResolvedValue([]),
+      transaction: vi.fn(async (fn) =>
+        fn({ ...mockTxClient, updateClaimedEvent }),
+      ),
+    };
+
+    const processor = new EventProcessor({
+      client,
+      handlerMap,
+      maxQueuedEvents: 10,
+      maxEventConcurrency: 5,
+      claimTimeoutMs: 30_000,
+      pollingIntervalMs: 5,
+    });
+    const claimStartedAt = Date.now();
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    const [claimOpts] = client.claimEventsToProcess.mock.calls[0]!;
+    expect(claimOpts).toMatchObject({
+      maxErrors: 5,
+      prioritized: false,
+      limit: 5,
+    });
+    expect(claimOpts.claimedUntil.getTime()).toBeGreaterThanOrEqual(
+      claimStartedAt + 30_000,
+    );
+    expect(mockClient.getEventsToProcess).not.toHaveBeenCalled();
+    expect(mockTxClient.getEventByIdForUpdateSkipLocked).not.toHaveBeenCalled();
+    expect(handlerMap.evtType1.handler1).toHaveBeenCalledTimes(2);
+    expect(mockTxClient.updateEvent).not.toHaveBeenCalled();
+    expect(updateClaimedEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "1", processed_at: now, backoff_until: null }),
+      claimOpts.claimedUntil,
+    );
+    expect(updateClaimedEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "2", processed_at: now, backoff_until: null }),
+      claimOpts.claimedUntil,
+    );
+  });
+
+  it("should not claim more events than can start processing", async () => {
+    let releaseHandlers!: () => void;
+    const handlersReleased = new Promise<void>((resolve) => {
+      releaseHandlers = resolve;
+    });
+    const client = {
+      ...mockClient,
+      claimEventsToProcess: vi
+        .fn()
+        .mockResolvedValueOnce([createEvent("1"), createEvent("2")])
+        .mockResolvedValue([]),
+      transaction: vi.fn(async (fn) =>
+        fn({ ...mockTxClient, updateClaimedEvent: () => Promise.resolve(true) }),
+      ),
+    };
+
+    const processor = new EventProcessor({
+      client,
+      handlerMap: { evtType1: { handler1: () => handlersReleased } },
+      maxQueuedEvents: 10,
+      maxEventConcurrency: 2,
+      pollingIntervalMs: 5,
+    });
+    processor.start();
+    await sleep(30);
+
+    // Both slots are busy, so polls are skipped instead of claiming events that would wait in the queue
+    expect(client.claimEventsToProcess).toHaveBeenCalledOnce();
+    expect(client.claimEventsToProcess.mock.calls[0]![0]).toMatchObject({
+      limit: 2,
+    });
+
+    releaseHandlers();
+    await sleep(30);
+    await processor.stop();
+
+    expect(client.claimEventsToProcess.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it("should discard results when the claim was lost", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const client = {
+      ...mockClient,
+      claimEventsToProcess: vi
+        .fn()
+        .mockResolvedValueOnce([createEvent("1")])
+        .mockResolvedValue([]),
+      transaction: vi.fn(async (fn) =>
+        fn({ ...mockTxClient, updateClaimedEvent: () => Promise.resolve(false) }),
+      ),
+    };
+
+    const processor = new EventProcessor({
+      client,
+      handlerMap: { evtType1: { handler1: vi.fn() } },
+      logger,
+      pollingIntervalMs: 5,
+    });
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      { eventId: "1", claimedUntil: expect.any(Date) },
+      "claim expired and the event was claimed by another processor, discarding results",
+    );
+    expect(logger.error).not.toHaveBeenCalled();
+    expect(mockTxClient.updateEvent).not.toHaveBeenCalled();
+  });
+
+  it("should not claim events when ordering is configured", async () => {
+    const client = {
+      ...mockClient,
+      claimEventsToProcess: vi.fn(() => Promise.resolve([])),
+    };
+    mockClient.getEventsToProcess.mockResolvedValue([]);
+
+    const processor = new EventProcessor({
+      client,
+      handlerMap: {},
+      ordering: { key: "correlation_id" },
+      pollingIntervalMs: 5,
+    });
+    processor.start();
+    await sleep(20);
+    await processor.stop();
+
+    expect(client.claimEventsToProcess).not.toHaveBeenCalled();
+    expect(mockClient.getEventsToProcess).toHaveBeenCalled();
+  });
+});
+
+describe("EventProcessor - lease mode", () => {
+  const createEvent = (id: string): TxOBEvent<"evtType1"> => ({
+    type: "evtType1",
+    id,
+    timestamp: now,
+    data: {},
+    correlation_id: `corr-${id}`,
+    handler_results: {},
+    errors: 0,
+  });
+
+  it("should throw when the client does not support leases", () => {
+    expect(
+      () =>
+        new EventProcessor({
+          client: mockClient,
+          handlerMap: {},
+          lease: { durationMs: 1_000 },
+        }),
+    ).toThrow("lease mode requires a client that implements `leaseEvent`");
+  });
+
+  it("should run handlers outside of a transaction and write back under the lease", async () => {
+    let inTransaction = false;
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(async () => {
+          expect(inTransaction).toBe(false);
+        }),
+      },
+    };
+    const updateLeasedEvent = vi.fn(() => Promise.resolve(true));
+    const client = {
+      getEventsToProcess: vi
+        .fn()
+        .mockResolvedValueOnce([{ id: "1", errors: 0 }])
+        .mockResolvedValue([]),
+      leaseEvent: vi.fn(() => Promise.resolve(createEvent("1"))),
+      transaction: vi.fn(async (fn) => {
+        inTransaction = true;
+        try {
+          await fn({ ...mockTxClient, updateLeasedEvent });
+        } finally {
+          inTransaction = false;
+        }
+      }),
+    };
+
+    const processor = new EventProcessor({
+      client,
+      handlerMap,
+      lease: { durationMs: 30_000, workerId: "worker-1" },
+      pollingIntervalMs: 5,
+    });
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    expect(client.getEventsToProcess).toHaveBeenCalledWith(
+      expect.objectContaining({ leased: true }),
+    );
+    expect(client.leaseEvent).toHaveBeenCalledWith("1", {
+      signal: expect.any(AbortSignal),
+      maxErrors: 5,
+      lockedBy: "worker-1",
+      lockedUntil: new Date(now.getTime() + 30_000),
+    });
+    expect(handlerMap.evtType1.handler1).toHaveBeenCalledOnce();
+    expect(client.transaction).toHaveBeenCalledOnce();
+    expect(mockTxClient.getEventByIdForUpdateSkipLocked).not.toHaveBeenCalled();
+    expect(mockTxClient.updateEvent).not.toHaveBeenCalled();
+    expect(updateLeasedEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "1", processed_at: now }),
+      { lockedBy: "worker-1", lockedUntil: new Date(now.getTime() + 30_000) },
+    );
+  });
+
+  it("should stamp every lease with the same generated worker id", async () => {
+    const client = {
+      getEventsToProcess: vi
+        .fn()
+        .mockResolvedValueOnce([
+          { id: "1", errors: 0 },
+          { id: "2", errors: 0 },
+        ])
+        .mockResolvedValue([]),
+      leaseEvent: vi.fn((id: string, _opts: { lockedBy: string }) =>
+        Promise.resolve(createEvent(id)),
+      ),
+      transaction: vi.fn(async (fn) =>
+        fn({ ...mockTxClient, updateLeasedEvent: () => Promise.resolve(true) }),
+      ),
+    };
+
+    const processor = new EventProcessor({
+      client,
+      handlerMap: { evtType1: { handler1: vi.fn() } },
+      lease: { durationMs: 30_000 },
+      pollingIntervalMs: 5,
+    });
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    const workerIds = client.leaseEvent.mock.calls.map(
+      ([, { lockedBy }]) => lockedBy,
+    );
+    expect(workerIds).toEqual([expect.any(String), workerIds[0]]);
+  });
+
+  it("should discard results when the lease was lost", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const client = {
+      getEventsToProcess: vi
+        .fn()
+        .mockResolvedValueOnce([{ id: "1", errors: 0 }])
+        .mockResolvedValue([]),
+      leaseEvent: vi.fn(() => Promise.resolve(createEvent("1"))),
+      transaction: vi.fn(async (fn) =>
+        fn({ ...mockTxClient, updateLeasedEvent: () => Promise.resolve(false) }),
+      ),
+    };
+
+    const processor = new EventProcessor({
+      client,
+      handlerMap: { evtType1: { handler1: vi.fn() } },
+      lease: { durationMs: 30_000 },
+      logger,
+      pollingIntervalMs: 5,
+    });
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      { eventId: "1", lockedBy: expect.any(String) },
+      "lease expired and was taken over by another processor, discarding results",
+    );
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+});
+
+describe("EventProcessor - handler policies", () => {
+  const processOnce = async (
+    event: TxOBEvent<"evtType1">,
+    opts: Omit<ConstructorParameters<typeof EventProcessor>[0], "client">,
+  ) => {
+    mockClient.getEventsToProcess
+      .mockResolvedValueOnce([event])
+      .mockResolvedValue([]);
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockResolvedValue(event);
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      pollingIntervalMs: 10,
+      ...opts,
+    });
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+  };
+  const createEvent = (
+    overrides: Partial<TxOBEvent<"evtType1">> = {},
+  ): TxOBEvent<"evtType1"> => ({
+    type: "evtType1",
+    id: "1",
+    timestamp: now,
+    data: {},
+    correlation_id: "abc123",
+    handler_results: {},
+    errors: 0,
+    ...overrides,
+  });
+
+  it("should track attempts and back off with the handler's own policy without consuming event errors", async () => {
+    const error = new Error("flaky");
+    const handlerBackoffUntil = new Date(now.getTime() + 60_000);
+    const handlerBackoff = vi.fn(() => handlerBackoffUntil);
+    const backoff = vi.fn(() => now);
+    const handlerMap = {
+      evtType1: {
+        flaky: {
+          handler: vi.fn(() => Promise.reject(error)),
+          maxAttempts: 10,
+          backoff: handlerBackoff,
+        },
+        steady: vi.fn(() => Promise.resolve()),
+      },
+    };
+
+    await processOnce(
+      createEvent({
+        handler_results: { flaky: { attempts: 6, errors: [] } },
+        errors: 2,
+      }),
+      { handlerMap, backoff },
+    );
+
+    expect(handlerBackoff).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempt: 7,
+        error,
+        errors: [error],
+        maxErrors: 10,
+      }),
+    );
+    expect(backoff).not.toHaveBeenCalled();
+    expect(mockTxClient.updateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        errors: 2,
+        backoff_until: handlerBackoffUntil,
+        handler_results: {
+          flaky: {
+            attempts: 7,
+            errors: [{ error: error.message, timestamp: now }],
+          },
+          steady: { errors: [], processed_at: now },
+        },
+      }),
+    );
+  });
+
+  it("should finish the event once the last pending handler exhausts its attempts", async () => {
+    const error = new Error("flaky");
+    const onEventMaxErrorsReached = vi.fn(() => Promise.resolve());
+    const handlerMap = {
+      evtType1: {
+        flaky: {
+          handler: vi.fn(() => Promise.reject(error)),
+          maxAttempts: 3,
+        },
+        steady: vi.fn(() => Promise.resolve()),
+      },
+    };
+
+    await processOnce(
+      createEvent({
+        handler_results: {
+          flaky: { attempts: 2, errors: [] },
+          steady: { processed_at: now },
+        },
+      }),
+      { handlerMap, onEventMaxErrorsReached },
+    );
+
+    expect(handlerMap.evtType1.steady).not.toHaveBeenCalled();
+    expect(onEventMaxErrorsReached).toHaveBeenCalledOnce();
+    expect(mockTxClient.updateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        errors: 5,
+        processed_at: now,
+        backoff_until: null,
+        handler_results: {
+          flaky: {
+            attempts: 3,
+            exhausted_at: now,
+            errors: [{ error: error.message, timestamp: now }],
+          },
+          steady: { processed_at: now },
+        },
+      }),
+    );
+  });
+
+  it("should keep the event pending for handlers with their own budget after the shared budget runs out", async () => {
+    const handlerMap = {
+      evtType1: {
+        shared: vi.fn(() => Promise.reject(new Error("shared"))),
+        own: {
+          handler: vi.fn(() => Promise.reject(new Error("own"))),
+          maxAttempts: 10,
+        },
+        exhausted: {
+          handler: vi.fn(() => Promise.resolve()),
+          maxAttempts: 1,
+        },
+      },
+    };
+
+    await processOnce(
+      createEvent({
+        handler_results: {
+          exhausted: { attempts: 1, exhausted_at: now, errors: [] },
+        },
+        errors: 4,
+      }),
+      { handlerMap, maxErrors: 5 },
+    );
+
+    expect(handlerMap.evtType1.exhausted.handler).not.toHaveBeenCalled();
+    const [updatedEvent] = mockTxClient.updateEvent.mock.calls[0]!;
+    expect(updatedEvent.errors).toBe(4);
+    expect(updatedEvent.processed_at).toBeUndefined();
+    expect(updatedEvent.backoff_until).toBeInstanceOf(Date);
+    expect(updatedEvent.handler_results.shared.exhausted_at).toBe(now);
+    expect(updatedEvent.handler_results.own).toMatchObject({ attempts: 1 });
+    expect(updatedEvent.handler_results.own.exhausted_at).toBeUndefined();
+  });
+
+  it("should abort and fail a handler attempt that exceeds its timeout", async () => {
+    let handlerSignal: AbortSignal | undefined;
+    const counter = { add: vi.fn() };
+    const meter = {
+      createCounter: vi.fn(() => counter),
+      createHistogram: vi.fn(() => ({ record: vi.fn() })),
+    };
+    const handlerMap = {
+      evtType1: {
+        slow: vi.fn((_event: unknown, { signal }: { signal?: AbortSignal }) => {
+          handlerSignal = signal;
+          return sleep(1_000, signal);
+        }),
+        fast: vi.fn(() => Promise.resolve()),
+      },
+    };
+
+    await processOnce(createEvent(), {
+      handlerMap,
+      handlerTimeoutMs: 5,
+      telemetry: { meter },
+    });
+
+    expect(handlerSignal?.aborted).toBe(true);
+    expect(handlerSignal?.reason).toBeInstanceOf(ErrorEventHandlerTimeout);
+    expect(counter.add).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({
+        [TxOBTelemetryAttributeKey.HandlerName]: "slow",
+        [TxOBTelemetryAttributeKey.HandlerOutcome]:
+          TxOBTelemetryHandlerOutcome.Timeout,
+      }),
+    );
+    expect(mockTxClient.updateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        errors: 1,
+        handler_results: {
+          slow: {
+            errors: [
+              {
+                error: {
+                  message: "event handler timed out after 5ms",
+                  timeoutMs: 5,
+                },
+                timestamp: now,
+              },
+            ],
+          },
+          fast: { errors: [], processed_at: now },
+        },
+      }),
+    );
+  });
+
+  it("should short-circuit a handler while its circuit is open", async () => {
+    const error = new Error("provider down");
+    const handlerMap = {
+      evtType1: {
+        sendEmail: {
+          handler: vi.fn(() => Promise.reject(error)),
+          circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60_000 },
+        },
+      },
+    };
+    const first = createEvent({ id: "1" });
+    const second = createEvent({ id: "2" });
+    mockClient.getEventsToProcess
+      .mockResolvedValueOnce([first])
+      .mockResolvedValueOnce([second])
+      .mockResolvedValue([]);
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation((id) =>
+      Promise.resolve([first, second].find((event) => event.id === id)),
+    );
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      pollingIntervalMs: 10,
+    });
+    processor.start();
+    await sleep(40);
+    await processor.stop();
+
+    expect(handlerMap.evtType1.sendEmail.handler).toHaveBeenCalledOnce();
+    const [status] = processor.getCircuitBreakerStatus();
+    expect(status).toMatchObject({
+      eventType: "evtType1",
+      handlerName: "sendEmail",
+      state: TxOBCircuitBreakerState.Open,
+      failures: 1,
+    });
+    expect(mockTxClient.updateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "2",
+        errors: 0,
+        backoff_until: status!.retryAt,
+        handler_results: {},
+      }),
+    );
+    expect(second.processed_at).toBeUndefined();
+  });
+
+  it("should defer handlers over their rate limit without failing them", async () => {
+    const handlerMap = {
+      evtType1: {
+        sendEmail: vi.fn(() => Promise.resolve()),
+        audit: vi.fn(() => Promise.resolve()),
+      },
+    };
+    const first = createEvent({ id: "1" });
+    const second = createEvent({ id: "2" });
+    mockClient.getEventsToProcess.mockResolvedValueOnce([first, second]);
+    mockClient.getEventsToProcess.mockResolvedValue([]);
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation((id) =>
+      Promise.resolve([first, second].find((event) => event.id === id)),
+    );
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      pollingIntervalMs: 10,
+      rateLimits: { handlers: { sendEmail: { tokens: 1, intervalMs: 60_000 } } },
+    });
+    const startedAt = Date.now();
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    expect(handlerMap.evtType1.sendEmail).toHaveBeenCalledOnce();
+    expect(handlerMap.evtType1.audit).toHaveBeenCalledTimes(2);
+    const deferred = [first, second].filter((event) => !event.processed_at);
+    expect(deferred).toHaveLength(1);
+    expect(deferred[0]).toMatchObject({
+      errors: 0,
+      handler_results: { audit: { errors: [], processed_at: now } },
+    });
+    expect(deferred[0]!.handler_results).not.toHaveProperty("sendEmail");
+    expect(deferred[0]!.backoff_until!.getTime()).toBeGreaterThanOrEqual(
+      startedAt + 60_000 - 50,
+    );
+  });
+
+  it("should let a handler timeout override handlerTimeoutMs", async () => {
+    const handlerMap = {
+      evtType1: {
+        slow: {
+          handler: vi.fn(() => sleep(15)),
+          timeoutMs: 100,
+        },
+      },
+    };
+
+    await processOnce(createEvent(), { handlerMap, handlerTimeoutMs: 5 });
+
+    expect(mockTxClient.updateEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        errors: 0,
+        processed_at: now,
+        handler_results: {
+          slow: { attempts: 1, errors: [], processed_at: now },
+        },
+      }),
+    );
+  });
+});
+
+describe("EventProcessor - middleware", () => {
+  const processOnce = async (
+    opts: Omit<ConstructorParameters<typeof EventProcessor>[0], "client">,
+  ) => {
+    const event: TxOBEvent<"evtType1"> = {
+      type: "evtType1",
+      id: "1",
+      timestamp: now,
+      data: {},
+      correlation_id: "abc123",
+      handler_results: {},
+      errors: 2,
+    };
+    mockClient.getEventsToProcess
+      .mockResolvedValueOnce([event])
+      .mockResolvedValue([]);
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockResolvedValue(event);
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      pollingIntervalMs: 10,
+      ...opts,
+    });
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    return event;
+  };
+
+  it("should run middleware in order around each handler with an enrichable context", async () => {
+    const calls: string[] = [];
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(async () => {
+          calls.push("handler1");
+        }),
+        handler2: {
+          handler: vi.fn(() => Promise.resolve()),
+          maxAttempts: 3,
+        },
+      },
+    };
+    const outer = vi.fn(async (ctx, next) => {
+      calls.push(`outer:${ctx.handlerName}`);
+      ctx.context.requestId = "req-1";
+      await next();
+      calls.push(`outer:${ctx.handlerName}:done`);
+    });
+    const inner = vi.fn(async (ctx, next) => {
+      calls.push(`inner:${ctx.handlerName}`);
+      await next();
+    });
+
+    await processOnce({
+      handlerMap,
+      middleware: [outer, inner],
+      maxHandlerConcurrency: 1,
+    });
+
+    expect(calls.slice(0, 4)).toEqual([
+      "outer:handler1",
+      "inner:handler1",
+      "handler1",
+      "outer:handler1:done",
+    ]);
+    expect(outer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        handlerName: "handler1",
+        attempt: 3,
+        event: expect.objectContaining({ id: "1" }),
+        signal: expect.any(AbortSignal),
+      }),
+      expect.any(Function),
+    );
+    expect(outer).toHaveBeenCalledWith(
+      expect.objectContaining({ handlerName: "handler2", attempt: 1 }),
+      expect.any(Function),
+    );
+    expect(handlerMap.evtType1.handler1).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "1" }),
+      { signal: expect.any(AbortSignal), context: { requestId: "req-1" } },
+    );
+  });
+
+  it("should skip the handler when middleware does not call next", async () => {
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.resolve()),
+      },
+    };
+
+    const event = await processOnce({
+      handlerMap,
+      middleware: [async () => {}],
+    });
+
+    expect(handlerMap.evtType1.handler1).not.toHaveBeenCalled();
+    expect(event.processed_at).toBe(now);
+    expect(event.handler_results.handler1?.processed_at).toBe(now);
+  });
+
+  it("should let middleware transform handler errors", async () => {
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.reject(new Error("404 not found"))),
+      },
+    };
+
+    const event = await processOnce({
+      handlerMap,
+      middleware: [
+        async (_ctx, next) => {
+          try {
+            await next();
+          } catch (error) {
+            throw new ErrorUnprocessableEventHandler(error as Error);
+          }
+        },
+      ],
+    });
+
+    expect(event.handler_results.handler1).toEqual({
+      unprocessable_at: now,
+      errors: [
+        {
+          error: "unprocessable event handler: 404 not found",
+          timestamp: now,
+        },
+      ],
+    });
+    expect(event.errors).toBe(5);
+  });
+
+  it("should reject middleware calling next more than once", async () => {
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.resolve()),
+      },
+    };
+
+    const event = await processOnce({
+      handlerMap,
+      middleware: [
+        async (_ctx, next) => {
+          await next();
+          await next();
+        },
+      ],
+    });
+
+    expect(handlerMap.evtType1.handler1).toHaveBeenCalledOnce();
+    expect(event.handler_results.handler1?.errors).toEqual([
+      { error: "middleware called `next` more than once", timestamp: now },
+    ]);
+  });
+});
+
+describe("EventProcessor - lifecycle events", () => {
+  const createEvent = (errors = 0): TxOBEvent<"evtType1"> => ({
+    type: "evtType1",
+    id: "1",
+    timestamp: now,
+    data: {},
+    correlation_id: "abc123",
+    handler_results: {},
+    errors,
+  });
+
+  it("should emit typed events while processing", async () => {
+    const error = new Error("boom");
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.resolve()),
+        handler2: vi.fn(() => Promise.reject(error)),
+      },
+    };
+    const event = createEvent();
+    mockClient.getEventsToProcess
+      .mockResolvedValueOnce([event])
+      .mockResolvedValue([]);
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockResolvedValue(event);
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      pollingIntervalMs: 10,
+    });
+    const listeners = {
+      stateChange: vi.fn(),
+      poll: vi.fn(),
+      eventClaimed: vi.fn(),
+      handlerSucceeded: vi.fn(),
+      handlerFailed: vi.fn(),
+      eventCompleted: vi.fn(),
+      eventDeadLettered: vi.fn(),
+    };
+    for (const [name, listener] of Object.entries(listeners)) {
+      processor.on(name as keyof typeof listeners, listener);
+    }
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    expect(listeners.stateChange.mock.calls.map(([payload]) => payload)).toEqual([
+      { from: "stopped", to: "started" },
+      { from: "started", to: "stopping" },
+      { from: "stopping", to: "stopped" },
+    ]);
+    expect(listeners.poll).toHaveBeenCalledWith({
+      outcome: TxOBTelemetryPollOutcome.Success,
+      found: 1,
+      queued: 1,
+      durationMs: expect.any(Number),
+    });
+    expect(listeners.eventClaimed).toHaveBeenCalledExactlyOnceWith({ event });
+    expect(listeners.handlerSucceeded).toHaveBeenCalledExactlyOnceWith({
+      event,
+      handlerName: "handler1",
+      durationMs: expect.any(Number),
+    });
+    expect(listeners.handlerFailed).toHaveBeenCalledExactlyOnceWith({
+      event,
+      handlerName: "handler2",
+      error,
+      outcome: TxOBTelemetryHandlerOutcome.Error,
+      durationMs: expect.any(Number),
+    });
+    expect(listeners.eventCompleted).toHaveBeenCalledExactlyOnceWith({
+      event,
+      outcome: TxOBTelemetryEventOutcome.Error,
+      durationMs: expect.any(Number),
+    });
+    expect(listeners.eventDeadLettered).not.toHaveBeenCalled();
+  });
+
+  it("should emit eventDeadLettered and stop calling removed listeners", async () => {
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.reject(new Error("boom"))),
+      },
+    };
+    const event = createEvent(4);
+    mockClient.getEventsToProcess
+      .mockResolvedValueOnce([event])
+      .mockResolvedValue([]);
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockResolvedValue(event);
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      pollingIntervalMs: 10,
+    });
+    const eventDeadLettered = vi.fn();
+    const poll = vi.fn();
+    processor.on("eventDeadLettered", eventDeadLettered).on("poll", poll);
+    processor.off("poll", poll);
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    expect(eventDeadLettered).toHaveBeenCalledExactlyOnceWith({ event });
+    expect(poll).not.toHaveBeenCalled();
+  });
+
+  it("should emit errors and keep processing when listeners throw", async () => {
+    const pollError = new Error("connection lost");
+    mockClient.getEventsToProcess
+      .mockRejectedValueOnce(pollError)
+      .mockResolvedValue([]);
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap: {},
+      pollingIntervalMs: 10,
+      logger,
+    });
+    const errorListener = vi.fn();
+    processor.on("error", errorListener);
+    processor.on("poll", () => {
+      throw new Error("listener failed");
+    });
+    processor.start();
+    await sleep(30);
+    await processor.stop();
+
+    expect(errorListener).toHaveBeenCalledExactlyOnceWith({ error: pollError });
+    expect(mockClient.getEventsToProcess.mock.calls.length).toBeGreaterThan(1);
+    expect(logger.error).toHaveBeenCalledWith(
+      { error: new Error("listener failed"), processorEvent: "poll" },
+      "error in processor event listener",
+    );
+  });
+});
+
+describe("EventProcessor - health", () => {
+  it("should report poll failures and recover on the next successful poll", async () => {
+    mockClient.getEventsToProcess
+      .mockRejectedValueOnce(new Error("connection refused"))
+      .mockRejectedValueOnce(new Error("connection refused"))
+      .mockResolvedValue([]);
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap: {},
+      pollingIntervalMs: 10,
+    });
+    expect(processor.getHealth()).toEqual({
+      state: "stopped",
+      pollingLoopRunning: false,
+      lastSuccessfulPollAt: undefined,
+      consecutivePollFailures: 0,
+      wakeupEmitterConnected: undefined,
+      queueDepth: 0,
+      inFlightEvents: 0,
+    });
+
+    processor.start();
+    await sleep(15);
+    expect(processor.getHealth()).toMatchObject({
+      state: "started",
+      pollingLoopRunning: true,
+      lastSuccessfulPollAt: undefined,
+      consecutivePollFailures: 2,
+    });
+
+    await sleep(15);
+    expect(processor.getHealth()).toMatchObject({
+      lastSuccessfulPollAt: now,
+      consecutivePollFailures: 0,
+    });
+
+    await processor.stop();
+    await sleep(15);
+    expect(processor.getHealth()).toMatchObject({
+      state: "stopped",
+      pollingLoopRunning: false,
+    });
+  });
+
+  it("should report in-flight events and wakeup emitter connectivity", async () => {
+    let resolveHandler: () => void = () => {};
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(
+          () =>
+            new Promise<void>((resolve) => {
+              resolveHandler = resolve;
+            }),
+        ),
+      },
+    };
+    const event: TxOBEvent<"evtType1"> = {
+      type: "evtType1",
+      id: "1",
+      timestamp: now,
+      data: {},
+      correlation_id: "abc123",
+      handler_results: {},
+      errors: 0,
+    };
+    mockClient.getEventsToProcess
+      .mockResolvedValueOnce([event])
+      .mockResolvedValue([]);
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockResolvedValue(event);
+    let connected = true;
+    const wakeupEmitter = {
+      on: vi.fn(),
+      off: vi.fn(),
+      close: vi.fn(),
+      isConnected: () => connected,
+    };
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      wakeupEmitter,
+      pollingIntervalMs: 10,
+      wakeupThrottleMs: 5,
+    });
+    processor.start();
+    await sleep(30);
+    connected = false;
+    expect(processor.getHealth()).toMatchObject({
+      wakeupEmitterConnected: false,
+      queueDepth: 0,
+      inFlightEvents: 1,
+    });
+
+    resolveHandler();
+    await processor.stop();
+    expect(processor.getHealth().inFlightEvents).toBe(0);
+  });
+});
+
+describe("defaultBackoff", () => {
+  it("should calculate a backoff", () => {
+    const backoff = defaultBackoff({
+      attempt: 3,
+      error: new Error("test"),
+      errors: [],
+      event: {
+        id: "event-1",
+        type: "evtType1",
+        timestamp: now,
+        data: {},
+        correlation_id: "abc123",
+        handler_results: {},
+        errors: 3,
+      },
+      maxErrors: 5,
+    });
+    const actual = backoff.getTime();
+    const expected = Date.now() + 1000 * 2 ** 3;
+    const diff = Math.abs(actual - expected);
+
+    expect(diff).lessThanOrEqual(1);
+  });
+
+  it("should cap backoff at maxDelayMs for large error counts", () => {
+    const maxDelayMs = 1000 * 60; // 60 seconds
+    const backoff = defaultBackoff({
+      attempt: 20,
+      error: new Error("test"),
+      errors: [],
+      event: {
+        id: "event-1",
+        type: "evtType1",
+        timestamp: now,
+        data: {},
+        correlation_id: "abc123",
+        handler_results: {},
+        errors: 20,
+      },
+      maxErrors: 30,
+    }); // Large error count that would exceed max
+    const actual = backoff.getTime();
+    const expected = Date.now() + maxDelayMs;
+    const diff = Math.abs(actual - expected);
+
+    expect(diff).lessThanOrEqual(1);
+  });
+});
+
+describe("EventProcessor - lifecycle", () => {
+  it("should shutdown gracefully", async () => {
+    let calls = 0;
+    let aborted = false;
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn((event, { signal }) => {
+          calls++;
+          return new Promise<void>((r) => {
+            signal.addEventListener("abort", () => {
+              aborted = true;
+              r();
+            });
+          });
+        }),
+      },
+    };
+    const evt1: TxOBEvent<keyof typeof handlerMap> = {
+      type: "evtType1",
+      id: "1",
+      timestamp: now,
+      data: {},
+      correlation_id: "abc123",
+      handler_results: {},
+      errors: 0,
+    };
+    let callCount = 0;
+    mockClient.getEventsToProcess.mockImplementation((opts) => {
+      // Check if signal is aborted - reject immediately to be caught by polling loop
+      if (opts?.signal?.aborted) {
+        return Promise.reject(new DOMException("Aborted", "AbortError"));
+      }
+      callCount++;
+      return Promise.resolve(callCount === 1 ? [evt1] : []);
+    });
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation(() =>
+      Promise.resolve(evt1),
+    );
+    mockTxClient.updateEvent.mockImplementation(() => Promise.resolve());
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      pollingIntervalMs: 10,
+    });
+    processor.start();
+    await sleep(20); // Let it start processing
+    await processor.stop();
+    // The stop() method now waits for the polling loop to complete,
+    // ensuring any pending rejections are caught by the polling loop's catch block
+
+    expect(calls).toBe(1);
+    expect(aborted).toBe(true);
+  });
+  it("should respect shutdown timeout and throw", async () => {
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => sleep(100)),
+      },
+    };
+    const evt1: TxOBEvent<keyof typeof handlerMap> = {
+      type: "evtType1",
+      id: "1",
+      timestamp: now,
+      data: {},
+      correlation_id: "abc123",
+      handler_results: {},
+      errors: 0,
+    };
+    let callCount = 0;
+    mockClient.getEventsToProcess.mockImplementation(() => {
+      callCount++;
+      return Promise.resolve(callCount === 1 ? [evt1] : []);
+    });
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation(() =>
+      Promise.resolve(evt1),
+    );
+    mockTxClient.updateEvent.mockImplementation(() => Promise.resolve());
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      pollingIntervalMs: 10,
+    });
+    processor.start();
+
+    const start = Date.now();
+    try {
+      await processor.stop({ timeoutMs: 10 });
+    } catch (error: any) {
+      expect(error.message).toBe("shutdown timeout 10ms elapsed");
+    }
+    const diff = Date.now() - start;
+    expect(diff).toBeLessThan(50);
+  });
+  it("should warn when stopping a processor that is not started", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap: {},
+      pollingIntervalMs: 10,
+      logger,
+    });
+
+    await processor.stop();
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "cannot stop processor from 'stopped'",
+    );
+  });
+  it("should handle shutdown when processor completes before stop is called", async () => {
+    let resolve: (() => void) | null = null;
+    const promise = new Promise<void>((r) => {
+      resolve = r;
+    });
+
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => promise),
+      },
+    };
+    const evt1: TxOBEvent<keyof typeof handlerMap> = {
+      type: "evtType1",
+      id: "1",
+      timestamp: now,
+      data: {},
+      correlation_id: "abc123",
+      handler_results: {},
+      errors: 0,
+    };
     let callCount = 0;
     mockClient.getEventsToProcess.mockImplementation((opts) => {
       // Respect abort signal to prevent unhandled rejections
@@ -1336,6 +2773,137 @@ describe("EventProcessor - lifecycle", () => {
       "cannot start processor from 'started'",
     );
   });
+  it("should only verify the schema when asked to", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const issue = {
+      kind: "column" as const,
+      name: "backoff_until",
+      message: "column backoff_until is missing",
+    };
+    const verifySchema = vi.fn(() => Promise.resolve([issue]));
+    mockClient.getEventsToProcess.mockImplementation(() =>
+      Promise.resolve([]),
+    );
+    const processor = new EventProcessor({
+      client: { ...mockClient, verifySchema },
+      handlerMap: {},
+      pollingIntervalMs: 10,
+      logger,
+      ordering: { key: "partition_key" },
+    });
+
+    processor.start();
+    await sleep(20);
+    await processor.stop();
+    expect(verifySchema).not.toHaveBeenCalled();
+
+    expect(await processor.verifySchema()).toEqual([issue]);
+    expect(verifySchema).toHaveBeenCalledWith({
+      ordering: { key: "partition_key" },
+      prioritized: false,
+      leased: false,
+      traced: false,
+      wakeup: false,
+    });
+    expect(logger.warn).toHaveBeenCalledWith({ issue }, issue.message);
+  });
+  it("should reject on schema drift with failOnDrift", async () => {
+    const issue = {
+      kind: "index" as const,
+      name: "idx_events_processing",
+      message: "no processing index",
+    };
+    const processor = new EventProcessor({
+      client: {
+        ...mockClient,
+        verifySchema: vi.fn(() => Promise.resolve([issue])),
+      },
+      handlerMap: {},
+    });
+
+    const error = await processor
+      .verifySchema({ failOnDrift: true })
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(ErrorSchemaDrift);
+    expect(error.message).toBe("events schema drift: no processing index");
+    expect(error.issues).toEqual([issue]);
+  });
+  it("should verify the schema in the background when started with schemaCheck", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const issue = {
+      kind: "column" as const,
+      name: "priority",
+      message: "column priority is missing",
+    };
+    const client = {
+      ...mockClient,
+      getEventsToProcess: vi.fn(() => Promise.resolve([])),
+      verifySchema: vi.fn(() => Promise.resolve([issue])),
+    };
+    const processor = new EventProcessor({
+      client,
+      handlerMap: {},
+      pollingIntervalMs: 10,
+      logger,
+      schemaCheck: {},
+    });
+
+    processor.start();
+    await sleep(20);
+
+    expect(client.verifySchema).toHaveBeenCalledOnce();
+    expect(logger.warn).toHaveBeenCalledWith({ issue }, issue.message);
+    expect(processor.getHealth().state).toBe("started");
+    await processor.stop();
+  });
+  it("should stop the processor on schema drift with schemaCheck failOnDrift", async () => {
+    const issue = {
+      kind: "index" as const,
+      name: "idx_events_processing",
+      message: "no processing index",
+    };
+    const client = {
+      ...mockClient,
+      getEventsToProcess: vi.fn(() => Promise.resolve([])),
+      verifySchema: vi.fn(() => Promise.resolve([issue])),
+    };
+    const processor = new EventProcessor({
+      client,
+      handlerMap: {},
+      pollingIntervalMs: 10,
+      schemaCheck: { failOnDrift: true },
+    });
+    const onError = vi.fn();
+    processor.on("error", onError);
+
+    processor.start();
+    await sleep(20);
+
+    expect(processor.getHealth().state).toBe("stopped");
+    expect(onError).toHaveBeenCalledWith({
+      error: expect.any(ErrorSchemaDrift),
+    });
+    expect(onError.mock.calls[0][0].error.issues).toEqual([issue]);
+  });
+  it("should report no schema drift when the client cannot verify its schema", async () => {
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap: {},
+    });
+
+    expect(await processor.verifySchema({ failOnDrift: true })).toEqual([]);
+  });
   it("should handle non-abort errors and continue processing", async () => {
     let calls = 0;
     const logger = {
@@ -1638,4 +3206,151 @@ describe("EventProcessor - telemetry", () => {
     expect(handlerMap.evtType1.handler1).toHaveBeenCalledOnce();
     expect(mockTxClient.updateEvent).toHaveBeenCalledOnce();
   });
+
+  it("publishes backlog stats from the client as observable gauges", async () => {
+    const gaugeCallbacks = new Map<
+      string,
+      (result: { observe: (value: number, attributes?: object) => void }) => void
+    >();
+    const meter = {
+      createCounter: vi.fn(() => ({ add: vi.fn() })),
+      createHistogram: vi.fn(() => ({ record: vi.fn() })),
+      createObservableGauge: vi.fn((name: string) => ({
+        addCallback: vi.fn(
+          (
+            callback: (result: {
+              observe: (value: number, attributes?: object) => void;
+            }) => void,
+          ) => {
+            gaugeCallbacks.set(name, callback);
+          },
+        ),
+      })),
+    };
+    const oldestPendingAt = new Date(Date.now() - 60_000);
+    const client = {
+      ...mockClient,
+      getBacklogStats: vi.fn().mockResolvedValue([
+        {
+          type: "evtType1",
+          pending: 3,
+          retrying: 1,
+          deadLettered: 2,
+          oldestPendingAt,
+        },
+      ]),
+    };
+    mockClient.getEventsToProcess.mockResolvedValue([]);
+    const observe = (name: string) => {
+      const result = { observe: vi.fn() };
+      gaugeCallbacks.get(name)?.(result);
+      return result.observe.mock.calls;
+    };
+
+    const processor = new EventProcessor({
+      client,
+      handlerMap: {},
+      pollingIntervalMs: 10,
+      backlogStatsIntervalMs: 10,
+      telemetry: { meter, attributes: { "service.name": "txob-test" } },
+    });
+    expect(observe(TxOBTelemetryMetricName.BacklogPending)).toEqual([]);
+
+    processor.start();
+    await sleep(30);
+
+    expect(client.getBacklogStats.mock.calls.length).toBeGreaterThan(1);
+    expect(client.getBacklogStats).toHaveBeenCalledWith(
+      expect.objectContaining({ maxErrors: 5 }),
+    );
+    const attributes = {
+      "service.name": "txob-test",
+      [TxOBTelemetryAttributeKey.EventType]: "evtType1",
+    };
+    expect(observe(TxOBTelemetryMetricName.BacklogPending)).toEqual([
+      [3, attributes],
+    ]);
+    expect(observe(TxOBTelemetryMetricName.BacklogRetrying)).toEqual([
+      [1, attributes],
+    ]);
+    expect(observe(TxOBTelemetryMetricName.BacklogDeadLettered)).toEqual([
+      [2, attributes],
+    ]);
+    const [[oldestPendingAge]] = observe(
+      TxOBTelemetryMetricName.BacklogOldestPendingAge,
+    );
+    expect(oldestPendingAge).toBeGreaterThanOrEqual(60_000);
+
+    await processor.stop();
+    expect(observe(TxOBTelemetryMetricName.BacklogPending)).toEqual([]);
+  });
+  it("continues the trace context stored with the event", async () => {
+    const span = {
+      setAttributes: vi.fn(),
+      recordException: vi.fn(),
+      setStatus: vi.fn(),
+      end: vi.fn(),
+    };
+    const tracer = {
+      startSpan: vi.fn(() => span),
+      getActiveTraceContext: vi.fn(() => undefined),
+      startSpanFromTraceContext: vi.fn(() => span),
+    };
+    const handlerMap = {
+      evtType1: {
+        handler1: vi.fn(() => Promise.resolve()),
+      },
+    };
+    const evt1: TxOBEvent<keyof typeof handlerMap> = {
+      type: "evtType1",
+      id: "1",
+      timestamp: now,
+      data: {},
+      correlation_id: "abc123",
+      handler_results: {},
+      errors: 0,
+      traceparent: "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01",
+      tracestate: "vendor=value",
+    };
+    let callCount = 0;
+    mockClient.getEventsToProcess.mockImplementation(() => {
+      callCount++;
+      return Promise.resolve(callCount === 1 ? [evt1] : []);
+    });
+    mockTxClient.getEventByIdForUpdateSkipLocked.mockImplementation(() =>
+      Promise.resolve(evt1),
+    );
+    mockTxClient.updateEvent.mockImplementation(() => Promise.resolve());
+
+    const processor = new EventProcessor({
+      client: mockClient,
+      handlerMap,
+      pollingIntervalMs: 10,
+      telemetry: { tracer, traceContextRelation: "link" },
+    });
+    processor.start();
+    await sleep(50);
+    await processor.stop();
+
+    expect(mockTxClient.getEventByIdForUpdateSkipLocked).toHaveBeenCalledWith(
+      "1",
+      expect.objectContaining({ traced: true }),
+    );
+    const traceContext = {
+      traceparent: evt1.traceparent,
+      tracestate: evt1.tracestate,
+    };
+    expect(tracer.startSpanFromTraceContext).toHaveBeenCalledWith(
+      TxOBTelemetrySpanName.EventProcess,
+      expect.objectContaining({ traceContext, relation: "link" }),
+    );
+    expect(tracer.startSpanFromTraceContext).toHaveBeenCalledWith(
+      TxOBTelemetrySpanName.HandlerProcess,
+      expect.objectContaining({ traceContext, relation: "link" }),
+    );
+    expect(tracer.startSpan).not.toHaveBeenCalledWith(
+      TxOBTelemetrySpanName.EventProcess,
+      expect.anything(),
+    );
+  });
 });
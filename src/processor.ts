@@ -1,14 +1,34 @@
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
 import { getDate } from "./date.js";
 import { sleep } from "./sleep.js";
 import pLimit from "p-limit";
 import { deepClone } from "./clone.js";
 import PQueue from "p-queue";
-import { ErrorUnprocessableEventHandler, TxOBError } from "./error.js";
+import {
+  ErrorEventHandlerTimeout,
+  ErrorSchemaDrift,
+  ErrorUnprocessableEventHandler,
+  TxOBError,
+} from "./error.js";
 import { throttle } from "throttle-debounce";
+import {
+  HandlerCircuitBreaker,
+  type TxOBCircuitBreakerOpts,
+  type TxOBCircuitBreakerStatus,
+} from "./circuit-breaker.js";
+import {
+  RateLimiter,
+  type TxOBRateLimitOpts,
+  type TxOBRateLimits,
+} from "./rate-limit.js";
 import type { StandardSchemaV1 } from "@standard-schema/spec";
 import {
+  createBacklogTelemetryGauges,
   createTelemetryInstruments,
   endTelemetrySpan,
+  isTraceContextPropagated,
+  observeTelemetryGauge,
   recordTelemetryCounter,
   recordTelemetryDuration,
   setTelemetrySpanAttributes,
@@ -21,12 +41,18 @@ import {
   type TxOBTelemetry,
   type TxOBTelemetryAttributes,
   type TxOBTelemetryInstruments,
+  type TxOBTelemetryObservableGauge,
   type TxOBTelemetrySpan,
+  type TxOBTraceContext,
 } from "./telemetry.js";
 
 type TxOBEventHandlerResult = {
   processed_at?: Date;
   unprocessable_at?: Date;
+  // Set once a handler used up its attempts and is no longer run
+  exhausted_at?: Date;
+  // Only tracked for handlers declared with a `TxOBEventHandlerConfig`
+  attempts?: number;
   errors?: { error: unknown; timestamp: Date }[];
 };
 
@@ -38,10 +64,20 @@ export type TxOBEvent<TxOBEventType extends string, TData = TxOBEventData> = {
   type: TxOBEventType;
   data: TData;
   correlation_id: string;
+  partition_key?: string | null;
+  priority?: number | null;
+  // The event is not handed out for processing before this date
+  available_at?: Date | null;
   handler_results: Record<string, TxOBEventHandlerResult>;
   errors: number;
   backoff_until?: Date | null;
   processed_at?: Date;
+  // Set while a processor in lease mode holds the event
+  locked_by?: string | null;
+  locked_until?: Date | null;
+  // W3C trace context the event was published in, stored when the publisher's tracer propagates it
+  traceparent?: string | null;
+  tracestate?: string | null;
 };
 
 export type TxOBEventDataMap<TxOBEventType extends string> = Record<
@@ -49,7 +85,7 @@ export type TxOBEventDataMap<TxOBEventType extends string> = Record<
   TxOBEventData
 >;
 
-type TxOBEventByType<
+export type TxOBEventByType<
   TxOBEventType extends string,
   TEventDataMap extends TxOBEventDataMap<TxOBEventType>,
 > = {
@@ -84,6 +120,8 @@ type TxOBEventTypeFromSchemas<TEventSchemas extends TxOBEventSchemaMap<string>>
 
 type TxOBEventHandlerOpts = {
   signal?: AbortSignal;
+  // Values added by middleware through `ctx.context`, set when `middleware` is configured
+  context?: Record<string, unknown>;
 };
 
 export type TxOBEventHandler<
@@ -94,15 +132,56 @@ export type TxOBEventHandler<
   opts: TxOBEventHandlerOpts,
 ) => Promise<void>;
 
+export type TxOBEventHandlerConfig<
+  TxOBEventType extends string = string,
+  TData extends TxOBEventData = TxOBEventData,
+> = {
+  handler: TxOBEventHandler<TxOBEventType, TData>;
+  // Attempts before the handler is given up on. Without it the handler shares the event `maxErrors` budget
+  maxAttempts?: number;
+  // Replaces the processor `backoff` for this handler's failures, `attempt` counts this handler's attempts
+  backoff?: (
+    context: TxOBBackoffContext<TxOBEventType, Record<TxOBEventType, TData>>,
+  ) => Date;
+  // Aborts the handler's signal and fails the attempt when the handler doesn't settle in time. Overrides `handlerTimeoutMs`
+  timeoutMs?: number;
+  // Skips the handler across events while its downstream keeps failing
+  circuitBreaker?: TxOBCircuitBreakerOpts;
+};
+
 export type TxOBEventHandlerMap<
   TxOBEventType extends string,
   TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
 > = {
   [TType in TxOBEventType]: {
-    [key: string]: TxOBEventHandler<TType, TEventDataMap[TType]>;
+    [key: string]:
+      | TxOBEventHandler<TType, TEventDataMap[TType]>
+      | TxOBEventHandlerConfig<TType, TEventDataMap[TType]>;
   };
 };
 
+export type TxOBHandlerMiddlewareContext<
+  TxOBEventType extends string = string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+> = {
+  event: Readonly<TxOBEventByType<TxOBEventType, TEventDataMap>>;
+  handlerName: string;
+  signal?: AbortSignal;
+  // 1-based attempt of the handler, counted per handler for handlers declared with a `TxOBEventHandlerConfig`
+  attempt: number;
+  // Passed to the handler as `opts.context`
+  context: Record<string, unknown>;
+};
+
+// Wraps every handler execution. Returning without calling `next` skips the handler, which then counts as succeeded
+export type TxOBHandlerMiddleware<
+  TxOBEventType extends string = string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+> = (
+  ctx: TxOBHandlerMiddlewareContext<TxOBEventType, TEventDataMap>,
+  next: () => Promise<void>,
+) => Promise<void>;
+
 export type CreateEventProcessorOptsFromSchemas<
   TEventSchemas extends TxOBEventSchemaMap<string>,
 > = Omit<
@@ -117,6 +196,10 @@ export type CreateEventProcessorOptsFromSchemas<
   pollingIntervalMs?: number;
   wakeupTimeoutMs?: number;
   wakeupThrottleMs?: number;
+  claimTimeoutMs?: number;
+  backlogStatsIntervalMs?: number;
+  // Verifies the events table in the background once started, see `EventProcessor.verifySchema`
+  schemaCheck?: TxOBSchemaCheckOpts;
   wakeupEmitter?: WakeupEmitter;
   telemetry?: TxOBTelemetry;
   eventSchemas: TEventSchemas;
@@ -127,15 +210,102 @@ export type CreateEventProcessorOptsFromSchemas<
   handlerMap: TxOBEventHandlerMapFromSchemas<TEventSchemas>;
 };
 
+export type TxOBOrderingKey = "correlation_id" | "partition_key";
+
+export type TxOBOrderingOpts = {
+  // Event field grouping events that must be processed one at a time in timestamp order
+  key: TxOBOrderingKey;
+  // "block" (default): a failing event holds back later events with the same key until it succeeds or reaches max errors
+  // "continue": later events with the same key may be processed while a failing event is backing off
+  onFailure?: "block" | "continue";
+};
+
+export type TxOBPriorityTier = {
+  // Events with a priority greater than or equal to this value belong to the tier
+  minPriority: number;
+  // Share of `maxEventConcurrency` that lower priority events can never occupy
+  reservedConcurrency: number;
+};
+
 export type TxOBProcessorClientOpts = {
   signal?: AbortSignal;
   maxErrors: number;
+  ordering?: TxOBOrderingOpts;
+  // Hand out events by descending priority, then by timestamp
+  prioritized?: boolean;
+  // Skip events whose lease is held by a processor in lease mode
+  leased?: boolean;
+  // Also read `traceparent`/`tracestate`, only set when the tracer propagates trace context
+  traced?: boolean;
+};
+
+export type TxOBLeaseOpts = {
+  // How long an event stays leased to this processor. Should exceed the longest time its handlers take
+  durationMs: number;
+  // Stamped as `locked_by`. Defaults to a random id per processor
+  workerId?: string;
+};
+
+export type TxOBLease = {
+  lockedBy: string;
+  lockedUntil: Date;
+};
+
+export type TxOBClaimEventsOpts = Omit<TxOBProcessorClientOpts, "ordering"> & {
+  limit: number;
+  // Claimed events are hidden from other processors until this date, after which they can be claimed again
+  claimedUntil: Date;
+};
+
+export type TxOBUnlockedEvent<
+  TxOBEventType extends string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+> = Pick<TxOBEventByType<TxOBEventType, TEventDataMap>, "id" | "errors"> &
+  Partial<
+    Pick<
+      TxOBEventByType<TxOBEventType, TEventDataMap>,
+      TxOBOrderingKey | "priority"
+    >
+  >;
+
+// Backlog of a single event type
+export type TxOBBacklogStats = {
+  type: string;
+  // Unprocessed events below `maxErrors`, including scheduled and backed off ones
+  pending: number;
+  // Pending events that failed at least once
+  retrying: number;
+  // Events that reached `maxErrors`
+  deadLettered: number;
+  oldestPendingAt: Date | null;
+};
+
+export type TxOBVerifySchemaOpts = Omit<TxOBProcessorClientOpts, "maxErrors"> & {
+  // Also check what the wakeup trigger needs when the processor listens for wakeup signals
+  wakeup?: boolean;
+};
+
+// Something the events table is missing compared to what the processor is configured to use
+export type TxOBSchemaDriftIssue = {
+  kind: "table" | "column" | "index" | "trigger";
+  name: string;
+  // Describes the problem and how to fix it
+  message: string;
+};
+
+export type TxOBSchemaCheckOpts = {
+  // Stops the processor when drift is found instead of only logging warnings
+  failOnDrift?: boolean;
 };
 
 export interface WakeupEmitter {
   on(event: "wakeup", listener: () => void): void;
   off(event: "wakeup", listener: () => void): void;
   close(): Promise<void>;
+  // Whether signals can currently be received. Emitters without it are reported as connected
+  isConnected?(): boolean;
+  // Registers a listener for connection failures, signals are missed until the emitter recovers
+  onError?(listener: (error: unknown) => void): void;
 }
 
 export interface TxOBProcessorClient<
@@ -144,7 +314,24 @@ export interface TxOBProcessorClient<
 > {
   getEventsToProcess(
     opts: TxOBProcessorClientOpts,
-  ): Promise<Pick<TxOBEventByType<TxOBEventType, TEventDataMap>, "id" | "errors">[]>;
+  ): Promise<TxOBUnlockedEvent<TxOBEventType, TEventDataMap>[]>;
+  // Earliest `available_at` of the pending events that are not available yet
+  getNextAvailableAt?(opts: TxOBProcessorClientOpts): Promise<Date | null>;
+  // Counts events by type for the backlog gauges. Only types with pending or dead-lettered events are reported
+  getBacklogStats?(opts: TxOBProcessorClientOpts): Promise<TxOBBacklogStats[]>;
+  // Atomically claims up to `limit` events that are ready to process by setting their `backoff_until` to `claimedUntil`
+  // When implemented, the processor claims events in batches instead of locking each event with `getEventByIdForUpdateSkipLocked`
+  claimEventsToProcess?(
+    opts: TxOBClaimEventsOpts,
+  ): Promise<TxOBEventByType<TxOBEventType, TEventDataMap>[]>;
+  // Lease mode: stamps `locked_by`/`locked_until` on the event when it is ready to process and not leased by another
+  // processor (or its lease expired). Must commit right away rather than holding a transaction open
+  leaseEvent?(
+    eventId: TxOBEventByType<TxOBEventType, TEventDataMap>["id"],
+    opts: TxOBProcessorClientOpts & TxOBLease,
+  ): Promise<TxOBEventByType<TxOBEventType, TEventDataMap> | null>;
+  // Compares the events table with what the processor needs, see `EventProcessor.verifySchema`
+  verifySchema?(opts: TxOBVerifySchemaOpts): Promise<TxOBSchemaDriftIssue[]>;
   transaction(
     fn: (
       txProcessorClient: TxOBTransactionProcessorClient<TxOBEventType, TEventDataMap>,
@@ -161,6 +348,19 @@ export interface TxOBTransactionProcessorClient<
     opts: TxOBProcessorClientOpts,
   ): Promise<TxOBEventByType<TxOBEventType, TEventDataMap> | null>;
   updateEvent(event: TxOBEventByType<TxOBEventType, TEventDataMap>): Promise<void>;
+  // Batch claiming: writes the results like `updateEvent`, but only while `backoff_until` still equals the
+  // `claimedUntil` the event was claimed with. Resolves `false` without writing when the claim expired and
+  // another processor claimed the event
+  updateClaimedEvent?(
+    event: TxOBEventByType<TxOBEventType, TEventDataMap>,
+    claimedUntil: Date,
+  ): Promise<boolean>;
+  // Lease mode: writes the results like `updateEvent` and releases the lease, but only while the event still carries
+  // `lease`. Resolves `false` without writing when the lease expired and another processor leased the event
+  updateLeasedEvent?(
+    event: TxOBEventByType<TxOBEventType, TEventDataMap>,
+    lease: TxOBLease,
+  ): Promise<boolean>;
   createEvent(
     event: Omit<
       TxOBEventByType<TxOBEventType, TEventDataMap>,
@@ -191,12 +391,14 @@ export const defaultBackoff = ({
   return retryTimestamp;
 };
 const defaultPollingIntervalMs = 5_000;
-const defaultMaxErrors = 5;
+export const defaultMaxErrors = 5;
 const defaultMaxEventConcurrency = 20;
 const defaultMaxHandlerConcurrency = 10;
 const defaultMaxQueuedEvents = 500;
 const defaultWakeupTimeoutMs = 60_000;
 const defaultWakeupThrottleMs = 1_000;
+const defaultClaimTimeoutMs = 60_000;
+const defaultBacklogStatsIntervalMs = 30_000;
 
 type TxOBProcessEventsOpts<
   TxOBEventType extends string,
@@ -208,15 +410,119 @@ type TxOBProcessEventsOpts<
   logger?: Logger;
   maxEventConcurrency?: number;
   maxHandlerConcurrency?: number;
+  // Aborts the handler's signal and fails the attempt when a handler doesn't settle in time
+  handlerTimeoutMs?: number;
+  // Handler executions over the limit are deferred rather than failed
+  rateLimits?: TxOBRateLimits<TxOBEventType>;
+  // Applied in order around every handler execution, the first middleware being the outermost
+  middleware?: TxOBHandlerMiddleware<TxOBEventType, TEventDataMap>[];
   maxQueuedEvents?: number;
+  ordering?: TxOBOrderingOpts;
+  priorityTiers?: TxOBPriorityTier[];
+  lease?: TxOBLeaseOpts;
   onEventMaxErrorsReached?: (opts: {
     event: Readonly<TxOBEventByType<TxOBEventType, TEventDataMap>>;
     txClient: TxOBTransactionProcessorClient<TxOBEventType, TEventDataMap>;
     signal?: AbortSignal;
   }) => Promise<void>;
   telemetry?: TxOBTelemetryInstruments;
+  eventSchemas?: Partial<TxOBEventSchemaMap<TxOBEventType>>;
 };
 
+type TxOBSchemaIssue = {
+  message: string;
+  path?: (string | number)[];
+};
+
+const formatSchemaIssues = (
+  issues: readonly StandardSchemaV1.Issue[],
+): TxOBSchemaIssue[] =>
+  issues.map((issue) => ({
+    message: issue.message,
+    ...(issue.path && {
+      path: issue.path.map((segment) => {
+        const key = typeof segment === "object" ? segment.key : segment;
+        return typeof key === "symbol" ? key.toString() : key;
+      }),
+    }),
+  }));
+
+// Runs `run` with a child signal that is aborted when `signal` aborts or `timeoutMs` elapses
+// A handler ignoring the signal is abandoned once the timeout elapses
+const runWithTimeout = async (
+  run: (signal?: AbortSignal) => Promise<void>,
+  signal: AbortSignal | undefined,
+  timeoutMs?: number,
+): Promise<void> => {
+  if (timeoutMs === undefined) {
+    return run(signal);
+  }
+
+  const controller = new AbortController();
+  const abortFromParent = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    abortFromParent();
+  } else {
+    signal?.addEventListener("abort", abortFromParent, { once: true });
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      run(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new ErrorEventHandlerTimeout(timeoutMs);
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abortFromParent);
+  }
+};
+
+const getEventTraceContext = (
+  event: Pick<TxOBEvent<string>, "traceparent" | "tracestate">,
+): TxOBTraceContext | undefined =>
+  event.traceparent
+    ? {
+        traceparent: event.traceparent,
+        ...(event.tracestate && { tracestate: event.tracestate }),
+      }
+    : undefined;
+
+// Runs `middleware` in order around `handler`
+const runMiddleware = async <
+  TxOBEventType extends string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType>,
+>(
+  middleware: TxOBHandlerMiddleware<TxOBEventType, TEventDataMap>[],
+  ctx: TxOBHandlerMiddlewareContext<TxOBEventType, TEventDataMap>,
+  handler: () => Promise<void>,
+): Promise<void> => {
+  let dispatched = -1;
+  const dispatch = async (index: number): Promise<void> => {
+    if (index <= dispatched) {
+      throw new Error("middleware called `next` more than once");
+    }
+    dispatched = index;
+    const current = middleware[index];
+    if (!current) {
+      return handler();
+    }
+
+    return current(ctx, () => dispatch(index + 1));
+  };
+
+  return dispatch(0);
+};
+
+const getCircuitBreakerKey = (eventType: string, handlerName: string) =>
+  JSON.stringify([eventType, handlerName]);
+
 const processEvent = async <
   TxOBEventType extends string,
   TEventDataMap extends TxOBEventDataMap<TxOBEventType>,
@@ -224,12 +530,34 @@ const processEvent = async <
   client,
   handlerMap,
   unlockedEvent,
+  claimedEvent,
+  claimedUntil,
+  circuitBreakers,
+  rateLimiters,
+  emit,
   opts,
 }: {
   client: TxOBProcessorClient<TxOBEventType, TEventDataMap>;
   handlerMap: TxOBEventHandlerMap<TxOBEventType, TEventDataMap>;
-  unlockedEvent: Pick<TxOBEventByType<TxOBEventType, TEventDataMap>, "id" | "errors">;
-  opts?: Partial<TxOBProcessEventsOpts<TxOBEventType, TEventDataMap>>;
+  // Circuit breakers of handlers declared with `circuitBreaker`, keyed by `getCircuitBreakerKey`
+  circuitBreakers?: Map<string, HandlerCircuitBreaker>;
+  // Rate limiters built from the `rateLimits` option
+  rateLimiters?: {
+    handlers: Map<string, RateLimiter>;
+    eventTypes: Map<string, RateLimiter>;
+  };
+  emit?: TxOBProcessorEmit<TxOBEventType, TEventDataMap>;
+  unlockedEvent: TxOBUnlockedEvent<TxOBEventType, TEventDataMap>;
+  // Event returned by `claimEventsToProcess`, which is already hidden from other processors
+  claimedEvent?: TxOBEventByType<TxOBEventType, TEventDataMap>;
+  // `claimedUntil` the event was claimed with, the results are only written while the claim is still held
+  claimedUntil?: Date;
+  opts?: Partial<
+    Omit<TxOBProcessEventsOpts<TxOBEventType, TEventDataMap>, "lease">
+  > & {
+    // Resolved by the processor so that all of its leases are stamped with the same `workerId`
+    lease?: Required<TxOBLeaseOpts>;
+  };
 }): Promise<{ backoffUntil?: Date }> => {
   const {
     logger,
@@ -237,10 +565,15 @@ const processEvent = async <
     signal,
     backoff = defaultBackoff,
     maxHandlerConcurrency = defaultMaxHandlerConcurrency,
+    handlerTimeoutMs,
+    middleware = [],
     onEventMaxErrorsReached,
     telemetry,
+    eventSchemas,
+    lease: leaseOpts,
   } = opts ?? {};
   const eventStartedAt = Date.now();
+  const traced = isTraceContextPropagated(telemetry?.tracer);
 
   if (signal?.aborted) {
     return {};
@@ -278,317 +611,707 @@ const processEvent = async <
   let eventOutcome: TxOBTelemetryEventOutcome | undefined;
   let eventMetricAttributes: TxOBTelemetryAttributes = {};
 
-  try {
-    await client.transaction(async (txClient) => {
-      const lockedEvent = await txClient.getEventByIdForUpdateSkipLocked(
-        unlockedEvent.id,
-        { signal, maxErrors },
+  const lease: TxOBLease | undefined = leaseOpts && {
+    lockedBy: leaseOpts.workerId,
+    lockedUntil: new Date(getDate().getTime() + leaseOpts.durationMs),
+  };
+  let leaseLost = false;
+  let claimLost = false;
+  // Set once the results of the event were handed to `write`
+  let writtenEvent: TxOBEventByType<TxOBEventType, TEventDataMap> | undefined;
+  let deadLettered = false;
+
+  // Runs the handlers of a locked, claimed or leased event and writes the results with `write`
+  const handleEvent = async (
+    lockedEvent: TxOBEventByType<TxOBEventType, TEventDataMap> | null,
+    write: (
+      fn: (
+        txClient: TxOBTransactionProcessorClient<TxOBEventType, TEventDataMap>,
+      ) => Promise<void>,
+    ) => Promise<void>,
+  ): Promise<void> => {
+    if (!lockedEvent) {
+      eventOutcome = TxOBTelemetryEventOutcome.SkippedLocked;
+      logger?.debug(
+        {
+          eventId: unlockedEvent.id,
+        },
+        "skipping locked or already processed event",
       );
-      if (!lockedEvent) {
-        eventOutcome = TxOBTelemetryEventOutcome.SkippedLocked;
-        logger?.debug(
-          {
-            eventId: unlockedEvent.id,
-          },
-          "skipping locked or already processed event",
-        );
-        return;
-      }
+      return;
+    }
 
-      eventMetricAttributes = {
+    eventMetricAttributes = {
+      [TxOBTelemetryAttributeKey.EventType]: lockedEvent.type,
+    };
+    eventSpan = startTelemetrySpan(
+      telemetry,
+      TxOBTelemetrySpanName.EventProcess,
+      {
+        [TxOBTelemetryAttributeKey.EventId]: lockedEvent.id,
         [TxOBTelemetryAttributeKey.EventType]: lockedEvent.type,
-      };
-      eventSpan = startTelemetrySpan(
-        telemetry,
-        TxOBTelemetrySpanName.EventProcess,
+        [TxOBTelemetryAttributeKey.EventCorrelationId]:
+          lockedEvent.correlation_id,
+        [TxOBTelemetryAttributeKey.EventErrors]: lockedEvent.errors,
+      },
+      getEventTraceContext(lockedEvent),
+    );
+
+    // While unlikely, the following two conditions are possible if a concurrent processor finished processing this event or reaching maximum errors between the time
+    // that this processor found the event with `getEventsToProcess` and called `getEventByIdForUpdateSkipLocked`
+    // `getEventByIdForUpdateSkipLocked` should handle this in its query implementation and return null to save resources
+    if (lockedEvent.processed_at) {
+      eventOutcome = TxOBTelemetryEventOutcome.SkippedProcessed;
+      logger?.debug(
         {
-          [TxOBTelemetryAttributeKey.EventId]: lockedEvent.id,
-          [TxOBTelemetryAttributeKey.EventType]: lockedEvent.type,
-          [TxOBTelemetryAttributeKey.EventCorrelationId]:
-            lockedEvent.correlation_id,
-          [TxOBTelemetryAttributeKey.EventErrors]: lockedEvent.errors,
+          eventId: lockedEvent.id,
+          correlationId: lockedEvent.correlation_id,
         },
+        "skipping already processed event",
       );
+      return;
+    }
+    if (lockedEvent.errors >= maxErrors) {
+      eventOutcome = TxOBTelemetryEventOutcome.SkippedMaxErrors;
+      logger?.debug(
+        {
+          eventId: lockedEvent.id,
+          correlationId: lockedEvent.correlation_id,
+        },
+        "skipping event with maximum errors",
+      );
+      return;
+    }
 
-      // While unlikely, the following two conditions are possible if a concurrent processor finished processing this event or reaching maximum errors between the time
-      // that this processor found the event with `getEventsToProcess` and called `getEventByIdForUpdateSkipLocked`
-      // `getEventByIdForUpdateSkipLocked` should handle this in its query implementation and return null to save resources
-      if (lockedEvent.processed_at) {
-        eventOutcome = TxOBTelemetryEventOutcome.SkippedProcessed;
-        logger?.debug(
-          {
-            eventId: lockedEvent.id,
-            correlationId: lockedEvent.correlation_id,
-          },
-          "skipping already processed event",
-        );
-        return;
-      }
-      if (lockedEvent.errors >= maxErrors) {
-        eventOutcome = TxOBTelemetryEventOutcome.SkippedMaxErrors;
-        logger?.debug(
-          {
-            eventId: lockedEvent.id,
-            correlationId: lockedEvent.correlation_id,
-          },
-          "skipping event with maximum errors",
-        );
-        return;
-      }
+    let errored = false;
+    let maxErrorsReached = false;
 
-      let errored = false;
+    const eventHandlerMap = handlerMap[lockedEvent.type] ?? {};
 
-      const eventHandlerMap = handlerMap[lockedEvent.type] ?? {};
+    // Typescript should prevent the caller from passing a handler map that doesn't specify all event types but we'll check for it anyway
+    // This is distinct from an empty handler map for an event type which is valid
+    // We just want the caller to be explicit about the event types they are interested in handling and not accidentally skip events
+    if (!(lockedEvent.type in handlerMap)) {
+      logger?.warn(
+        {
+          eventId: lockedEvent.id,
+          type: lockedEvent.type,
+          correlationId: lockedEvent.correlation_id,
+        },
+        "missing event handler map",
+      );
+      errored = true;
+      lockedEvent.errors = maxErrors;
+    }
 
-      // Typescript should prevent the caller from passing a handler map that doesn't specify all event types but we'll check for it anyway
-      // This is distinct from an empty handler map for an event type which is valid
-      // We just want the caller to be explicit about the event types they are interested in handling and not accidentally skip events
-      if (!(lockedEvent.type in handlerMap)) {
+    // Handlers receive the parsed schema output while the stored event keeps the original data
+    let handlerEvent = lockedEvent;
+    let invalidData = false;
+    const eventSchema = eventSchemas?.[lockedEvent.type];
+    if (eventSchema && !errored) {
+      const result = await eventSchema["~standard"].validate(
+        lockedEvent.data,
+      );
+      if (result.issues) {
+        const issues = formatSchemaIssues(result.issues);
         logger?.warn(
           {
             eventId: lockedEvent.id,
             type: lockedEvent.type,
             correlationId: lockedEvent.correlation_id,
+            issues,
           },
-          "missing event handler map",
+          "event data failed schema validation",
         );
+
+        // Invalid data will never become processable on retry so every pending handler is marked unprocessable
+        for (const handlerName of Object.keys(eventHandlerMap)) {
+          const handlerResults =
+            lockedEvent.handler_results[handlerName] ?? {};
+          if (handlerResults.processed_at || handlerResults.unprocessable_at) {
+            continue;
+          }
+          handlerResults.unprocessable_at = getDate();
+          handlerResults.errors ??= [];
+          handlerResults.errors.push({
+            error: {
+              message: "event data failed schema validation",
+              issues,
+            },
+            timestamp: getDate(),
+          });
+          lockedEvent.handler_results[handlerName] = handlerResults;
+        }
+
+        invalidData = true;
         errored = true;
         lockedEvent.errors = maxErrors;
+      } else {
+        handlerEvent = {
+          ...lockedEvent,
+          data: result.value,
+        } as typeof lockedEvent;
       }
+    }
 
-      logger?.debug(
-        {
-          eventId: lockedEvent.id,
-          type: lockedEvent.type,
-          correlationId: lockedEvent.correlation_id,
-        },
-        `processing event`,
-      );
+    logger?.debug(
+      {
+        eventId: lockedEvent.id,
+        type: lockedEvent.type,
+        correlationId: lockedEvent.correlation_id,
+      },
+      `processing event`,
+    );
+    emit?.("eventClaimed", { event: lockedEvent });
+
+    const backoffs: Date[] = [];
+    const backoffErrors: unknown[] = [];
+    let latestBackoffError: unknown;
+    // Failures of handlers with their own `maxAttempts` or `backoff`, backed off per handler
+    const handlerBackoffs: {
+      config: TxOBEventHandlerConfig<TxOBEventType, TEventDataMap[TxOBEventType]>;
+      attempts: number;
+      error: unknown;
+    }[] = [];
+    // Whether a handler sharing the event `maxErrors` budget failed
+    let eventBudgetErrored = false;
+    // Set when a handler was deferred without running because of an open circuit or a rate limit
+    let deferredOutcome: TxOBTelemetryEventOutcome | undefined;
+
+    const runnableHandlerMap = invalidData ? {} : eventHandlerMap;
+    const handlerLimit = pLimit(maxHandlerConcurrency);
+    await Promise.allSettled(
+      Object.entries(runnableHandlerMap).map(([handlerName, handler]) =>
+        handlerLimit(async (): Promise<void> => {
+          const handlerMetricAttributes = {
+            [TxOBTelemetryAttributeKey.EventType]: lockedEvent.type,
+            [TxOBTelemetryAttributeKey.HandlerName]: handlerName,
+          };
+          const config = typeof handler === "function" ? undefined : handler;
+          const runHandler =
+            typeof handler === "function" ? handler : handler.handler;
+          const handlerResults =
+            lockedEvent.handler_results[handlerName] ?? {};
+          if (handlerResults.processed_at) {
+            logger?.debug(
+              {
+                eventId: lockedEvent.id,
+                type: lockedEvent.type,
+                handlerName,
+                correlationId: lockedEvent.correlation_id,
+              },
+              "handler already processed",
+            );
+            recordTelemetryCounter(telemetry?.handlerCounter, telemetry, {
+              ...handlerMetricAttributes,
+              [TxOBTelemetryAttributeKey.HandlerOutcome]:
+                TxOBTelemetryHandlerOutcome.SkippedProcessed,
+            });
+            return;
+          }
+          if (handlerResults.unprocessable_at) {
+            logger?.debug(
+              {
+                eventId: lockedEvent.id,
+                type: lockedEvent.type,
+                handlerName,
+                correlationId: lockedEvent.correlation_id,
+              },
+              "handler unprocessable",
+            );
+            recordTelemetryCounter(telemetry?.handlerCounter, telemetry, {
+              ...handlerMetricAttributes,
+              [TxOBTelemetryAttributeKey.HandlerOutcome]:
+                TxOBTelemetryHandlerOutcome.SkippedUnprocessable,
+            });
+            return;
+          }
+          if (handlerResults.exhausted_at) {
+            logger?.debug(
+              {
+                eventId: lockedEvent.id,
+                type: lockedEvent.type,
+                handlerName,
+                correlationId: lockedEvent.correlation_id,
+              },
+              "handler exhausted",
+            );
+            recordTelemetryCounter(telemetry?.handlerCounter, telemetry, {
+              ...handlerMetricAttributes,
+              [TxOBTelemetryAttributeKey.HandlerOutcome]:
+                TxOBTelemetryHandlerOutcome.SkippedExhausted,
+            });
+            return;
+          }
 
-      const backoffs: Date[] = [];
-      const backoffErrors: unknown[] = [];
-      let latestBackoffError: unknown;
+          // Rate limits and open circuits defer the handler without spending its attempts or the event errors
+          // The rate limit is checked first so a deferred handler never holds the half-open probe
+          const handlerRateLimiters = [
+            rateLimiters?.eventTypes.get(lockedEvent.type),
+            rateLimiters?.handlers.get(handlerName),
+          ].filter((rateLimiter) => rateLimiter !== undefined);
+          if (!RateLimiter.tryTake(handlerRateLimiters)) {
+            logger?.debug(
+              {
+                eventId: lockedEvent.id,
+                type: lockedEvent.type,
+                handlerName,
+                correlationId: lockedEvent.correlation_id,
+              },
+              "handler rate limited",
+            );
+            recordTelemetryCounter(telemetry?.handlerCounter, telemetry, {
+              ...handlerMetricAttributes,
+              [TxOBTelemetryAttributeKey.HandlerOutcome]:
+                TxOBTelemetryHandlerOutcome.SkippedRateLimited,
+            });
+            deferredOutcome = TxOBTelemetryEventOutcome.RateLimited;
+            backoffs.push(
+              ...handlerRateLimiters.map((rateLimiter) =>
+                rateLimiter.getRetryAt(),
+              ),
+            );
+            return;
+          }
 
-      const handlerLimit = pLimit(maxHandlerConcurrency);
-      await Promise.allSettled(
-        Object.entries(eventHandlerMap).map(([handlerName, handler]) =>
-          handlerLimit(async (): Promise<void> => {
-            const handlerMetricAttributes = {
+          const circuitBreaker = circuitBreakers?.get(
+            getCircuitBreakerKey(lockedEvent.type, handlerName),
+          );
+          if (circuitBreaker && !circuitBreaker.tryAcquire()) {
+            logger?.debug(
+              {
+                eventId: lockedEvent.id,
+                type: lockedEvent.type,
+                handlerName,
+                correlationId: lockedEvent.correlation_id,
+              },
+              "handler circuit open",
+            );
+            recordTelemetryCounter(telemetry?.handlerCounter, telemetry, {
+              ...handlerMetricAttributes,
+              [TxOBTelemetryAttributeKey.HandlerOutcome]:
+                TxOBTelemetryHandlerOutcome.SkippedCircuitOpen,
+            });
+            deferredOutcome = TxOBTelemetryEventOutcome.CircuitOpen;
+            backoffs.push(circuitBreaker.getRetryAt());
+            return;
+          }
+
+          handlerResults.errors ??= [];
+          if (config) {
+            handlerResults.attempts = (handlerResults.attempts ?? 0) + 1;
+          }
+          const handlerStartedAt = Date.now();
+          const handlerSpan = startTelemetrySpan(
+            telemetry,
+            TxOBTelemetrySpanName.HandlerProcess,
+            {
+              [TxOBTelemetryAttributeKey.EventId]: lockedEvent.id,
               [TxOBTelemetryAttributeKey.EventType]: lockedEvent.type,
+              [TxOBTelemetryAttributeKey.EventCorrelationId]:
+                lockedEvent.correlation_id,
               [TxOBTelemetryAttributeKey.HandlerName]: handlerName,
-            };
-            const handlerResults =
-              lockedEvent.handler_results[handlerName] ?? {};
-            if (handlerResults.processed_at) {
-              logger?.debug(
-                {
-                  eventId: lockedEvent.id,
-                  type: lockedEvent.type,
+            },
+            getEventTraceContext(lockedEvent),
+          );
+          let handlerOutcome: TxOBTelemetryHandlerOutcome =
+            TxOBTelemetryHandlerOutcome.Success;
+          let handlerError: unknown;
+
+          try {
+            await runWithTimeout(
+              (handlerSignal) => {
+                if (middleware.length === 0) {
+                  return runHandler(handlerEvent, { signal: handlerSignal });
+                }
+
+                const ctx: TxOBHandlerMiddlewareContext<
+                  TxOBEventType,
+                  TEventDataMap
+                > = {
+                  event: handlerEvent as Readonly<
+                    TxOBEventByType<TxOBEventType, TEventDataMap>
+                  >,
                   handlerName,
-                  correlationId: lockedEvent.correlation_id,
-                },
-                "handler already processed",
-              );
-              recordTelemetryCounter(telemetry?.handlerCounter, telemetry, {
-                ...handlerMetricAttributes,
-                [TxOBTelemetryAttributeKey.HandlerOutcome]:
-                  TxOBTelemetryHandlerOutcome.SkippedProcessed,
+                  signal: handlerSignal,
+                  attempt: handlerResults.attempts ?? lockedEvent.errors + 1,
+                  context: {},
+                };
+
+                return runMiddleware(middleware, ctx, () =>
+                  runHandler(handlerEvent, {
+                    signal: handlerSignal,
+                    context: ctx.context,
+                  }),
+                );
+              },
+              signal,
+              config?.timeoutMs ?? handlerTimeoutMs,
+            );
+            circuitBreaker?.recordSuccess();
+            handlerResults.processed_at = getDate();
+            emit?.("handlerSucceeded", {
+              event: lockedEvent,
+              handlerName,
+              durationMs: Date.now() - handlerStartedAt,
+            });
+            logger?.debug(
+              {
+                eventId: lockedEvent.id,
+                type: lockedEvent.type,
+                handlerName,
+                correlationId: lockedEvent.correlation_id,
+              },
+              "handler succeeded",
+            );
+          } catch (error) {
+            handlerError = error;
+            const ownBudget = config?.maxAttempts !== undefined;
+            if (config && (ownBudget || config.backoff)) {
+              handlerBackoffs.push({
+                config,
+                attempts: handlerResults.attempts ?? 1,
+                error,
               });
-              return;
+            } else {
+              latestBackoffError = error;
+              backoffErrors.push(error);
             }
-            if (handlerResults.unprocessable_at) {
-              logger?.debug(
-                {
-                  eventId: lockedEvent.id,
-                  type: lockedEvent.type,
-                  handlerName,
-                  correlationId: lockedEvent.correlation_id,
-                },
-                "handler unprocessable",
-              );
-              recordTelemetryCounter(telemetry?.handlerCounter, telemetry, {
-                ...handlerMetricAttributes,
-                [TxOBTelemetryAttributeKey.HandlerOutcome]:
-                  TxOBTelemetryHandlerOutcome.SkippedUnprocessable,
-              });
-              return;
+            if (!ownBudget) {
+              eventBudgetErrored = true;
             }
-
-            handlerResults.errors ??= [];
-            const handlerStartedAt = Date.now();
-            const handlerSpan = startTelemetrySpan(
-              telemetry,
-              TxOBTelemetrySpanName.HandlerProcess,
+            logger?.error(
               {
-                [TxOBTelemetryAttributeKey.EventId]: lockedEvent.id,
-                [TxOBTelemetryAttributeKey.EventType]: lockedEvent.type,
-                [TxOBTelemetryAttributeKey.EventCorrelationId]:
-                  lockedEvent.correlation_id,
-                [TxOBTelemetryAttributeKey.HandlerName]: handlerName,
+                eventId: lockedEvent.id,
+                type: lockedEvent.type,
+                handlerName,
+                error,
+                correlationId: lockedEvent.correlation_id,
               },
+              "handler errored",
             );
-            let handlerOutcome: TxOBTelemetryHandlerOutcome =
-              TxOBTelemetryHandlerOutcome.Success;
-            let handlerError: unknown;
-
-            try {
-              await handler(lockedEvent, { signal });
-              handlerResults.processed_at = getDate();
-              logger?.debug(
-                {
-                  eventId: lockedEvent.id,
-                  type: lockedEvent.type,
-                  handlerName,
-                  correlationId: lockedEvent.correlation_id,
-                },
-                "handler succeeded",
-              );
-            } catch (error) {
-              handlerError = error;
-              latestBackoffError = error;
-              backoffErrors.push(error);
-              logger?.error(
-                {
-                  eventId: lockedEvent.id,
-                  type: lockedEvent.type,
-                  handlerName,
-                  error,
-                  correlationId: lockedEvent.correlation_id,
-                },
-                "handler errored",
-              );
 
-              if (error instanceof ErrorUnprocessableEventHandler) {
-                handlerOutcome = TxOBTelemetryHandlerOutcome.Unprocessable;
-                handlerResults.unprocessable_at = getDate();
-                handlerResults.errors?.push({
-                  error: error.message ?? error,
-                  timestamp: getDate(),
-                });
-                errored = true;
-              } else {
-                handlerOutcome = TxOBTelemetryHandlerOutcome.Error;
-                if (error instanceof TxOBError && error.backoffUntil) {
-                  backoffs.push(error.backoffUntil);
-                }
+            if (error instanceof ErrorUnprocessableEventHandler) {
+              // The event is at fault rather than the downstream, so the circuit stays healthy
+              circuitBreaker?.recordSuccess();
+              handlerOutcome = TxOBTelemetryHandlerOutcome.Unprocessable;
+              handlerResults.unprocessable_at = getDate();
+              handlerResults.errors?.push({
+                error: error.message ?? error,
+                timestamp: getDate(),
+              });
+              errored = true;
+            } else {
+              circuitBreaker?.recordFailure();
+              handlerOutcome =
+                error instanceof ErrorEventHandlerTimeout
+                  ? TxOBTelemetryHandlerOutcome.Timeout
+                  : TxOBTelemetryHandlerOutcome.Error;
+              if (error instanceof TxOBError && error.backoffUntil) {
+                backoffs.push(error.backoffUntil);
+              }
 
-                errored = true;
-                handlerResults.errors?.push({
-                  error: (error as Error)?.message ?? error,
-                  timestamp: getDate(),
-                });
+              errored = true;
+              handlerResults.errors?.push({
+                error:
+                  error instanceof ErrorEventHandlerTimeout
+                    ? { message: error.message, timeoutMs: error.timeoutMs }
+                    : ((error as Error)?.message ?? error),
+                timestamp: getDate(),
+              });
+              if (
+                config?.maxAttempts !== undefined &&
+                (handlerResults.attempts ?? 0) >= config.maxAttempts
+              ) {
+                handlerResults.exhausted_at = getDate();
+                logger?.warn(
+                  {
+                    eventId: lockedEvent.id,
+                    type: lockedEvent.type,
+                    handlerName,
+                    attempts: handlerResults.attempts,
+                    correlationId: lockedEvent.correlation_id,
+                  },
+                  "handler exhausted its attempts",
+                );
               }
-            } finally {
-              const handlerAttributes = {
-                ...handlerMetricAttributes,
-                [TxOBTelemetryAttributeKey.HandlerOutcome]: handlerOutcome,
-              };
-              recordTelemetryCounter(
-                telemetry?.handlerCounter,
-                telemetry,
-                handlerAttributes,
-              );
-              recordTelemetryDuration(
-                telemetry?.handlerDuration,
-                telemetry,
-                handlerStartedAt,
-                handlerAttributes,
-              );
-              endTelemetrySpan(handlerSpan, handlerError);
             }
+            emit?.("handlerFailed", {
+              event: lockedEvent,
+              handlerName,
+              error,
+              outcome: handlerOutcome,
+              durationMs: Date.now() - handlerStartedAt,
+            });
+          } finally {
+            const handlerAttributes = {
+              ...handlerMetricAttributes,
+              [TxOBTelemetryAttributeKey.HandlerOutcome]: handlerOutcome,
+            };
+            recordTelemetryCounter(
+              telemetry?.handlerCounter,
+              telemetry,
+              handlerAttributes,
+            );
+            recordTelemetryDuration(
+              telemetry?.handlerDuration,
+              telemetry,
+              handlerStartedAt,
+              handlerAttributes,
+            );
+            endTelemetrySpan(handlerSpan, handlerError);
+          }
 
-            lockedEvent.handler_results[handlerName] = handlerResults;
-          }),
-        ),
-      );
+          lockedEvent.handler_results[handlerName] = handlerResults;
+        }),
+      ),
+    );
+
+    // Check if all remaining handlers (those that haven't succeeded) are unprocessable or exhausted
+    // If so, there's nothing left to retry, so set errors to maxErrors to stop processing
+    const remainingHandlers = Object.entries(eventHandlerMap).filter(
+      ([handlerName, _]) => {
+        const result = lockedEvent.handler_results[handlerName];
+        return !result?.processed_at;
+      },
+    );
+
+    const allRemainingHandlersTerminal =
+      remainingHandlers.length > 0 &&
+      remainingHandlers.every(([handlerName, _]) => {
+        const result = lockedEvent.handler_results[handlerName];
+        return result?.unprocessable_at || result?.exhausted_at;
+      });
+
+    if (allRemainingHandlersTerminal) {
+      lockedEvent.errors = maxErrors;
+      errored = true;
+    }
 
-      // Check if all remaining handlers (those that haven't succeeded) are unprocessable
-      // If so, there's nothing left to retry, so set errors to maxErrors to stop processing
-      const remainingHandlers = Object.entries(eventHandlerMap).filter(
-        ([handlerName, _]) => {
+    if (errored || deferredOutcome) {
+      if (eventBudgetErrored) {
+        lockedEvent.errors = Math.min(lockedEvent.errors + 1, maxErrors);
+      }
+
+      // Handlers with their own `maxAttempts` keep the event pending once the shared budget ran out,
+      // so the handlers sharing it are given up on individually instead
+      const ownBudgetHandlersPending = remainingHandlers.some(
+        ([handlerName, handler]) => {
           const result = lockedEvent.handler_results[handlerName];
-          return !result?.processed_at;
+          return (
+            typeof handler !== "function" &&
+            handler.maxAttempts !== undefined &&
+            !result?.unprocessable_at &&
+            !result?.exhausted_at
+          );
         },
       );
-
-      const allRemainingHandlersUnprocessable =
-        remainingHandlers.length > 0 &&
-        remainingHandlers.every(([handlerName, _]) => {
-          const result = lockedEvent.handler_results[handlerName];
-          return result?.unprocessable_at;
-        });
-
-      if (allRemainingHandlersUnprocessable) {
-        lockedEvent.errors = maxErrors;
-        errored = true;
+      if (lockedEvent.errors === maxErrors && ownBudgetHandlersPending) {
+        for (const [handlerName, handler] of remainingHandlers) {
+          const result = lockedEvent.handler_results[handlerName] ?? {};
+          if (
+            (typeof handler === "function" ||
+              handler.maxAttempts === undefined) &&
+            !result.unprocessable_at
+          ) {
+            result.exhausted_at ??= getDate();
+            lockedEvent.handler_results[handlerName] = result;
+          }
+        }
+        lockedEvent.errors = maxErrors - 1;
       }
 
-      if (errored) {
-        lockedEvent.errors = Math.min(lockedEvent.errors + 1, maxErrors);
+      const clonedEvent = deepClone(lockedEvent) as Readonly<
+        TxOBEventByType<TxOBEventType, TEventDataMap>
+      >;
+      if (
+        backoffErrors.length > 0 ||
+        (handlerBackoffs.length === 0 && !deferredOutcome)
+      ) {
         const backoffContext: TxOBBackoffContext<TxOBEventType, TEventDataMap> = {
           attempt: lockedEvent.errors,
           error: latestBackoffError,
           errors: backoffErrors,
-          event: deepClone(lockedEvent) as Readonly<
-            TxOBEventByType<TxOBEventType, TEventDataMap>
-          >,
+          event: clonedEvent,
           maxErrors,
         };
         backoffs.push(
           backoff(backoffContext),
         );
-        const latestBackoff = backoffs.sort(
-          (a, b) => b.getTime() - a.getTime(),
-        )[0];
-        lockedEvent.backoff_until = latestBackoff;
-        if (lockedEvent.errors === maxErrors) {
-          lockedEvent.backoff_until = null;
-          lockedEvent.processed_at = getDate();
-
-          if (onEventMaxErrorsReached) {
-            try {
-              await onEventMaxErrorsReached({
-                event: deepClone(lockedEvent) as Readonly<
-                  TxOBEventByType<TxOBEventType, TEventDataMap>
-                >,
-                txClient,
-                signal,
-              });
-            } catch (hookError) {
-              logger?.error(
-                {
-                  eventId: lockedEvent.id,
-                  error: hookError,
-                },
-                "error in onEventMaxErrorsReached hook",
-              );
-
-              throw hookError;
-            }
-          }
-        }
-      } else {
+      }
+      for (const { config, attempts, error } of handlerBackoffs) {
+        const handlerBackoff = config.backoff ?? backoff;
+        backoffs.push(
+          handlerBackoff({
+            attempt: attempts,
+            error,
+            errors: [error],
+            event: clonedEvent,
+            maxErrors: config.maxAttempts ?? maxErrors,
+          }),
+        );
+      }
+      const latestBackoff = backoffs.sort(
+        (a, b) => b.getTime() - a.getTime(),
+      )[0];
+      lockedEvent.backoff_until = latestBackoff;
+      if (lockedEvent.errors === maxErrors) {
         lockedEvent.backoff_until = null;
         lockedEvent.processed_at = getDate();
+        maxErrorsReached = true;
       }
+    } else {
+      lockedEvent.backoff_until = null;
+      lockedEvent.processed_at = getDate();
+    }
 
-      eventOutcome = errored
+    eventOutcome = invalidData
+      ? TxOBTelemetryEventOutcome.InvalidData
+      : errored
         ? lockedEvent.errors === maxErrors
           ? TxOBTelemetryEventOutcome.MaxErrors
           : TxOBTelemetryEventOutcome.Error
-        : TxOBTelemetryEventOutcome.Success;
-      setTelemetrySpanAttributes(eventSpan, {
-        [TxOBTelemetryAttributeKey.EventOutcome]: eventOutcome,
-        [TxOBTelemetryAttributeKey.EventErrors]: lockedEvent.errors,
-      });
+        : (deferredOutcome ?? TxOBTelemetryEventOutcome.Success);
+    setTelemetrySpanAttributes(eventSpan, {
+      [TxOBTelemetryAttributeKey.EventOutcome]: eventOutcome,
+      [TxOBTelemetryAttributeKey.EventErrors]: lockedEvent.errors,
+    });
 
-      backoffUntil = lockedEvent.backoff_until ?? undefined;
+    backoffUntil = lockedEvent.backoff_until ?? undefined;
 
-      await txClient.updateEvent(lockedEvent);
+    await write(async (txClient) => {
+      if (maxErrorsReached && onEventMaxErrorsReached) {
+        try {
+          await onEventMaxErrorsReached({
+            event: deepClone(lockedEvent) as Readonly<
+              TxOBEventByType<TxOBEventType, TEventDataMap>
+            >,
+            txClient,
+            signal,
+          });
+        } catch (hookError) {
+          logger?.error(
+            {
+              eventId: lockedEvent.id,
+              error: hookError,
+            },
+            "error in onEventMaxErrorsReached hook",
+          );
+
+          throw hookError;
+        }
+      }
+
+      if (claimedUntil) {
+        if (!txClient.updateClaimedEvent) {
+          throw new Error(
+            "batch claiming requires a client that implements `updateClaimedEvent`",
+          );
+        }
+        if (!(await txClient.updateClaimedEvent(lockedEvent, claimedUntil))) {
+          // Throwing rolls back anything written by the `onEventMaxErrorsReached` hook
+          claimLost = true;
+          throw new Error(`claim on event '${lockedEvent.id}' was lost`);
+        }
+        return;
+      }
+      if (!lease) {
+        await txClient.updateEvent(lockedEvent);
+        return;
+      }
+      if (!txClient.updateLeasedEvent) {
+        throw new Error(
+          "lease mode requires a client that implements `updateLeasedEvent`",
+        );
+      }
+      if (!(await txClient.updateLeasedEvent(lockedEvent, lease))) {
+        // Throwing rolls back anything written by the `onEventMaxErrorsReached` hook
+        leaseLost = true;
+        throw new Error(`lease on event '${lockedEvent.id}' was lost`);
+      }
     });
+    writtenEvent = lockedEvent;
+    deadLettered = maxErrorsReached;
+  };
+
+  try {
+    if (lease) {
+      if (!client.leaseEvent) {
+        throw new Error("lease mode requires a client that implements `leaseEvent`");
+      }
+      // Handlers run outside of any transaction. Only leasing and writing back the results are transactional
+      const leasedEvent = await client.leaseEvent(unlockedEvent.id, {
+        signal,
+        maxErrors,
+        ...(traced && { traced }),
+        ...lease,
+      });
+      try {
+        await handleEvent(leasedEvent, (fn) => client.transaction(fn));
+      } catch (error) {
+        if (!leaseLost) {
+          throw error;
+        }
+        eventOutcome = TxOBTelemetryEventOutcome.LeaseLost;
+        setTelemetrySpanAttributes(eventSpan, {
+          [TxOBTelemetryAttributeKey.EventOutcome]:
+            TxOBTelemetryEventOutcome.LeaseLost,
+        });
+        backoffUntil = undefined;
+        logger?.warn(
+          {
+            eventId: unlockedEvent.id,
+            lockedBy: lease.lockedBy,
+          },
+          "lease expired and was taken over by another processor, discarding results",
+        );
+      }
+    } else {
+      try {
+        await client.transaction(async (txClient) => {
+          const lockedEvent =
+            claimedEvent ??
+            (await txClient.getEventByIdForUpdateSkipLocked(unlockedEvent.id, {
+              signal,
+              maxErrors,
+              ...(traced && { traced }),
+            }));
+          await handleEvent(lockedEvent, (fn) => fn(txClient));
+        });
+      } catch (error) {
+        if (!claimLost) {
+          throw error;
+        }
+        eventOutcome = TxOBTelemetryEventOutcome.ClaimLost;
+        setTelemetrySpanAttributes(eventSpan, {
+          [TxOBTelemetryAttributeKey.EventOutcome]:
+            TxOBTelemetryEventOutcome.ClaimLost,
+        });
+        backoffUntil = undefined;
+        logger?.warn(
+          {
+            eventId: unlockedEvent.id,
+            claimedUntil,
+          },
+          "claim expired and the event was claimed by another processor, discarding results",
+        );
+      }
+    }
+
+    // Results are only reported once committed
+    if (writtenEvent && eventOutcome) {
+      emit?.("eventCompleted", {
+        event: writtenEvent,
+        outcome: eventOutcome,
+        durationMs: Date.now() - eventStartedAt,
+      });
+      if (deadLettered) {
+        emit?.("eventDeadLettered", { event: writtenEvent });
+      }
+    }
   } catch (error) {
     eventError = error;
-    eventOutcome ??= TxOBTelemetryEventOutcome.Error;
+    eventOutcome = TxOBTelemetryEventOutcome.Error;
     throw error;
   } finally {
     if (eventOutcome) {
@@ -621,31 +1344,134 @@ export interface Logger {
   error(message?: unknown, ...optionalParams: unknown[]): void;
 }
 
+export type TxOBProcessorState = "stopped" | "started" | "stopping";
+
+// Payloads of the lifecycle events emitted by `EventProcessor`. Events are passed by reference and must not be mutated
+export type TxOBProcessorEventMap<
+  TxOBEventType extends string = string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+> = {
+  // A poll finished, including polls skipped because the queue is full
+  poll: {
+    outcome: TxOBTelemetryPollOutcome;
+    found: number;
+    queued: number;
+    durationMs: number;
+  };
+  // The event was locked, claimed or leased and its handlers are about to run
+  eventClaimed: {
+    event: TxOBEventByType<TxOBEventType, TEventDataMap>;
+  };
+  handlerSucceeded: {
+    event: TxOBEventByType<TxOBEventType, TEventDataMap>;
+    handlerName: string;
+    durationMs: number;
+  };
+  handlerFailed: {
+    event: TxOBEventByType<TxOBEventType, TEventDataMap>;
+    handlerName: string;
+    error: unknown;
+    outcome: TxOBTelemetryHandlerOutcome;
+    durationMs: number;
+  };
+  // The results of processing the event were committed
+  eventCompleted: {
+    event: TxOBEventByType<TxOBEventType, TEventDataMap>;
+    outcome: TxOBTelemetryEventOutcome;
+    durationMs: number;
+  };
+  // The event reached `maxErrors` and will not be retried
+  eventDeadLettered: {
+    event: TxOBEventByType<TxOBEventType, TEventDataMap>;
+  };
+  // A signal was received from the wakeup emitter
+  wakeup: Record<string, never>;
+  stateChange: { from: TxOBProcessorState; to: TxOBProcessorState };
+  // Polling or processing an event failed, both are retried
+  error: { error: unknown; eventId?: string };
+};
+
+export type TxOBProcessorHealth = {
+  state: TxOBProcessorState;
+  // False when the polling loop exited, either after `stop` or because of an unexpected error
+  pollingLoopRunning: boolean;
+  lastSuccessfulPollAt?: Date;
+  // Failed polls since the last successful one
+  consecutivePollFailures: number;
+  // Undefined without a wakeup emitter
+  wakeupEmitterConnected?: boolean;
+  // Events waiting for a free concurrency slot
+  queueDepth: number;
+  inFlightEvents: number;
+};
+
+type TxOBProcessorEmit<
+  TxOBEventType extends string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType>,
+> = <TName extends keyof TxOBProcessorEventMap<TxOBEventType, TEventDataMap>>(
+  name: TName,
+  payload: TxOBProcessorEventMap<TxOBEventType, TEventDataMap>[TName],
+) => void;
+
 export interface TxOBProcessor {
   start(): void;
   stop(opts?: { timeoutMs?: number }): Promise<void>;
 }
 
+// `limit` caps the events of a priority tier and of every lower tier together, `active` counts them
+type PriorityLimit = {
+  minPriority: number;
+  limit: number;
+  active: number;
+};
+
+const hasFreePrioritySlot = (limits: PriorityLimit[]): boolean =>
+  limits.every(({ limit, active }) => active < limit);
+
 export class EventProcessor<
   TxOBEventType extends string,
   TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
 > implements TxOBProcessor {
   private client: TxOBProcessorClient<TxOBEventType, TEventDataMap>;
   private handlerMap: TxOBEventHandlerMap<TxOBEventType, TEventDataMap>;
-  private opts: Omit<TxOBProcessEventsOpts<TxOBEventType, TEventDataMap>, "signal"> & {
+  private opts: Omit<
+    TxOBProcessEventsOpts<TxOBEventType, TEventDataMap>,
+    "signal" | "lease"
+  > & {
+    lease?: Required<TxOBLeaseOpts>;
     pollingIntervalMs: number;
     maxQueuedEvents: number;
     wakeupTimeoutMs: number;
     wakeupThrottleMs: number;
+    claimTimeoutMs: number;
+    backlogStatsIntervalMs: number;
+    schemaCheck?: TxOBSchemaCheckOpts;
   };
   private abortController: AbortController;
   private queue: PQueue;
-  private state: "stopped" | "started" | "stopping" = "stopped";
+  // Sorted by descending `minPriority` with a trailing catch-all tier for the remaining events
+  private priorityLimits?: PriorityLimit[];
+  // Events waiting for a free slot in the limits of their tier, started in order as slots free up
+  private priorityBacklog: { limits: PriorityLimit[]; start: () => void }[] =
+    [];
+  private state: TxOBProcessorState = "stopped";
+  private emitter = new EventEmitter();
   private wakeupEmitter?: WakeupEmitter;
   private wakeupListener?: () => void;
   private throttledPoll?: ReturnType<typeof throttle>;
   private lastWakeupTime: number = Date.now();
   private isPolling: boolean = false;
+  private pollingLoopRunning = false;
+  private lastSuccessfulPollAt?: Date;
+  private consecutivePollFailures = 0;
+  // Refreshed every `backlogStatsIntervalMs` while started when the backlog gauges are recorded
+  private observesBacklog = false;
+  private backlogStats?: TxOBBacklogStats[];
+  private circuitBreakers = new Map<string, HandlerCircuitBreaker>();
+  private rateLimiters = {
+    handlers: new Map<string, RateLimiter>(),
+    eventTypes: new Map<string, RateLimiter>(),
+  };
 
   constructor({
     client,
@@ -660,6 +1486,9 @@ export class EventProcessor<
     pollingIntervalMs?: number;
     wakeupTimeoutMs?: number;
     wakeupThrottleMs?: number;
+    claimTimeoutMs?: number;
+    backlogStatsIntervalMs?: number;
+    schemaCheck?: TxOBSchemaCheckOpts;
     wakeupEmitter?: WakeupEmitter;
     telemetry?: TxOBTelemetry;
   } & {
@@ -675,9 +1504,20 @@ export class EventProcessor<
       maxQueuedEvents: defaultMaxQueuedEvents,
       wakeupTimeoutMs: defaultWakeupTimeoutMs,
       wakeupThrottleMs: defaultWakeupThrottleMs,
+      claimTimeoutMs: defaultClaimTimeoutMs,
+      backlogStatsIntervalMs: defaultBacklogStatsIntervalMs,
       telemetry: createTelemetryInstruments(telemetry),
       ...opts,
+      lease: opts.lease && {
+        ...opts.lease,
+        workerId: opts.lease.workerId ?? randomUUID(),
+      },
     };
+    if (_opts.lease && !client.leaseEvent) {
+      throw new Error(
+        "lease mode requires a client that implements `leaseEvent`",
+      );
+    }
     this.client = client;
     this.handlerMap = handlerMap;
     this.wakeupEmitter = wakeupEmitter;
@@ -686,17 +1526,181 @@ export class EventProcessor<
     this.queue = new PQueue({
       concurrency: _opts.maxEventConcurrency,
     });
+
+    const backlogGauges = client.getBacklogStats
+      ? createBacklogTelemetryGauges(telemetry)
+      : undefined;
+    if (backlogGauges) {
+      this.observesBacklog = true;
+      const observeBacklog = (
+        gauge: TxOBTelemetryObservableGauge,
+        getValue: (stats: TxOBBacklogStats) => number,
+      ) =>
+        observeTelemetryGauge(gauge, _opts.telemetry, () =>
+          (this.backlogStats ?? []).map((stats) => ({
+            value: getValue(stats),
+            attributes: { [TxOBTelemetryAttributeKey.EventType]: stats.type },
+          })),
+        );
+      observeBacklog(backlogGauges.pendingGauge, (stats) => stats.pending);
+      observeBacklog(backlogGauges.retryingGauge, (stats) => stats.retrying);
+      observeBacklog(
+        backlogGauges.deadLetteredGauge,
+        (stats) => stats.deadLettered,
+      );
+      observeBacklog(backlogGauges.oldestPendingAgeGauge, (stats) =>
+        stats.oldestPendingAt
+          ? Math.max(0, Date.now() - stats.oldestPendingAt.getTime())
+          : 0,
+      );
+    }
+
+    for (const [handlerName, rateLimit] of Object.entries(
+      _opts.rateLimits?.handlers ?? {},
+    )) {
+      this.rateLimiters.handlers.set(handlerName, new RateLimiter(rateLimit));
+    }
+    for (const [eventType, rateLimit] of Object.entries<
+      TxOBRateLimitOpts | undefined
+    >(_opts.rateLimits?.eventTypes ?? {})) {
+      if (rateLimit) {
+        this.rateLimiters.eventTypes.set(eventType, new RateLimiter(rateLimit));
+      }
+    }
+
+    for (const [eventType, eventHandlerMap] of Object.entries(
+      handlerMap as TxOBEventHandlerMap<string>,
+    )) {
+      for (const [handlerName, handler] of Object.entries(eventHandlerMap)) {
+        if (typeof handler === "function" || !handler.circuitBreaker) {
+          continue;
+        }
+        this.circuitBreakers.set(
+          getCircuitBreakerKey(eventType, handlerName),
+          new HandlerCircuitBreaker({
+            ...handler.circuitBreaker,
+            eventType,
+            handlerName,
+            logger: _opts.logger,
+            telemetry: _opts.telemetry,
+          }),
+        );
+      }
+    }
+
+    if (_opts.priorityTiers) {
+      const reservedConcurrency = _opts.priorityTiers.reduce(
+        (sum, tier) => sum + tier.reservedConcurrency,
+        0,
+      );
+      if (reservedConcurrency >= _opts.maxEventConcurrency) {
+        throw new Error(
+          `priority tiers reserve ${reservedConcurrency} of ${_opts.maxEventConcurrency} maxEventConcurrency, leaving none for lower priority events`,
+        );
+      }
+
+      // A tier together with every lower tier may occupy the queue up to `maxEventConcurrency` minus what is
+      // reserved for higher tiers, so higher priority events always find a free slot while lower tiers are saturated
+      let reservedAbove = 0;
+      this.priorityLimits = [
+        ..._opts.priorityTiers,
+        { minPriority: -Infinity, reservedConcurrency: 0 },
+      ]
+        .sort((a, b) => b.minPriority - a.minPriority)
+        .map((tier) => {
+          const limit = _opts.maxEventConcurrency - reservedAbove;
+          reservedAbove += tier.reservedConcurrency;
+          return { minPriority: tier.minPriority, limit, active: 0 };
+        });
+    }
   }
 
-  start() {
+  private enqueueEvent(
+    task: () => Promise<void>,
+    priority: number,
+  ): Promise<void> {
+    const add = () =>
+      this.queue.add(task, {
+        signal: this.abortController.signal,
+        priority,
+      });
+    if (!this.priorityLimits) {
+      return add();
+    }
+    const tierIndex = this.priorityLimits.findIndex(
+      (tier) => priority >= tier.minPriority,
+    );
+    // An event counts against the limit of its own tier and of every tier above it
+    const limits = this.priorityLimits.slice(0, tierIndex + 1);
+
+    return new Promise<void>((resolve, reject) => {
+      const start = () => {
+        for (const limit of limits) {
+          limit.active++;
+        }
+        add()
+          .then(resolve, reject)
+          .finally(() => {
+            for (const limit of limits) {
+              limit.active--;
+            }
+            this.startPriorityBacklog();
+          });
+      };
+      if (hasFreePrioritySlot(limits)) {
+        start();
+      } else {
+        this.priorityBacklog.push({ limits, start });
+      }
+    });
+  }
+
+  private startPriorityBacklog(): void {
+    this.priorityBacklog = this.priorityBacklog.filter((waiting) => {
+      if (!hasFreePrioritySlot(waiting.limits)) {
+        return true;
+      }
+      waiting.start();
+      return false;
+    });
+  }
+
+  start(): void {
     if (this.state !== "stopped") {
       this.opts.logger?.warn(`cannot start processor from '${this.state}'`);
       return;
     }
-    this.state = "started";
+    this.setState("started");
     this.opts.logger?.debug("processor started");
+    this.consecutivePollFailures = 0;
 
     const queuedEventIds: Set<string> = new Set();
+    // Ordering keys of queued or in-flight events so that events sharing a key never run concurrently
+    const queuedOrderingKeys: Set<string> = new Set();
+    const getOrderingKey = (
+      event: TxOBUnlockedEvent<TxOBEventType, TEventDataMap>,
+    ): string | undefined =>
+      this.opts.ordering
+        ? (event[this.opts.ordering.key] ?? undefined)
+        : undefined;
+
+    // Pending local wakeup for the nearest event that is not available yet
+    let scheduledWakeupAt: number | undefined;
+    const scheduleAvailabilityWakeup = (availableAt: Date) => {
+      const wakeupAt = availableAt.getTime();
+      if (scheduledWakeupAt !== undefined && scheduledWakeupAt <= wakeupAt) {
+        return;
+      }
+      scheduledWakeupAt = wakeupAt;
+      sleep(wakeupAt - Date.now(), this.abortController.signal)
+        .then(() => {
+          if (scheduledWakeupAt === wakeupAt) {
+            scheduledWakeupAt = undefined;
+          }
+          this.throttledPoll?.();
+        })
+        .catch(() => {});
+    };
 
     // Poll function that can be called from wakeup signals or polling loop
     const poll = async (): Promise<void> => {
@@ -731,28 +1735,80 @@ export class EventProcessor<
       let pollOutcome: TxOBTelemetryPollOutcome =
         TxOBTelemetryPollOutcome.Success;
       let pollError: unknown;
+      let eventsFound = 0;
+      let eventsQueued = 0;
       try {
+        // Claimed events of an ordering key that is already queued could not be processed until their claim expires,
+        // so ordered processing keeps locking events one at a time. Lease mode reserves events itself
+        const claiming =
+          !!this.client.claimEventsToProcess &&
+          !this.opts.ordering &&
+          !this.opts.lease;
+        // Claims expire after `claimTimeoutMs` even while events wait in the queue, so only as many events are
+        // claimed as can start processing right away
+        const maxEventConcurrency =
+          this.opts.maxEventConcurrency ?? defaultMaxEventConcurrency;
+        const queueCapacity = claiming
+          ? Math.min(this.opts.maxQueuedEvents, maxEventConcurrency)
+          : this.opts.maxQueuedEvents;
+
         // Skip polling if we're at capacity to prevent memory leaks
-        if (queuedEventIds.size >= this.opts.maxQueuedEvents) {
+        if (queuedEventIds.size >= queueCapacity) {
           pollOutcome = TxOBTelemetryPollOutcome.SkippedQueueFull;
           this.opts.logger?.debug(
             {
               queuedCount: queuedEventIds.size,
               maxQueuedEvents: this.opts.maxQueuedEvents,
+              ...(claiming && { maxEventConcurrency }),
             },
             "skipping poll - queue at capacity",
           );
           return;
         }
 
-        const events = await this.client.getEventsToProcess({
-          ...this.opts,
-          signal: this.abortController.signal,
-        });
+        const claimedUntil = new Date(Date.now() + this.opts.claimTimeoutMs);
+        const events: TxOBUnlockedEvent<TxOBEventType, TEventDataMap>[] =
+          claiming
+            ? await this.client.claimEventsToProcess!({
+                signal: this.abortController.signal,
+                maxErrors: this.opts.maxErrors,
+                prioritized: !!this.opts.priorityTiers,
+                ...(isTraceContextPropagated(this.opts.telemetry?.tracer) && {
+                  traced: true,
+                }),
+                limit: queueCapacity - queuedEventIds.size,
+                claimedUntil,
+              })
+            : await this.client.getEventsToProcess({
+                ...this.opts,
+                signal: this.abortController.signal,
+                prioritized: !!this.opts.priorityTiers,
+                leased: !!this.opts.lease,
+              });
 
-        const unqueuedEvents = events.filter(
-          (event) => !queuedEventIds.has(event.id),
-        );
+        const unqueuedEvents: typeof events = [];
+        for (const event of events) {
+          if (queuedEventIds.has(event.id)) {
+            continue;
+          }
+          const orderingKey = getOrderingKey(event);
+          if (orderingKey !== undefined) {
+            if (queuedOrderingKeys.has(orderingKey)) {
+              this.opts.logger?.debug(
+                {
+                  eventId: event.id,
+                  orderingKey,
+                },
+                "skipping event - ordering key already queued",
+              );
+              continue;
+            }
+            queuedOrderingKeys.add(orderingKey);
+          }
+          unqueuedEvents.push(event);
+        }
+        eventsFound = events.length;
+        eventsQueued = unqueuedEvents.length;
         setTelemetrySpanAttributes(pollSpan, {
           [TxOBTelemetryAttributeKey.EventsFound]: events.length,
           [TxOBTelemetryAttributeKey.EventsQueued]: unqueuedEvents.length,
@@ -764,54 +1820,79 @@ export class EventProcessor<
 
         for (const event of unqueuedEvents) {
           queuedEventIds.add(event.id);
-          this.queue
-            .add(
-              async () => {
-                try {
-                  const { backoffUntil } = await processEvent<
-                    TxOBEventType,
-                    TEventDataMap
-                  >({
-                    client: this.client,
-                    handlerMap: this.handlerMap,
-                    unlockedEvent: event,
-                    opts: {
-                      ...this.opts,
-                      signal: this.abortController.signal,
-                    },
-                  });
-
-                  // Simulate a local wakeup signal after the backoff period
-                  // to reduce latency on backed-off event reprocessing
-                  if (backoffUntil) {
-                    sleep(
-                      backoffUntil.getTime() - Date.now(),
-                      this.abortController.signal,
-                    )
-                      .then(() => {
-                        this.throttledPoll?.();
-                      })
-                      .catch(() => {});
-                  }
-                } catch (error) {
-                  this.opts.logger?.error(
-                    {
-                      eventId: event.id,
-                      error,
-                    },
-                    "error processing event",
-                  );
-                } finally {
-                  queuedEventIds.delete(event.id);
+          const orderingKey = getOrderingKey(event);
+          const dequeue = () => {
+            queuedEventIds.delete(event.id);
+            if (orderingKey !== undefined) {
+              queuedOrderingKeys.delete(orderingKey);
+            }
+          };
+          this.enqueueEvent(
+            async () => {
+              try {
+                const { backoffUntil } = await processEvent<
+                  TxOBEventType,
+                  TEventDataMap
+                >({
+                  client: this.client,
+                  handlerMap: this.handlerMap,
+                  unlockedEvent: event,
+                  claimedEvent: claiming
+                    ? (event as TxOBEventByType<TxOBEventType, TEventDataMap>)
+                    : undefined,
+                  claimedUntil: claiming ? claimedUntil : undefined,
+                  circuitBreakers: this.circuitBreakers,
+                  rateLimiters: this.rateLimiters,
+                  emit: this.emit,
+                  opts: {
+                    ...this.opts,
+                    signal: this.abortController.signal,
+                  },
+                });
+
+                // Simulate a local wakeup signal after the backoff period
+                // to reduce latency on backed-off event reprocessing
+                if (backoffUntil) {
+                  sleep(
+                    backoffUntil.getTime() - Date.now(),
+                    this.abortController.signal,
+                  )
+                    .then(() => {
+                      this.throttledPoll?.();
+                    })
+                    .catch(() => {});
                 }
-              },
-              { signal: this.abortController.signal },
-            )
-            .catch(() => {
-              // Handle queue.add() rejections (e.g., when aborted)
-              // The event processing error is already logged in the task's catch block
-              queuedEventIds.delete(event.id);
-            });
+              } catch (error) {
+                this.opts.logger?.error(
+                  {
+                    eventId: event.id,
+                    error,
+                  },
+                  "error processing event",
+                );
+                this.emit("error", { error, eventId: event.id });
+              } finally {
+                dequeue();
+              }
+            },
+            event.priority ?? 0,
+          ).catch(() => {
+            // Handle queue.add() rejections (e.g., when aborted)
+            // The event processing error is already logged in the task's catch block
+            dequeue();
+          });
+        }
+
+        // Simulate a local wakeup signal when the nearest scheduled event becomes available
+        // so it doesn't wait for the fallback poll
+        if (this.throttledPoll && this.client.getNextAvailableAt) {
+          const nextAvailableAt = await this.client.getNextAvailableAt({
+            ...this.opts,
+            signal: this.abortController.signal,
+          });
+          if (nextAvailableAt) {
+            scheduleAvailabilityWakeup(nextAvailableAt);
+          }
         }
       } catch (error) {
         pollOutcome = TxOBTelemetryPollOutcome.Error;
@@ -820,6 +1901,7 @@ export class EventProcessor<
           { error },
           "error polling for events, will retry",
         );
+        this.emit("error", { error });
         // Continue polling even on error
       } finally {
         recordTelemetryCounter(
@@ -839,9 +1921,25 @@ export class EventProcessor<
         );
         endTelemetrySpan(pollSpan, pollError);
         this.isPolling = false;
+        if (pollOutcome === TxOBTelemetryPollOutcome.Error) {
+          this.consecutivePollFailures++;
+        } else {
+          this.lastSuccessfulPollAt = getDate();
+          this.consecutivePollFailures = 0;
+        }
+        this.emit("poll", {
+          outcome: pollOutcome,
+          found: eventsFound,
+          queued: eventsQueued,
+          durationMs: Date.now() - pollStartedAt,
+        });
       }
     };
 
+    if (this.observesBacklog) {
+      void this.refreshBacklogStats();
+    }
+
     if (this.wakeupEmitter) {
       // Setup wakeup signal listener with combined leading and trailing edge throttle
       // Using throttle-debounce library for robust throttling behavior
@@ -869,6 +1967,7 @@ export class EventProcessor<
           return;
         }
         this.opts.logger?.debug("received wakeup signal");
+        this.emit("wakeup", {});
         this.throttledPoll?.();
       };
 
@@ -881,6 +1980,7 @@ export class EventProcessor<
       // Start fallback polling loop
       // This runs at a lower frequency and only polls if we haven't received a wakeup signal recently
       // Uses the same throttled poll function to prevent conflicts with wakeup-triggered polls
+      this.pollingLoopRunning = true;
       (async () => {
         try {
           do {
@@ -916,10 +2016,13 @@ export class EventProcessor<
           } while (!this.abortController.signal.aborted);
         } catch (error) {
           this.opts.logger?.error({ error }, "fallback polling loop error");
+        } finally {
+          this.pollingLoopRunning = false;
         }
       })();
     } else {
       // Standard polling loop
+      this.pollingLoopRunning = true;
       (async () => {
         try {
           do {
@@ -931,9 +2034,177 @@ export class EventProcessor<
           } while (!this.abortController.signal.aborted);
         } catch (error) {
           this.opts.logger?.error({ error }, "polling loop error");
+        } finally {
+          this.pollingLoopRunning = false;
         }
       })();
     }
+
+    if (this.opts.schemaCheck) {
+      this.checkSchema(this.opts.schemaCheck);
+    }
+  }
+
+  // Runs `verifySchema` without delaying `start`, stopping the processor on drift with `failOnDrift`
+  private checkSchema({ failOnDrift }: TxOBSchemaCheckOpts): void {
+    this.verifySchema()
+      .then(async (issues) => {
+        if (!failOnDrift || issues.length === 0 || this.state !== "started") {
+          return;
+        }
+        const error = new ErrorSchemaDrift(issues);
+        this.opts.logger?.error(
+          { error },
+          "stopping processor on schema drift",
+        );
+        this.emit("error", { error });
+        await this.stop();
+      })
+      .catch((error) => {
+        this.opts.logger?.error({ error }, "error checking events schema");
+      });
+  }
+
+  /**
+   * Compares the events table with what the processor is configured to use, e.g. as a deploy step or
+   * before calling `start`, which runs it in the background with the `schemaCheck` option. Every issue
+   * found is logged as a warning. Clients without `verifySchema` report no issues.
+   *
+   * @param opts - With `failOnDrift`, rejects with `ErrorSchemaDrift` when issues are found
+   * @returns The schema drift issues
+   */
+  async verifySchema(
+    opts?: TxOBSchemaCheckOpts,
+  ): Promise<TxOBSchemaDriftIssue[]> {
+    if (!this.client.verifySchema) {
+      return [];
+    }
+    const issues = await this.client.verifySchema({
+      ...(this.opts.ordering && { ordering: this.opts.ordering }),
+      prioritized: !!this.opts.priorityTiers,
+      leased: !!this.opts.lease,
+      traced: isTraceContextPropagated(this.opts.telemetry?.tracer),
+      wakeup: !!this.wakeupEmitter,
+    });
+    for (const issue of issues) {
+      this.opts.logger?.warn({ issue }, issue.message);
+    }
+    if (issues.length > 0 && opts?.failOnDrift) {
+      throw new ErrorSchemaDrift(issues);
+    }
+
+    return issues;
+  }
+
+  private async refreshBacklogStats(): Promise<void> {
+    const signal = this.abortController.signal;
+    do {
+      try {
+        const backlogStats = await this.client.getBacklogStats?.({
+          ...this.opts,
+          signal,
+        });
+        if (!signal.aborted) {
+          this.backlogStats = backlogStats;
+        }
+      } catch (error) {
+        this.opts.logger?.error(
+          { error },
+          "error getting backlog stats, will retry",
+        );
+      }
+      await sleep(this.opts.backlogStatsIntervalMs, signal).catch(() => {});
+    } while (!signal.aborted);
+  }
+
+  /**
+   * Subscribes to a lifecycle event. Listeners run synchronously while events are processed, so slow
+   * work should be deferred. Errors thrown by listeners are logged and otherwise ignored.
+   *
+   * @param name - The lifecycle event to listen to
+   * @param listener - Called with the event payload
+   * @returns The processor for chaining
+   */
+  on<TName extends keyof TxOBProcessorEventMap<TxOBEventType, TEventDataMap>>(
+    name: TName,
+    listener: (
+      payload: TxOBProcessorEventMap<TxOBEventType, TEventDataMap>[TName],
+    ) => void,
+  ): this {
+    this.emitter.on(name, listener);
+    return this;
+  }
+
+  /**
+   * Removes a listener added with `on`.
+   *
+   * @param name - The lifecycle event the listener was added for
+   * @param listener - The listener to remove
+   * @returns The processor for chaining
+   */
+  off<TName extends keyof TxOBProcessorEventMap<TxOBEventType, TEventDataMap>>(
+    name: TName,
+    listener: (
+      payload: TxOBProcessorEventMap<TxOBEventType, TEventDataMap>[TName],
+    ) => void,
+  ): this {
+    this.emitter.off(name, listener);
+    return this;
+  }
+
+  private emit: TxOBProcessorEmit<TxOBEventType, TEventDataMap> = (
+    name,
+    payload,
+  ) => {
+    // Unlike other events, an `error` without listeners would throw
+    if (name === "error" && this.emitter.listenerCount("error") === 0) {
+      return;
+    }
+    try {
+      this.emitter.emit(name, payload);
+    } catch (error) {
+      this.opts.logger?.error(
+        { error, processorEvent: name },
+        "error in processor event listener",
+      );
+    }
+  };
+
+  private setState(state: TxOBProcessorState): void {
+    const from = this.state;
+    this.state = state;
+    this.emit("stateChange", { from, to: state });
+  }
+
+  /**
+   * Reports the circuit breakers of handlers declared with `circuitBreaker`.
+   *
+   * @returns The current state of every handler circuit breaker
+   */
+  getCircuitBreakerStatus(): TxOBCircuitBreakerStatus[] {
+    return [...this.circuitBreakers.values()].map((circuitBreaker) =>
+      circuitBreaker.getStatus(),
+    );
+  }
+
+  /**
+   * Reports what liveness and readiness probes need to know about the processor.
+   * See `createHealthHandler` for HTTP endpoints built on top of it.
+   *
+   * @returns A snapshot of the processor health
+   */
+  getHealth(): TxOBProcessorHealth {
+    return {
+      state: this.state,
+      pollingLoopRunning: this.pollingLoopRunning,
+      lastSuccessfulPollAt: this.lastSuccessfulPollAt,
+      consecutivePollFailures: this.consecutivePollFailures,
+      wakeupEmitterConnected: this.wakeupEmitter
+        ? (this.wakeupEmitter.isConnected?.() ?? true)
+        : undefined,
+      queueDepth: this.queue.size + this.priorityBacklog.length,
+      inFlightEvents: this.queue.pending,
+    };
   }
 
   async stop(opts?: { timeoutMs?: number }): Promise<void> {
@@ -941,7 +2212,7 @@ export class EventProcessor<
       this.opts.logger?.warn(`cannot stop processor from '${this.state}'`);
       return;
     }
-    this.state = "stopping";
+    this.setState("stopping");
     this.opts.logger?.debug("processor stopping");
 
     const _stopOpts = {
@@ -977,7 +2248,9 @@ export class EventProcessor<
       caughtErr = error;
     }
 
-    this.state = "stopped";
+    // Stale stats are not reported while stopped
+    this.backlogStats = undefined;
+    this.setState("stopped");
     this.opts.logger?.debug("processor stopped");
 
     if (caughtErr) {
@@ -995,8 +2268,7 @@ export const createEventProcessor = <
   TxOBEventTypeFromSchemas<TEventSchemas>,
   TxOBEventDataMapFromSchemas<TEventSchemas>
 > => {
-  const { eventSchemas: _eventSchemas, ...processorOpts } = opts;
-  return new EventProcessor(processorOpts);
+  return new EventProcessor(opts);
 };
 
 export const createEventHandlerMap = <
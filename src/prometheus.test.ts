@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from "vitest";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createPrometheusHandler, PrometheusMeter } from "./prometheus.js";
+import {
+  createTelemetryInstruments,
+  recordTelemetryCounter,
+  TxOBTelemetryAttributeKey,
+  TxOBTelemetryPollOutcome,
+} from "./telemetry.js";
+
+describe("PrometheusMeter", () => {
+  it("renders counters per label set", () => {
+    const meter = new PrometheusMeter();
+    const counter = meter.createCounter("txob.poll.count", {
+      description: "Number of polls.",
+      unit: "{poll}",
+    });
+
+    counter.add(1, { "txob.poll.outcome": "success" });
+    counter.add(2, { "txob.poll.outcome": "success" });
+    counter.add(1, { "txob.poll.outcome": 'er"ror' });
+
+    expect(meter.render()).toBe(
+      [
+        "# HELP txob_poll_count_total Number of polls.",
+        "# TYPE txob_poll_count_total counter",
+        'txob_poll_count_total{txob_poll_outcome="success"} 3',
+        'txob_poll_count_total{txob_poll_outcome="er\\"ror"} 1',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renders histograms with cumulative buckets", () => {
+    const meter = new PrometheusMeter({ buckets: [100, 10] });
+    const histogram = meter.createHistogram("txob.poll.duration", {
+      unit: "ms",
+    });
+
+    histogram.record(5, { b: "2", a: "1" });
+    histogram.record(50, { a: "1", b: "2" });
+    histogram.record(500, { a: "1", b: "2" });
+
+    expect(meter.render()).toBe(
+      [
+        "# TYPE txob_poll_duration_milliseconds histogram",
+        'txob_poll_duration_milliseconds_bucket{a="1",b="2",le="10"} 1',
+        'txob_poll_duration_milliseconds_bucket{a="1",b="2",le="100"} 2',
+        'txob_poll_duration_milliseconds_bucket{a="1",b="2",le="+Inf"} 3',
+        'txob_poll_duration_milliseconds_sum{a="1",b="2"} 555',
+        'txob_poll_duration_milliseconds_count{a="1",b="2"} 3',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("invokes gauge callbacks when rendering", () => {
+    const meter = new PrometheusMeter();
+    let pending = 1;
+    meter
+      .createObservableGauge("txob.backlog.pending")
+      .addCallback((result) => result.observe(pending, { type: "a" }));
+
+    expect(meter.render()).toContain('txob_backlog_pending{type="a"} 1');
+    pending = 4;
+    expect(meter.render()).toContain('txob_backlog_pending{type="a"} 4');
+  });
+
+  it("shares series between instruments created under the same name", () => {
+    const meter = new PrometheusMeter();
+    meter.createCounter("requests").add(1);
+    meter.createCounter("requests").add(1);
+
+    expect(meter.render()).toContain("requests_total 2");
+    expect(() => meter.createObservableGauge("requests_total")).toThrow(
+      "metric requests_total is already registered as a counter",
+    );
+  });
+
+  it("backs the txob telemetry instruments", () => {
+    const meter = new PrometheusMeter();
+    const telemetry = createTelemetryInstruments({
+      meter,
+      attributes: { "service.name": "orders" },
+    });
+
+    recordTelemetryCounter(telemetry.pollCounter, telemetry, {
+      [TxOBTelemetryAttributeKey.PollOutcome]: TxOBTelemetryPollOutcome.Success,
+    });
+    telemetry.eventDuration?.record(30);
+
+    const rendered = meter.render();
+    expect(rendered).toContain(
+      'txob_poll_count_total{service_name="orders",txob_poll_outcome="success"} 1',
+    );
+    expect(rendered).toContain(
+      "# TYPE txob_event_processing_duration_milliseconds histogram",
+    );
+    expect(rendered).toContain(
+      'txob_event_processing_duration_milliseconds_bucket{le="50"} 1',
+    );
+  });
+});
+
+describe("createPrometheusHandler", () => {
+  it("responds with the rendered metrics", () => {
+    const meter = new PrometheusMeter();
+    meter.createCounter("txob.poll.count").add(1);
+    const res = {
+      writeHead: vi.fn(() => res),
+      end: vi.fn(() => res),
+    };
+
+    createPrometheusHandler({ meter })(
+      { url: "/metrics" } as IncomingMessage,
+      res as unknown as ServerResponse,
+    );
+
+    expect(res.writeHead).toHaveBeenCalledWith(200, {
+      "content-type": "text/plain; version=0.0.4; charset=utf-8",
+    });
+    expect(res.end).toHaveBeenCalledWith(
+      "# TYPE txob_poll_count_total counter\ntxob_poll_count_total 1\n",
+    );
+  });
+});
@@ -0,0 +1,281 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type {
+  TxOBTelemetryAttributes,
+  TxOBTelemetryAttributeValue,
+  TxOBTelemetryCounter,
+  TxOBTelemetryHistogram,
+  TxOBTelemetryMeter,
+  TxOBTelemetryObservableGauge,
+  TxOBTelemetryObservableResult,
+} from "./telemetry.js";
+
+export type TxOBPrometheusMeterOpts = {
+  // Upper bounds of the histogram buckets, in the unit of the instrument
+  buckets?: number[];
+};
+
+type InstrumentOptions = { description?: string; unit?: string };
+
+type Series<TValue> = {
+  labels: [string, string][];
+  value: TValue;
+};
+
+type HistogramValue = {
+  // Non-cumulative count per bucket, rendered cumulatively
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+};
+
+type GaugeCallback = (result: TxOBTelemetryObservableResult) => void;
+
+type Metric =
+  | { kind: "counter"; series: Map<string, Series<number>> }
+  | { kind: "histogram"; series: Map<string, Series<HistogramValue>> }
+  | { kind: "gauge"; callbacks: GaugeCallback[] };
+
+// Same as the OpenTelemetry SDK default explicit bucket boundaries
+const defaultBuckets = [
+  0, 5, 10, 25, 50, 75, 100, 250, 500, 750, 1000, 2500, 5000, 7500, 10000,
+];
+
+const sanitizeName = (name: string): string =>
+  name.replace(/[^a-zA-Z0-9_:]/g, "_").replace(/^([0-9])/, "_$1");
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatValue = (value: number): string =>
+  Number.isNaN(value)
+    ? "NaN"
+    : value === Infinity
+      ? "+Inf"
+      : value === -Infinity
+        ? "-Inf"
+        : String(value);
+
+const formatAttributeValue = (value: TxOBTelemetryAttributeValue): string =>
+  Array.isArray(value) ? value.join(",") : String(value);
+
+const toLabels = (
+  attributes: TxOBTelemetryAttributes = {},
+): [string, string][] =>
+  Object.entries(attributes)
+    .map(([key, value]): [string, string] => [
+      sanitizeName(key),
+      formatAttributeValue(value),
+    ])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+const formatLabels = (labels: [string, string][]): string =>
+  labels.length === 0
+    ? ""
+    : `{${labels.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+
+/**
+ * Lightweight `TxOBTelemetryMeter` keeping metrics in memory and rendering them in the Prometheus text
+ * exposition format, for services that don't run an OpenTelemetry SDK. Instrument names are converted
+ * the way the OpenTelemetry Prometheus exporter does: dots become underscores, `ms` instruments get a
+ * `_milliseconds` suffix and counters a `_total` suffix. Attributes become labels.
+ */
+export class PrometheusMeter implements TxOBTelemetryMeter {
+  private buckets: number[];
+  private metrics = new Map<
+    string,
+    { name: string; description?: string; metric: Metric }
+  >();
+
+  constructor(opts: TxOBPrometheusMeterOpts = {}) {
+    this.buckets = [...(opts.buckets ?? defaultBuckets)].sort((a, b) => a - b);
+  }
+
+  createCounter(
+    name: string,
+    options?: InstrumentOptions,
+  ): TxOBTelemetryCounter {
+    const metric = this.getMetric(
+      `${this.getName(name, options)}_total`,
+      options,
+      { kind: "counter", series: new Map() },
+    );
+
+    return {
+      add: (value, attributes) => {
+        const labels = toLabels(attributes);
+        const key = JSON.stringify(labels);
+        const series = metric.series.get(key);
+        if (series) {
+          series.value += value;
+        } else {
+          metric.series.set(key, { labels, value });
+        }
+      },
+    };
+  }
+
+  createHistogram(
+    name: string,
+    options?: InstrumentOptions,
+  ): TxOBTelemetryHistogram {
+    const metric = this.getMetric(this.getName(name, options), options, {
+      kind: "histogram",
+      series: new Map(),
+    });
+
+    return {
+      record: (value, attributes) => {
+        const labels = toLabels(attributes);
+        const key = JSON.stringify(labels);
+        let series = metric.series.get(key);
+        if (!series) {
+          series = {
+            labels,
+            value: {
+              bucketCounts: Array(this.buckets.length + 1).fill(0),
+              sum: 0,
+              count: 0,
+            },
+          };
+          metric.series.set(key, series);
+        }
+        const bucket = this.buckets.findIndex((bound) => value <= bound);
+        series.value.bucketCounts[
+          bucket === -1 ? this.buckets.length : bucket
+        ]++;
+        series.value.sum += value;
+        series.value.count++;
+      },
+    };
+  }
+
+  createObservableGauge(
+    name: string,
+    options?: InstrumentOptions,
+  ): TxOBTelemetryObservableGauge {
+    const metric = this.getMetric(this.getName(name, options), options, {
+      kind: "gauge",
+      callbacks: [] as GaugeCallback[],
+    });
+
+    return {
+      addCallback: (callback) => {
+        metric.callbacks.push(callback);
+      },
+    };
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format. Gauge callbacks are invoked here.
+   *
+   * @returns The exposition, ending with a newline
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const { name, description, metric } of this.metrics.values()) {
+      if (description) {
+        lines.push(
+          `# HELP ${name} ${description.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`,
+        );
+      }
+      lines.push(`# TYPE ${name} ${metric.kind}`);
+
+      if (metric.kind === "counter") {
+        for (const { labels, value } of metric.series.values()) {
+          lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+        }
+      } else if (metric.kind === "histogram") {
+        for (const { labels, value } of metric.series.values()) {
+          let cumulativeCount = 0;
+          [...this.buckets, Infinity].forEach((bound, i) => {
+            cumulativeCount += value.bucketCounts[i];
+            lines.push(
+              `${name}_bucket${formatLabels([...labels, ["le", formatValue(bound)]])} ${cumulativeCount}`,
+            );
+          });
+          lines.push(
+            `${name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`,
+          );
+          lines.push(`${name}_count${formatLabels(labels)} ${value.count}`);
+        }
+      } else {
+        // Later observations of the same labels replace earlier ones
+        const observations = new Map<string, Series<number>>();
+        for (const callback of metric.callbacks) {
+          callback({
+            observe: (value, attributes) => {
+              const labels = toLabels(attributes);
+              observations.set(JSON.stringify(labels), { labels, value });
+            },
+          });
+        }
+        for (const { labels, value } of observations.values()) {
+          lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+        }
+      }
+    }
+
+    return lines.length === 0 ? "" : `${lines.join("\n")}\n`;
+  }
+
+  private getName(name: string, options?: InstrumentOptions): string {
+    const sanitized = sanitizeName(name);
+    return options?.unit === "ms" && !sanitized.endsWith("_milliseconds")
+      ? `${sanitized}_milliseconds`
+      : sanitized;
+  }
+
+  // Instruments created twice under the same name share their series, like OpenTelemetry meters
+  private getMetric<TMetric extends Metric>(
+    name: string,
+    options: InstrumentOptions | undefined,
+    metric: TMetric,
+  ): TMetric {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.metric.kind !== metric.kind) {
+        throw new Error(
+          `metric ${name} is already registered as a ${existing.metric.kind}`,
+        );
+      }
+      return existing.metric as TMetric;
+    }
+    this.metrics.set(name, {
+      name,
+      description: options?.description,
+      metric,
+    });
+
+    return metric;
+  }
+}
+
+/**
+ * Creates a request handler serving the metrics of a `PrometheusMeter`, usable with `http.createServer`
+ * or mounted at `/metrics` in an existing server.
+ *
+ * @param opts - The meter to render
+ * @returns A handler responding to every request with the Prometheus text exposition
+ */
+export const createPrometheusHandler = ({
+  meter,
+}: {
+  meter: PrometheusMeter;
+}) => {
+  return (_req: IncomingMessage, res: ServerResponse): void => {
+    let body: string;
+    try {
+      body = meter.render();
+    } catch (error) {
+      res
+        .writeHead(500, { "content-type": "text/plain; charset=utf-8" })
+        .end(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    res
+      .writeHead(200, {
+        "content-type": "text/plain; version=0.0.4; charset=utf-8",
+      })
+      .end(body);
+  };
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, expectTypeOf } from "vitest";
+import { createPublishableEvent, type TxOBPublishEventInput } from "./publisher.js";
+
+const now = new Date();
+vi.mock("./date", async (getOg) => {
+  const mod = await getOg();
+  return {
+    ...(mod as Object),
+    getDate: vi.fn(() => now),
+  };
+});
+
+describe("createPublishableEvent", () => {
+  it("fills in the bookkeeping fields", () => {
+    const event = createPublishableEvent({
+      type: "evtType1",
+      data: { thing: 1 },
+    });
+
+    expect(event).toEqual({
+      id: expect.any(String),
+      timestamp: now,
+      type: "evtType1",
+      data: { thing: 1 },
+      correlation_id: expect.any(String),
+      handler_results: {},
+      errors: 0,
+    });
+    expect(event.id).not.toBe(event.correlation_id);
+  });
+
+  it("keeps provided identifiers and timestamp", () => {
+    const timestamp = new Date("2024-01-01T00:00:00.000Z");
+    const event = createPublishableEvent({
+      id: "1",
+      timestamp,
+      correlation_id: "abc123",
+      type: "evtType1",
+      data: {},
+    });
+
+    expect(event).toMatchObject({
+      id: "1",
+      timestamp,
+      correlation_id: "abc123",
+    });
+  });
+
+  it("stores the trace context of the publisher", () => {
+    const traceparent =
+      "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+    const tracer = {
+      startSpan: vi.fn(),
+      getActiveTraceContext: vi.fn(() => ({ traceparent })),
+      startSpanFromTraceContext: vi.fn(),
+    };
+
+    expect(
+      createPublishableEvent({ type: "evtType1", data: {} }, { tracer }),
+    ).toMatchObject({ traceparent });
+    expect(
+      createPublishableEvent(
+        {
+          type: "evtType1",
+          data: {},
+          traceparent: "00-explicit",
+          tracestate: "vendor=value",
+        },
+        { tracer },
+      ),
+    ).toMatchObject({ traceparent: "00-explicit", tracestate: "vendor=value" });
+    expect(
+      createPublishableEvent(
+        { type: "evtType1", data: {} },
+        { tracer: { startSpan: vi.fn() } },
+      ),
+    ).not.toHaveProperty("traceparent");
+  });
+
+  it("types event data by event type", () => {
+    type EventInput = TxOBPublishEventInput<
+      "UserCreated" | "OrderPlaced",
+      {
+        UserCreated: { userId: string };
+        OrderPlaced: { orderId: string; amount: number };
+      }
+    >;
+
+    expectTypeOf<Extract<EventInput, { type: "UserCreated" }>["data"]>()
+      .toEqualTypeOf<{ userId: string }>();
+    expectTypeOf<Extract<EventInput, { type: "OrderPlaced" }>["data"]>()
+      .toEqualTypeOf<{ orderId: string; amount: number }>();
+  });
+});
@@ -0,0 +1,96 @@
+import { randomUUID } from "node:crypto";
+import { getDate } from "./date.js";
+import type {
+  TxOBEventByType,
+  TxOBEventDataMap,
+} from "./processor.js";
+import {
+  getActiveTraceContext,
+  type TxOBTelemetryTracer,
+} from "./telemetry.js";
+
+export type TxOBPublishEventInput<
+  TxOBEventType extends string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+> = {
+  [TType in TxOBEventType]: {
+    type: TType;
+    data: TEventDataMap[TType];
+    // Defaults to a random UUID
+    id?: string;
+    // Defaults to the current date
+    timestamp?: Date;
+    // Defaults to a random UUID
+    correlation_id?: string;
+    // Groups events that must be processed in order when the processor `ordering.key` is "partition_key"
+    partition_key?: string;
+    // Higher priority events are handed out first when the processor has `priorityTiers`
+    priority?: number;
+    // Delays processing until this date
+    available_at?: Date;
+    // W3C trace context to continue when processing. Defaults to the active trace context of the publisher `tracer`
+    traceparent?: string;
+    tracestate?: string;
+  };
+}[TxOBEventType];
+
+export type TxOBPublishableEvent<
+  TxOBEventType extends string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+> = Omit<
+  TxOBEventByType<TxOBEventType, TEventDataMap>,
+  "processed_at" | "backoff_until"
+>;
+
+export interface TxOBEventPublisher<
+  TxOBEventType extends string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+  TPublishOpts = Record<string, never>,
+> {
+  publish(
+    event: TxOBPublishEventInput<TxOBEventType, TEventDataMap>,
+    opts: TPublishOpts,
+  ): Promise<TxOBPublishableEvent<TxOBEventType, TEventDataMap>>;
+}
+
+/**
+ * Fills in the bookkeeping fields of a new outbox event so that publishers only have to provide
+ * the event `type` and `data`.
+ *
+ * @param event - The event to publish
+ * @param opts - The tracer whose active trace context is stored with the event
+ * @returns The event record ready to be inserted into the events table/collection
+ */
+export const createPublishableEvent = <
+  TxOBEventType extends string,
+  TEventDataMap extends TxOBEventDataMap<TxOBEventType> = TxOBEventDataMap<TxOBEventType>,
+>(
+  event: TxOBPublishEventInput<TxOBEventType, TEventDataMap>,
+  opts: { tracer?: TxOBTelemetryTracer } = {},
+): TxOBPublishableEvent<TxOBEventType, TEventDataMap> => {
+  const traceContext =
+    event.traceparent !== undefined
+      ? { traceparent: event.traceparent, tracestate: event.tracestate }
+      : getActiveTraceContext(opts.tracer);
+
+  return {
+    id: event.id ?? randomUUID(),
+    timestamp: event.timestamp ?? getDate(),
+    type: event.type,
+    data: event.data,
+    correlation_id: event.correlation_id ?? randomUUID(),
+    ...(event.partition_key !== undefined && {
+      partition_key: event.partition_key,
+    }),
+    ...(event.priority !== undefined && { priority: event.priority }),
+    ...(event.available_at !== undefined && {
+      available_at: event.available_at,
+    }),
+    ...(traceContext && { traceparent: traceContext.traceparent }),
+    ...(traceContext?.tracestate !== undefined && {
+      tracestate: traceContext.tracestate,
+    }),
+    handler_results: {},
+    errors: 0,
+  } as TxOBPublishableEvent<TxOBEventType, TEventDataMap>;
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { RateLimiter } from "./rate-limit.js";
+
+const startedAt = new Date("2024-06-01T12:00:00.000Z");
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(startedAt);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("RateLimiter", () => {
+  it("allows a burst of tokens and refills them over the interval", () => {
+    const rateLimiter = new RateLimiter({ tokens: 2, intervalMs: 1_000 });
+
+    expect(RateLimiter.tryTake([rateLimiter])).toBe(true);
+    expect(RateLimiter.tryTake([rateLimiter])).toBe(true);
+    expect(RateLimiter.tryTake([rateLimiter])).toBe(false);
+    expect(rateLimiter.getRetryAt()).toEqual(
+      new Date(startedAt.getTime() + 500),
+    );
+
+    vi.advanceTimersByTime(500);
+    expect(RateLimiter.tryTake([rateLimiter])).toBe(true);
+    expect(RateLimiter.tryTake([rateLimiter])).toBe(false);
+  });
+
+  it("takes tokens from every limiter or from none of them", () => {
+    const handlerRateLimiter = new RateLimiter({ tokens: 2, intervalMs: 1_000 });
+    const eventTypeRateLimiter = new RateLimiter({
+      tokens: 1,
+      intervalMs: 1_000,
+    });
+
+    expect(
+      RateLimiter.tryTake([eventTypeRateLimiter, handlerRateLimiter]),
+    ).toBe(true);
+    expect(
+      RateLimiter.tryTake([eventTypeRateLimiter, handlerRateLimiter]),
+    ).toBe(false);
+    expect(RateLimiter.tryTake([handlerRateLimiter])).toBe(true);
+    expect(RateLimiter.tryTake([handlerRateLimiter])).toBe(false);
+  });
+
+  it("allows executions without limiters", () => {
+    expect(RateLimiter.tryTake([])).toBe(true);
+  });
+
+  it("rejects non-positive limits", () => {
+    expect(() => new RateLimiter({ tokens: 0, intervalMs: 1_000 })).toThrow(
+      "rate limit requires positive tokens and intervalMs, got 0 per 1000ms",
+    );
+  });
+});
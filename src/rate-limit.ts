@@ -0,0 +1,78 @@
+export type TxOBRateLimitOpts = {
+  // Executions allowed per interval, which is also the burst size
+  tokens: number;
+  intervalMs: number;
+};
+
+export type TxOBRateLimits<TxOBEventType extends string = string> = {
+  // Shared by every handler with the name, whatever the event type
+  handlers?: Record<string, TxOBRateLimitOpts>;
+  // Shared by the handlers of every event of the type
+  eventTypes?: Partial<Record<TxOBEventType, TxOBRateLimitOpts>>;
+};
+
+/**
+ * Token bucket refilling `tokens` evenly over `intervalMs`. State is kept in memory, so every
+ * processor instance enforces the limit on its own.
+ */
+export class RateLimiter {
+  private opts: TxOBRateLimitOpts;
+  private tokens: number;
+  private refilledAt: number;
+
+  constructor(opts: TxOBRateLimitOpts) {
+    if (!(opts.tokens > 0) || !(opts.intervalMs > 0)) {
+      throw new Error(
+        `rate limit requires positive tokens and intervalMs, got ${opts.tokens} per ${opts.intervalMs}ms`,
+      );
+    }
+    this.opts = opts;
+    this.tokens = opts.tokens;
+    this.refilledAt = Date.now();
+  }
+
+  /**
+   * Takes a token from every limiter, or from none of them when one is exhausted.
+   *
+   * @param rateLimiters - Limiters that all apply to the same execution
+   * @returns `true` when the execution may proceed
+   */
+  static tryTake(rateLimiters: RateLimiter[]): boolean {
+    if (!rateLimiters.every((rateLimiter) => rateLimiter.hasToken())) {
+      return false;
+    }
+    for (const rateLimiter of rateLimiters) {
+      rateLimiter.tokens -= 1;
+    }
+
+    return true;
+  }
+
+  /**
+   * @returns When the next token becomes available
+   */
+  getRetryAt(): Date {
+    this.refill();
+    const missingTokens = Math.max(0, 1 - this.tokens);
+
+    return new Date(
+      this.refilledAt +
+        Math.ceil((missingTokens * this.opts.intervalMs) / this.opts.tokens),
+    );
+  }
+
+  private hasToken(): boolean {
+    this.refill();
+    return this.tokens >= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.opts.tokens,
+      this.tokens +
+        ((now - this.refilledAt) * this.opts.tokens) / this.opts.intervalMs,
+    );
+    this.refilledAt = now;
+  }
+}
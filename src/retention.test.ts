@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from "vitest";
+import { EventRetentionJob } from "./retention.js";
+import { sleep } from "./sleep.js";
+import { TxOBTelemetryMetricName } from "./telemetry.js";
+
+describe("EventRetentionJob", () => {
+  it("should purge processed events in batches until a batch is not full", async () => {
+    const client = {
+      purgeEvents: vi
+        .fn()
+        .mockResolvedValueOnce(2)
+        .mockResolvedValueOnce(2)
+        .mockResolvedValueOnce(1),
+    };
+    const job = new EventRetentionJob({
+      client,
+      retentionMs: 60_000,
+      batchSize: 2,
+    });
+
+    const before = Date.now();
+    const result = await job.purge();
+
+    expect(result).toEqual({ processed: 5, deadLettered: 0 });
+    expect(client.purgeEvents).toHaveBeenCalledTimes(3);
+    const [[opts]] = client.purgeEvents.mock.calls;
+    expect(opts).toEqual(
+      expect.objectContaining({
+        maxErrors: 5,
+        deadLettered: false,
+        limit: 2,
+      }),
+    );
+    expect(opts.processedBefore.getTime()).toBeGreaterThanOrEqual(before - 60_000);
+  });
+
+  it("should purge dead-lettered events with their own retention", async () => {
+    const client = {
+      purgeEvents: vi.fn(
+        async ({ deadLettered }: { deadLettered: boolean }) =>
+          deadLettered ? 3 : 0,
+      ),
+    };
+    const counter = { add: vi.fn() };
+    const meter = {
+      createCounter: vi.fn(() => counter),
+      createHistogram: vi.fn(),
+    };
+    const job = new EventRetentionJob({
+      client,
+      retentionMs: 60_000,
+      deadLetterRetentionMs: 600_000,
+      maxErrors: 3,
+      telemetry: { meter },
+    });
+
+    const before = Date.now();
+    const result = await job.purge();
+
+    expect(result).toEqual({ processed: 0, deadLettered: 3 });
+    const [, [deadLetterOpts]] = client.purgeEvents.mock.calls as unknown as [
+      unknown,
+      [{ deadLettered: boolean; maxErrors: number; processedBefore: Date }],
+    ];
+    expect(deadLetterOpts.deadLettered).toBe(true);
+    expect(deadLetterOpts.maxErrors).toBe(3);
+    expect(deadLetterOpts.processedBefore.getTime()).toBeGreaterThanOrEqual(
+      before - 600_000,
+    );
+    expect(meter.createCounter).toHaveBeenCalledWith(
+      TxOBTelemetryMetricName.RetentionPurgedCount,
+      expect.any(Object),
+    );
+    expect(counter.add).toHaveBeenCalledWith(0, {
+      "txob.retention.kind": "processed",
+    });
+    expect(counter.add).toHaveBeenCalledWith(3, {
+      "txob.retention.kind": "dead_lettered",
+    });
+  });
+
+  it("should purge on start and keep running after errors until stopped", async () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const client = {
+      purgeEvents: vi
+        .fn()
+        .mockRejectedValueOnce(new Error("connection lost"))
+        .mockResolvedValue(0),
+    };
+    const job = new EventRetentionJob({
+      client,
+      retentionMs: 60_000,
+      intervalMs: 10,
+      logger,
+    });
+
+    job.start();
+    await sleep(35);
+    await job.stop();
+
+    expect(logger.error).toHaveBeenCalledWith(
+      { error: new Error("connection lost") },
+      "error purging events, will retry",
+    );
+    expect(client.purgeEvents.mock.calls.length).toBeGreaterThan(1);
+    const calls = client.purgeEvents.mock.calls.length;
+    await sleep(20);
+    expect(client.purgeEvents).toHaveBeenCalledTimes(calls);
+  });
+});
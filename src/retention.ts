@@ -0,0 +1,212 @@
+import { defaultMaxErrors, type Logger } from "./processor.js";
+import { sleep } from "./sleep.js";
+import {
+  createRetentionTelemetryInstruments,
+  endTelemetrySpan,
+  recordTelemetryCounter,
+  setTelemetrySpanAttributes,
+  startTelemetrySpan,
+  TxOBTelemetryAttributeKey,
+  TxOBTelemetryRetentionKind,
+  TxOBTelemetrySpanName,
+  type TxOBTelemetry,
+  type TxOBTelemetryInstruments,
+} from "./telemetry.js";
+
+export type TxOBPurgeEventsOpts = {
+  signal?: AbortSignal;
+  // Only events processed before this date are purged
+  processedBefore: Date;
+  maxErrors: number;
+  // `true` purges dead-lettered events (errors >= maxErrors), `false` purges successfully processed events
+  deadLettered: boolean;
+  limit: number;
+};
+
+export interface TxOBRetentionClient {
+  // Deletes, or moves into the archive when configured, up to `limit` events and resolves how many were purged
+  purgeEvents(opts: TxOBPurgeEventsOpts): Promise<number>;
+}
+
+export type TxOBRetentionPurgeResult = {
+  processed: number;
+  deadLettered: number;
+};
+
+const defaultRetentionIntervalMs = 60 * 60 * 1_000;
+const defaultRetentionBatchSize = 1_000;
+
+export class EventRetentionJob {
+  private client: TxOBRetentionClient;
+  private opts: {
+    retentionMs: number;
+    deadLetterRetentionMs?: number;
+    maxErrors: number;
+    batchSize: number;
+    intervalMs: number;
+    logger?: Logger;
+    telemetry: TxOBTelemetryInstruments;
+  };
+  private abortController: AbortController;
+  private state: "stopped" | "started" | "stopping" = "stopped";
+  private loop?: Promise<void>;
+
+  constructor({
+    client,
+    telemetry,
+    ...opts
+  }: {
+    client: TxOBRetentionClient;
+    // Successfully processed events are purged once they are older than this
+    retentionMs: number;
+    // Dead-lettered events are purged once they are older than this. Kept forever when omitted
+    deadLetterRetentionMs?: number;
+    // Must match the processor `maxErrors` to tell dead-lettered events apart
+    maxErrors?: number;
+    // Max events purged per statement
+    batchSize?: number;
+    intervalMs?: number;
+    logger?: Logger;
+    telemetry?: TxOBTelemetry;
+  }) {
+    this.client = client;
+    this.opts = {
+      maxErrors: defaultMaxErrors,
+      batchSize: defaultRetentionBatchSize,
+      intervalMs: defaultRetentionIntervalMs,
+      telemetry: createRetentionTelemetryInstruments(telemetry),
+      ...opts,
+    };
+    this.abortController = new AbortController();
+  }
+
+  /**
+   * Purges every event that is past its retention in batches of `batchSize`.
+   * Useful to run retention from a scheduler instead of calling `start`.
+   *
+   * @returns The number of purged events per kind
+   */
+  async purge(): Promise<TxOBRetentionPurgeResult> {
+    const span = startTelemetrySpan(
+      this.opts.telemetry,
+      TxOBTelemetrySpanName.RetentionRun,
+    );
+    let error: unknown;
+    try {
+      const processed = await this.purgeKind(false, this.opts.retentionMs);
+      const deadLettered =
+        this.opts.deadLetterRetentionMs === undefined
+          ? 0
+          : await this.purgeKind(true, this.opts.deadLetterRetentionMs);
+      setTelemetrySpanAttributes(span, {
+        [TxOBTelemetryAttributeKey.EventsPurged]: processed + deadLettered,
+      });
+      this.opts.logger?.debug(
+        { processed, deadLettered },
+        "retention purged events",
+      );
+
+      return { processed, deadLettered };
+    } catch (err) {
+      error = err;
+      throw err;
+    } finally {
+      endTelemetrySpan(span, error);
+    }
+  }
+
+  private async purgeKind(
+    deadLettered: boolean,
+    retentionMs: number,
+  ): Promise<number> {
+    const processedBefore = new Date(Date.now() - retentionMs);
+    const kind = deadLettered
+      ? TxOBTelemetryRetentionKind.DeadLettered
+      : TxOBTelemetryRetentionKind.Processed;
+    let total = 0;
+    let purged: number;
+    do {
+      purged = await this.client.purgeEvents({
+        signal: this.abortController.signal,
+        processedBefore,
+        maxErrors: this.opts.maxErrors,
+        deadLettered,
+        limit: this.opts.batchSize,
+      });
+      total += purged;
+      recordTelemetryCounter(
+        this.opts.telemetry.retentionPurgedCounter,
+        this.opts.telemetry,
+        { [TxOBTelemetryAttributeKey.RetentionKind]: kind },
+        purged,
+      );
+    } while (
+      purged >= this.opts.batchSize &&
+      !this.abortController.signal.aborted
+    );
+
+    return total;
+  }
+
+  start() {
+    if (this.state !== "stopped") {
+      this.opts.logger?.warn(
+        `cannot start retention job from '${this.state}'`,
+      );
+      return;
+    }
+    this.state = "started";
+    this.abortController = new AbortController();
+    this.opts.logger?.debug("retention job started");
+
+    this.loop = (async () => {
+      do {
+        try {
+          await this.purge();
+        } catch (error) {
+          this.opts.logger?.error({ error }, "error purging events, will retry");
+        }
+        await sleep(this.opts.intervalMs, this.abortController.signal).catch(
+          () => {},
+        );
+      } while (!this.abortController.signal.aborted);
+    })();
+  }
+
+  async stop(opts?: { timeoutMs?: number }): Promise<void> {
+    if (this.state !== "started") {
+      this.opts.logger?.warn(`cannot stop retention job from '${this.state}'`);
+      return;
+    }
+    this.state = "stopping";
+    this.opts.logger?.debug("retention job stopping");
+
+    const _stopOpts = {
+      timeoutMs: 10000,
+      ...opts,
+    };
+
+    this.abortController.abort();
+
+    let caughtErr: unknown;
+    try {
+      // Wait for an in-flight batch to finish
+      await Promise.race([
+        this.loop,
+        sleep(_stopOpts.timeoutMs).then(() => {
+          throw new Error(`shutdown timeout ${_stopOpts.timeoutMs}ms elapsed`);
+        }),
+      ]);
+    } catch (error) {
+      caughtErr = error;
+    }
+
+    this.state = "stopped";
+    this.opts.logger?.debug("retention job stopped");
+
+    if (caughtErr) {
+      this.opts.logger?.error({ error: caughtErr }, "shutdown error");
+      throw caughtErr;
+    }
+  }
+}
@@ -0,0 +1,298 @@
+import { vi, describe, it, expect } from "vitest";
+import {
+  createEventPublisher,
+  createEventsTable,
+  createProcessorClient,
+  createWakeupEmitter,
+} from "./client.js";
+import { sleep } from "../sleep.js";
+
+const fixedNow = new Date("2024-06-01T12:00:00.000Z");
+
+vi.mock("../date.js", () => ({
+  getDate: () => fixedNow,
+}));
+
+const eventSchemas = {
+  TestEvent: {
+    "~standard": {
+      version: 1 as const,
+      vendor: "test",
+      validate: (value: unknown) => ({
+        value:
+          typeof value === "object" && value !== null
+            ? (value as Record<string, unknown>)
+            : {},
+      }),
+    },
+  },
+};
+
+const createQuerier = ({
+  all = [],
+  get,
+}: { all?: unknown[]; get?: () => unknown } = {}) => {
+  const statement = {
+    all: vi.fn(() => all),
+    get: vi.fn(get ?? (() => undefined)),
+    run: vi.fn(),
+  };
+  const querier = {
+    prepare: vi.fn(() => statement),
+    exec: vi.fn(),
+    inTransaction: false,
+  };
+  return { querier: querier as any, statement };
+};
+
+describe("getEventsToProcess", () => {
+  it("should execute the correct query", async () => {
+    const rows = [{ id: "1", errors: 0 }];
+    const { querier, statement } = createQuerier({ all: rows });
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    const result = await client.getEventsToProcess({ maxErrors: 5 });
+
+    expect(querier.prepare).toHaveBeenCalledWith(
+      'SELECT id, errors FROM "events" WHERE processed_at IS NULL AND (backoff_until IS NULL OR backoff_until < ?) AND (available_at IS NULL OR available_at <= ?) AND errors < ? ORDER BY timestamp ASC LIMIT 100',
+    );
+    expect(statement.all).toHaveBeenCalledWith([
+      fixedNow.toISOString(),
+      fixedNow.toISOString(),
+      5,
+    ]);
+    expect(result).toBe(rows);
+  });
+});
+
+describe("getBacklogStats", () => {
+  it("should count pending, retrying and dead-lettered events by type", async () => {
+    const { querier, statement } = createQuerier({
+      all: [
+        {
+          type: "TestEvent",
+          pending: 3,
+          retrying: 1,
+          dead_lettered: 2,
+          oldest_pending_at: "2024-06-01T11:00:00.000Z",
+        },
+      ],
+    });
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    const result = await client.getBacklogStats?.({ maxErrors: 5 });
+
+    expect(querier.prepare).toHaveBeenCalledWith(
+      'SELECT type, SUM(CASE WHEN processed_at IS NULL AND errors < ? THEN 1 ELSE 0 END) AS pending, SUM(CASE WHEN processed_at IS NULL AND errors < ? AND errors > 0 THEN 1 ELSE 0 END) AS retrying, SUM(CASE WHEN errors >= ? THEN 1 ELSE 0 END) AS dead_lettered, MIN(CASE WHEN processed_at IS NULL AND errors < ? THEN timestamp END) AS oldest_pending_at FROM (SELECT type, timestamp, errors, processed_at FROM "events" WHERE processed_at IS NULL UNION ALL SELECT type, timestamp, errors, processed_at FROM "events" WHERE processed_at IS NOT NULL AND errors > 0 AND errors >= ?) AS backlog GROUP BY type',
+    );
+    expect(statement.all).toHaveBeenCalledWith([5, 5, 5, 5, 5]);
+    expect(result).toEqual([
+      {
+        type: "TestEvent",
+        pending: 3,
+        retrying: 1,
+        deadLettered: 2,
+        oldestPendingAt: new Date("2024-06-01T11:00:00.000Z"),
+      },
+    ]);
+  });
+});
+
+describe("transaction", () => {
+  it("should begin immediate and convert the locked row", async () => {
+    const { querier, statement } = createQuerier({
+      get: () => ({
+        id: "1",
+        timestamp: fixedNow.toISOString(),
+        type: "TestEvent",
+        data: '{"count":1}',
+        correlation_id: "abc",
+        partition_key: null,
+        priority: null,
+        handler_results: "{}",
+        errors: 1,
+        backoff_until: "2024-06-01T11:00:00.000Z",
+        available_at: null,
+        processed_at: null,
+      }),
+    });
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    let event: unknown;
+    await client.transaction(async (txClient) => {
+      event = await txClient.getEventByIdForUpdateSkipLocked("1", {
+        maxErrors: 5,
+      });
+    });
+
+    expect(querier.exec).toHaveBeenNthCalledWith(1, "BEGIN IMMEDIATE");
+    expect(querier.exec).toHaveBeenNthCalledWith(2, "COMMIT");
+    expect(statement.get).toHaveBeenCalledWith([
+      "1",
+      fixedNow.toISOString(),
+      fixedNow.toISOString(),
+      5,
+    ]);
+    expect(event).toEqual({
+      id: "1",
+      timestamp: fixedNow,
+      type: "TestEvent",
+      data: { count: 1 },
+      correlation_id: "abc",
+      partition_key: null,
+      priority: null,
+      handler_results: {},
+      errors: 1,
+      backoff_until: new Date("2024-06-01T11:00:00.000Z"),
+      available_at: null,
+      processed_at: undefined,
+    });
+  });
+
+  it("should store dates and handler results as text when updating", async () => {
+    const { querier, statement } = createQuerier();
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    await client.transaction(async (txClient) => {
+      await txClient.updateEvent({
+        id: "1",
+        type: "TestEvent",
+        timestamp: fixedNow,
+        data: {},
+        correlation_id: "abc",
+        handler_results: { handler1: { processed_at: fixedNow } },
+        errors: 0,
+        processed_at: fixedNow,
+      });
+    });
+
+    expect(querier.prepare).toHaveBeenCalledWith(
+      'UPDATE "events" SET handler_results = ?, errors = ?, processed_at = ?, backoff_until = ? WHERE id = ?',
+    );
+    expect(statement.run).toHaveBeenCalledWith([
+      JSON.stringify({ handler1: { processed_at: fixedNow } }),
+      0,
+      fixedNow.toISOString(),
+      null,
+      "1",
+    ]);
+  });
+
+  it("should run transactions one at a time", async () => {
+    const { querier } = createQuerier();
+    const client = createProcessorClient({ querier, eventSchemas });
+    const steps: string[] = [];
+
+    await Promise.all(
+      ["a", "b"].map((name) =>
+        client.transaction(async () => {
+          steps.push(`${name}:start`);
+          await sleep(10);
+          steps.push(`${name}:end`);
+        }),
+      ),
+    );
+
+    expect(steps).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+  });
+
+  it("should rollback and rethrow on error", async () => {
+    const { querier } = createQuerier();
+    querier.exec.mockImplementation((sql: string) => {
+      if (sql === "BEGIN IMMEDIATE") querier.inTransaction = true;
+    });
+    const client = createProcessorClient({ querier, eventSchemas });
+
+    await expect(
+      client.transaction(async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+    expect(querier.exec).toHaveBeenLastCalledWith("ROLLBACK");
+  });
+
+  it("should refuse a connection that is already in a transaction", async () => {
+    const { querier } = createQuerier();
+    querier.inTransaction = true;
+    const client = createProcessorClient({ querier, eventSchemas });
+    const fn = vi.fn();
+
+    await expect(client.transaction(fn)).rejects.toThrow(
+      "SQLite connection is already in a transaction, give the processor client its own connection",
+    );
+    expect(fn).not.toHaveBeenCalled();
+    expect(querier.exec).not.toHaveBeenCalled();
+  });
+});
+
+describe("createEventPublisher", () => {
+  it("should insert the event with text encoded columns", async () => {
+    const { querier, statement } = createQuerier();
+    const publisher = createEventPublisher({ eventSchemas });
+
+    const event = await publisher.publish(
+      { type: "TestEvent", data: { count: 1 } },
+      { querier },
+    );
+
+    expect(querier.prepare).toHaveBeenCalledWith(
+      'INSERT INTO "events" (id, timestamp, type, data, correlation_id, partition_key, priority, handler_results, errors, available_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    );
+    expect(statement.run).toHaveBeenCalledWith([
+      event.id,
+      fixedNow.toISOString(),
+      "TestEvent",
+      '{"count":1}',
+      event.correlation_id,
+      null,
+      null,
+      "{}",
+      0,
+      null,
+    ]);
+  });
+});
+
+describe("createEventsTable", () => {
+  it("should create the table and index if they do not exist", () => {
+    const { querier } = createQuerier();
+
+    createEventsTable({ querier });
+
+    expect(querier.exec).toHaveBeenCalledWith(
+      expect.stringContaining('CREATE TABLE IF NOT EXISTS "events"'),
+    );
+    expect(querier.exec).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'CREATE INDEX IF NOT EXISTS "idx_events_processing"',
+      ),
+    );
+    expect(querier.exec).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'CREATE INDEX IF NOT EXISTS "idx_events_dead_lettered"',
+      ),
+    );
+  });
+});
+
+describe("createWakeupEmitter", () => {
+  it("should emit wakeup when new events are inserted", async () => {
+    let maxRowId = 1;
+    const { querier } = createQuerier({
+      get: () => ({ max_rowid: maxRowId }),
+    });
+    const listener = vi.fn();
+
+    const emitter = createWakeupEmitter({ querier, intervalMs: 5 });
+    emitter.on("wakeup", listener);
+
+    await sleep(20);
+    expect(listener).not.toHaveBeenCalled();
+
+    maxRowId = 2;
+    await sleep(20);
+    expect(listener).toHaveBeenCalledOnce();
+
+    await emitter.close();
+  });
+});
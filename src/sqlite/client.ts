@@ -0,0 +1,522 @@
+import type Database from "better-sqlite3";
+import { EventEmitter } from "node:events";
+import pLimit from "p-limit";
+import type {
+  TxOBBacklogStats,
+  TxOBEventSchemaMap,
+  TxOBSchemaOutput,
+  TxOBEvent,
+  TxOBProcessorClient,
+  TxOBProcessorClientOpts,
+  TxOBTransactionProcessorClient,
+  TxOBUnlockedEvent,
+  WakeupEmitter,
+} from "../processor.js";
+import {
+  createPublishableEvent,
+  type TxOBEventPublisher,
+  type TxOBPublishableEvent,
+} from "../publisher.js";
+import type { TxOBTelemetryTracer } from "../telemetry.js";
+import { getDate } from "../date.js";
+
+type Querier = Pick<Database.Database, "prepare" | "exec" | "inTransaction">;
+
+const escapeIdentifier = (identifier: string): string =>
+  `"${identifier.replace(/"/g, '""')}"`;
+
+// SQLite has no date or JSON types. Dates are stored as ISO 8601 text, which sorts and compares
+// chronologically, and JSON columns as text
+const toSqliteValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+const toDate = (value: unknown): Date | null =>
+  typeof value === "string" ? new Date(value) : null;
+
+const eventColumns =
+  "id, timestamp, type, data, correlation_id, partition_key, priority, handler_results, errors, backoff_until, available_at, processed_at";
+
+type SqliteEventRow = {
+  id: string;
+  timestamp: string;
+  type: string;
+  data: string;
+  correlation_id: string;
+  partition_key: string | null;
+  priority: number | null;
+  handler_results: string;
+  errors: number;
+  backoff_until: string | null;
+  available_at: string | null;
+  processed_at: string | null;
+  traceparent?: string | null;
+  tracestate?: string | null;
+};
+
+const fromSqliteRow = (row: SqliteEventRow): TxOBEvent<string> => ({
+  id: row.id,
+  timestamp: new Date(row.timestamp),
+  type: row.type,
+  data: JSON.parse(row.data),
+  correlation_id: row.correlation_id,
+  partition_key: row.partition_key,
+  priority: row.priority,
+  handler_results: JSON.parse(row.handler_results),
+  errors: row.errors,
+  backoff_until: toDate(row.backoff_until),
+  available_at: toDate(row.available_at),
+  processed_at: toDate(row.processed_at) ?? undefined,
+  ...(row.traceparent !== undefined && { traceparent: row.traceparent }),
+  ...(row.tracestate !== undefined && { tracestate: row.tracestate }),
+});
+
+const insertEvent = (
+  querier: Querier,
+  table: string,
+  event: TxOBPublishableEvent<string>,
+): void => {
+  const columns = [
+    "id",
+    "timestamp",
+    "type",
+    "data",
+    "correlation_id",
+    "partition_key",
+    "priority",
+    "handler_results",
+    "errors",
+    "available_at",
+  ];
+  const values: unknown[] = [
+    event.id,
+    event.timestamp,
+    event.type,
+    JSON.stringify(event.data),
+    event.correlation_id,
+    event.partition_key,
+    event.priority,
+    JSON.stringify(event.handler_results),
+    event.errors,
+    event.available_at,
+  ];
+  // Trace context columns are only written when set so tables without them keep working
+  for (const column of ["traceparent", "tracestate"] as const) {
+    if (event[column] !== undefined) {
+      columns.push(column);
+      values.push(event[column]);
+    }
+  }
+
+  querier
+    .prepare(
+      `INSERT INTO ${escapeIdentifier(table)} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+    )
+    .run(values.map(toSqliteValue));
+};
+
+const availableCondition =
+  "(backoff_until IS NULL OR backoff_until < ?) AND (available_at IS NULL OR available_at <= ?)";
+
+const readyToProcessCondition = `processed_at IS NULL AND ${availableCondition} AND errors < ?`;
+
+const createEventsToProcessQuery = (
+  table: string,
+  limit: number,
+  opts: TxOBProcessorClientOpts,
+): { sql: string; values: unknown[] } => {
+  const { ordering, prioritized, maxErrors } = opts;
+  const now = getDate().toISOString();
+  const columns = ["id", "errors"];
+  if (ordering) columns.push(escapeIdentifier(ordering.key));
+  if (prioritized) columns.push("priority");
+  // NULL sorts first in SQLite, so events without a priority come last when descending
+  const orderBy = `${prioritized ? "priority DESC, " : ""}timestamp ASC`;
+
+  if (!ordering) {
+    return {
+      sql: `SELECT ${columns.join(", ")} FROM ${escapeIdentifier(table)} WHERE ${readyToProcessCondition} ORDER BY ${orderBy} LIMIT ${limit}`,
+      values: [now, now, maxErrors],
+    };
+  }
+
+  // Only the oldest unprocessed event per ordering key is handed out. Events without a key are unordered
+  // When blocking, the oldest event must itself be ready, otherwise it is skipped in favor of the oldest ready event
+  const blocking = (ordering.onFailure ?? "block") === "block";
+  const headsCondition = blocking
+    ? "processed_at IS NULL AND errors < ?"
+    : readyToProcessCondition;
+
+  return {
+    sql: `SELECT ${columns.join(", ")} FROM (SELECT ${columns.join(", ")}, timestamp, backoff_until, available_at, ROW_NUMBER() OVER (PARTITION BY COALESCE(${escapeIdentifier(ordering.key)}, id) ORDER BY timestamp ASC) AS position FROM ${escapeIdentifier(table)} WHERE ${headsCondition}) AS heads WHERE position = 1${blocking ? ` AND ${availableCondition}` : ""} ORDER BY ${orderBy} LIMIT ${limit}`,
+    values: blocking ? [maxErrors, now, now] : [now, now, maxErrors],
+  };
+};
+
+export type CreateProcessorClientOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  querier: Querier;
+  table?: string;
+  limit?: number;
+  eventSchemas: TEventSchemas;
+};
+
+/**
+ * Creates a SQLite processor client over a `better-sqlite3` database.
+ * SQLite has a single writer, so each transaction takes the write lock up front with `BEGIN IMMEDIATE`
+ * in place of `FOR UPDATE SKIP LOCKED`, and transactions on the same database are run one at a time.
+ * Handlers run while the write lock is held, so give the processor its own `Database` connection:
+ * statements the application runs on a shared connection would join the processor's transaction
+ * instead of waiting for the lock (`better-sqlite3`'s `timeout` option) like writes on other connections do.
+ *
+ * @param opts - Options for the processor client
+ * @returns A TxOBProcessorClient typed against `eventSchemas`
+ */
+export const createProcessorClient = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateProcessorClientOpts<TEventSchemas>,
+): TxOBProcessorClient<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  }
+> => {
+  const { querier, table = "events", limit = 100, eventSchemas: _eventSchemas } =
+    opts;
+  // Handlers run inside the transaction and a connection can only hold one transaction at a time
+  const transactionLimit = pLimit(1);
+
+  const getEventsToProcess = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<
+    TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[]
+  > => {
+    const { sql, values } = createEventsToProcessQuery(table, limit, opts);
+
+    return querier.prepare(sql).all(values) as TxOBUnlockedEvent<
+      keyof TEventSchemas & string,
+      {
+        [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+          TEventSchemas[TType]
+        >;
+      }
+    >[];
+  };
+
+  const getNextAvailableAt = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<Date | null> => {
+    const row = querier
+      .prepare(
+        `SELECT MIN(available_at) AS available_at FROM ${escapeIdentifier(table)} WHERE processed_at IS NULL AND available_at > ? AND errors < ?`,
+      )
+      .get([getDate().toISOString(), opts.maxErrors]) as
+      | { available_at: string | null }
+      | undefined;
+
+    return toDate(row?.available_at);
+  };
+
+  const getBacklogStats = async (
+    opts: TxOBProcessorClientOpts,
+  ): Promise<TxOBBacklogStats[]> => {
+    const pending = "processed_at IS NULL AND errors < ?";
+    // Pending and dead-lettered events are read separately so each side can use its partial index
+    const backlog = `SELECT type, timestamp, errors, processed_at FROM ${escapeIdentifier(table)} WHERE processed_at IS NULL UNION ALL SELECT type, timestamp, errors, processed_at FROM ${escapeIdentifier(table)} WHERE processed_at IS NOT NULL AND errors > 0 AND errors >= ?`;
+    const rows = querier
+      .prepare(
+        `SELECT type, SUM(CASE WHEN ${pending} THEN 1 ELSE 0 END) AS pending, SUM(CASE WHEN ${pending} AND errors > 0 THEN 1 ELSE 0 END) AS retrying, SUM(CASE WHEN errors >= ? THEN 1 ELSE 0 END) AS dead_lettered, MIN(CASE WHEN ${pending} THEN timestamp END) AS oldest_pending_at FROM (${backlog}) AS backlog GROUP BY type`,
+      )
+      .all(Array(5).fill(opts.maxErrors)) as {
+      type: string;
+      pending: number;
+      retrying: number;
+      dead_lettered: number;
+      oldest_pending_at: string | null;
+    }[];
+
+    return rows.map((row) => ({
+      type: row.type,
+      pending: row.pending,
+      retrying: row.retrying,
+      deadLettered: row.dead_lettered,
+      oldestPendingAt: toDate(row.oldest_pending_at),
+    }));
+  };
+
+  const transaction: TxOBProcessorClient<
+    keyof TEventSchemas & string,
+    {
+      [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+    }
+  >["transaction"] = (
+    fn: (
+      txProcessorClient: TxOBTransactionProcessorClient<
+        keyof TEventSchemas & string,
+        {
+          [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<
+            TEventSchemas[TType]
+          >;
+        }
+      >,
+    ) => Promise<void>,
+  ): Promise<void> =>
+    transactionLimit(async () => {
+      // Checked outside the try so a transaction the connection is already in is never rolled back
+      if (querier.inTransaction) {
+        throw new Error(
+          "SQLite connection is already in a transaction, give the processor client its own connection",
+        );
+      }
+
+      try {
+        querier.exec("BEGIN IMMEDIATE");
+        await fn({
+          getEventByIdForUpdateSkipLocked: async (
+            eventId: TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >["id"],
+            opts: TxOBProcessorClientOpts,
+          ): Promise<
+            | TxOBEvent<
+                keyof TEventSchemas & string,
+                TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+              >
+            | null
+          > => {
+            const now = getDate().toISOString();
+            const row = querier
+              .prepare(
+                `SELECT ${eventColumns}${opts.traced ? ", traceparent, tracestate" : ""} FROM ${escapeIdentifier(table)} WHERE id = ? AND ${readyToProcessCondition}`,
+              )
+              .get([eventId, now, now, opts.maxErrors]) as
+              | SqliteEventRow
+              | undefined;
+            if (!row) {
+              return null;
+            }
+
+            return fromSqliteRow(row) as TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >;
+          },
+          updateEvent: async (
+            event: TxOBEvent<
+              keyof TEventSchemas & string,
+              TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+            >,
+          ): Promise<void> => {
+            querier
+              .prepare(
+                `UPDATE ${escapeIdentifier(table)} SET handler_results = ?, errors = ?, processed_at = ?, backoff_until = ? WHERE id = ?`,
+              )
+              .run(
+                [
+                  JSON.stringify(event.handler_results),
+                  event.errors,
+                  event.processed_at,
+                  event.backoff_until,
+                  event.id,
+                ].map(toSqliteValue),
+              );
+          },
+          createEvent: async (
+            event: Omit<
+              TxOBEvent<
+                keyof TEventSchemas & string,
+                TxOBSchemaOutput<TEventSchemas[keyof TEventSchemas & string]>
+              >,
+              "processed_at" | "backoff_until"
+            >,
+          ): Promise<void> => {
+            insertEvent(querier, table, event);
+          },
+        });
+        querier.exec("COMMIT");
+      } catch (error) {
+        // SQLite rolls back on its own after some errors (e.g. SQLITE_FULL)
+        if (querier.inTransaction) {
+          try {
+            querier.exec("ROLLBACK");
+          } catch (rollbackError) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            const rollbackMessage =
+              rollbackError instanceof Error
+                ? rollbackError.message
+                : String(rollbackError);
+
+            throw new Error(
+              `Transaction failed: ${message} (rollback also failed: ${rollbackMessage})`,
+              { cause: error },
+            );
+          }
+        }
+
+        throw error;
+      }
+    });
+
+  return {
+    getEventsToProcess,
+    getNextAvailableAt,
+    getBacklogStats,
+    transaction,
+  };
+};
+
+export type CreateEventPublisherOpts<
+  TEventSchemas extends TxOBEventSchemaMap<string>,
+> = {
+  table?: string;
+  eventSchemas: TEventSchemas;
+  // Stores the active trace context with published events, see `TxOBTelemetryTracer`
+  tracer?: TxOBTelemetryTracer;
+};
+
+/**
+ * Creates a publisher for writing outbox events with the application's own database.
+ * Publish inside the same transaction as the business data (e.g. within `db.transaction(...)`).
+ *
+ * @param opts - Options for the event publisher
+ * @returns A TxOBEventPublisher typed against `eventSchemas`
+ */
+export const createEventPublisher = <
+  const TEventSchemas extends TxOBEventSchemaMap<string>,
+>(
+  opts: CreateEventPublisherOpts<TEventSchemas>,
+): TxOBEventPublisher<
+  keyof TEventSchemas & string,
+  {
+    [TType in keyof TEventSchemas & string]: TxOBSchemaOutput<TEventSchemas[TType]>;
+  },
+  { querier: Querier }
+> => {
+  const { table = "events", eventSchemas: _eventSchemas, tracer } = opts;
+
+  return {
+    publish: async (event, { querier }) => {
+      const publishableEvent = createPublishableEvent(event, { tracer });
+      insertEvent(querier, table, publishableEvent);
+
+      return publishableEvent;
+    },
+  };
+};
+
+type CreateEventsTableOpts = {
+  querier: Querier;
+  table?: string;
+};
+
+/**
+ * Creates the events table, its processing index and the dead-lettered index the backlog stats use if they
+ * don't exist yet.
+ *
+ * @param opts - Options for the events table
+ */
+export const createEventsTable = (opts: CreateEventsTableOpts): void => {
+  const { querier, table = "events" } = opts;
+
+  querier.exec(`
+    CREATE TABLE IF NOT EXISTS ${escapeIdentifier(table)} (
+      id TEXT PRIMARY KEY,
+      timestamp TEXT NOT NULL,
+      type TEXT NOT NULL,
+      data TEXT NOT NULL,
+      correlation_id TEXT,
+      partition_key TEXT,
+      priority INTEGER,
+      handler_results TEXT NOT NULL DEFAULT '{}',
+      errors INTEGER NOT NULL DEFAULT 0,
+      backoff_until TEXT,
+      available_at TEXT,
+      processed_at TEXT,
+      traceparent TEXT,
+      tracestate TEXT
+    );
+    CREATE INDEX IF NOT EXISTS ${escapeIdentifier(`idx_${table}_processing`)}
+      ON ${escapeIdentifier(table)} (processed_at, backoff_until, errors)
+      WHERE processed_at IS NULL;
+    CREATE INDEX IF NOT EXISTS ${escapeIdentifier(`idx_${table}_dead_lettered`)}
+      ON ${escapeIdentifier(table)} (errors)
+      WHERE processed_at IS NOT NULL AND errors > 0;
+  `);
+};
+
+type CreateWakeupEmitterOpts = {
+  querier: Querier;
+  table?: string;
+  // How often to check for new events (default: 100)
+  intervalMs?: number;
+};
+
+/**
+ * Creates a polling wakeup emitter for SQLite, which has no change notifications.
+ * It cheaply checks the highest rowid of the events table and emits 'wakeup' when it grows,
+ * so the processor can use a long `pollingIntervalMs` while still reacting quickly to new events.
+ *
+ * @param opts - Options for the wakeup emitter
+ * @returns A WakeupEmitter that emits 'wakeup' events when new events are inserted
+ */
+export const createWakeupEmitter = (
+  opts: CreateWakeupEmitterOpts,
+): WakeupEmitter => {
+  const { querier, table = "events", intervalMs = 100 } = opts;
+  const emitter = new EventEmitter();
+  const statement = querier.prepare(
+    `SELECT MAX(rowid) AS max_rowid FROM ${escapeIdentifier(table)}`,
+  );
+  const getMaxRowId = () =>
+    (statement.get() as { max_rowid: number | null } | undefined)?.max_rowid ??
+    0;
+
+  let maxRowId = getMaxRowId();
+  let connected = true;
+  const interval = setInterval(() => {
+    try {
+      const currentMaxRowId = getMaxRowId();
+      connected = true;
+      if (currentMaxRowId > maxRowId) {
+        maxRowId = currentMaxRowId;
+        emitter.emit("wakeup");
+      }
+    } catch (error) {
+      connected = false;
+      // Emitting 'error' without a listener would throw from the timer and crash the process
+      if (emitter.listenerCount("error") > 0) {
+        emitter.emit("error", error);
+      }
+    }
+  }, intervalMs);
+  interval.unref();
+
+  return {
+    on: (event: "wakeup", listener: () => void) => {
+      emitter.on(event, listener);
+    },
+    off: (event: "wakeup", listener: () => void) => {
+      emitter.off(event, listener);
+    },
+    close: async () => {
+      clearInterval(interval);
+    },
+    isConnected: () => connected,
+    onError: (listener: (error: unknown) => void) => {
+      emitter.on("error", listener);
+    },
+  };
+};
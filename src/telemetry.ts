@@ -18,11 +18,32 @@ export interface TxOBTelemetrySpan {
   end(): void;
 }
 
+// W3C Trace Context, as carried by the `traceparent` and `tracestate` headers
+export type TxOBTraceContext = {
+  traceparent: string;
+  tracestate?: string;
+};
+
+// How spans of an event relate to the trace context it was published in
+export type TxOBTraceContextRelation = "child" | "link";
+
 export interface TxOBTelemetryTracer {
   startSpan(
     name: string,
     options?: { attributes?: TxOBTelemetryAttributes },
   ): TxOBTelemetrySpan;
+  // Trace context propagation is only enabled for tracers implementing both methods below
+  // Returns the active trace context, which publishers store with the event
+  getActiveTraceContext?(): TxOBTraceContext | undefined;
+  // Starts a span as the child of the stored trace context or linked to it
+  startSpanFromTraceContext?(
+    name: string,
+    options: {
+      attributes?: TxOBTelemetryAttributes;
+      traceContext: TxOBTraceContext;
+      relation: TxOBTraceContextRelation;
+    },
+  ): TxOBTelemetrySpan;
 }
 
 export interface TxOBTelemetryCounter {
@@ -33,6 +54,14 @@ export interface TxOBTelemetryHistogram {
   record(value: number, attributes?: TxOBTelemetryAttributes): void;
 }
 
+export interface TxOBTelemetryObservableResult {
+  observe(value: number, attributes?: TxOBTelemetryAttributes): void;
+}
+
+export interface TxOBTelemetryObservableGauge {
+  addCallback(callback: (result: TxOBTelemetryObservableResult) => void): void;
+}
+
 export interface TxOBTelemetryMeter {
   createCounter(
     name: string,
@@ -42,29 +71,52 @@ export interface TxOBTelemetryMeter {
     name: string,
     options?: { description?: string; unit?: string },
   ): TxOBTelemetryHistogram;
+  // Backlog gauges are only recorded by meters that implement it
+  createObservableGauge?(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): TxOBTelemetryObservableGauge;
 }
 
 export type TxOBTelemetry = {
   tracer?: TxOBTelemetryTracer;
   meter?: TxOBTelemetryMeter;
   attributes?: TxOBTelemetryAttributes;
+  // Defaults to "child"
+  traceContextRelation?: TxOBTraceContextRelation;
 };
 
 export type TxOBTelemetryInstruments = {
   tracer?: TxOBTelemetryTracer;
   attributes?: TxOBTelemetryAttributes;
+  traceContextRelation?: TxOBTraceContextRelation;
   eventCounter?: TxOBTelemetryCounter;
   eventDuration?: TxOBTelemetryHistogram;
   handlerCounter?: TxOBTelemetryCounter;
   handlerDuration?: TxOBTelemetryHistogram;
   pollCounter?: TxOBTelemetryCounter;
   pollDuration?: TxOBTelemetryHistogram;
+  retentionPurgedCounter?: TxOBTelemetryCounter;
+  circuitBreakerTransitionCounter?: TxOBTelemetryCounter;
+};
+
+export type TxOBTelemetryBacklogGauges = {
+  pendingGauge: TxOBTelemetryObservableGauge;
+  retryingGauge: TxOBTelemetryObservableGauge;
+  deadLetteredGauge: TxOBTelemetryObservableGauge;
+  oldestPendingAgeGauge: TxOBTelemetryObservableGauge;
+};
+
+export type TxOBTelemetryGaugeObservation = {
+  value: number;
+  attributes?: TxOBTelemetryAttributes;
 };
 
 export const TxOBTelemetrySpanName = {
   Poll: "txob.poll",
   EventProcess: "txob.event.process",
   HandlerProcess: "txob.handler.process",
+  RetentionRun: "txob.retention.run",
 } as const;
 
 export const TxOBTelemetryMetricName = {
@@ -74,6 +126,12 @@ export const TxOBTelemetryMetricName = {
   EventProcessingDuration: "txob.event.processing.duration",
   HandlerProcessingCount: "txob.handler.processing.count",
   HandlerProcessingDuration: "txob.handler.processing.duration",
+  RetentionPurgedCount: "txob.retention.purged.count",
+  CircuitBreakerTransitionCount: "txob.handler.circuit_breaker.transition.count",
+  BacklogPending: "txob.backlog.pending",
+  BacklogRetrying: "txob.backlog.retrying",
+  BacklogDeadLettered: "txob.backlog.dead_lettered",
+  BacklogOldestPendingAge: "txob.backlog.oldest_pending.age",
 } as const;
 
 export const TxOBTelemetryAttributeKey = {
@@ -89,12 +147,22 @@ export const TxOBTelemetryAttributeKey = {
   QueueMaxSize: "txob.queue.max_size",
   EventsFound: "txob.events.found",
   EventsQueued: "txob.events.queued",
+  RetentionKind: "txob.retention.kind",
+  EventsPurged: "txob.events.purged",
+  CircuitBreakerState: "txob.circuit_breaker.state",
 } as const;
 
 export const TxOBTelemetryEventOutcome = {
   Success: "success",
   Error: "error",
   MaxErrors: "max_errors",
+  InvalidData: "invalid_data",
+  LeaseLost: "lease_lost",
+  ClaimLost: "claim_lost",
+  // No handler failed but one was deferred because its circuit is open
+  CircuitOpen: "circuit_open",
+  // No handler failed but one was deferred by a rate limit
+  RateLimited: "rate_limited",
   SkippedLocked: "skipped.locked",
   SkippedProcessed: "skipped.processed",
   SkippedMaxErrors: "skipped.max_errors",
@@ -104,8 +172,12 @@ export const TxOBTelemetryHandlerOutcome = {
   Success: "success",
   Error: "error",
   Unprocessable: "unprocessable",
+  Timeout: "timeout",
   SkippedProcessed: "skipped.processed",
   SkippedUnprocessable: "skipped.unprocessable",
+  SkippedExhausted: "skipped.exhausted",
+  SkippedCircuitOpen: "skipped.circuit_open",
+  SkippedRateLimited: "skipped.rate_limited",
 } as const;
 
 export const TxOBTelemetryPollOutcome = {
@@ -115,12 +187,19 @@ export const TxOBTelemetryPollOutcome = {
   SkippedQueueFull: "skipped.queue_full",
 } as const;
 
+export const TxOBTelemetryRetentionKind = {
+  Processed: "processed",
+  DeadLettered: "dead_lettered",
+} as const;
+
 export type TxOBTelemetryEventOutcome =
   (typeof TxOBTelemetryEventOutcome)[keyof typeof TxOBTelemetryEventOutcome];
 export type TxOBTelemetryHandlerOutcome =
   (typeof TxOBTelemetryHandlerOutcome)[keyof typeof TxOBTelemetryHandlerOutcome];
 export type TxOBTelemetryPollOutcome =
   (typeof TxOBTelemetryPollOutcome)[keyof typeof TxOBTelemetryPollOutcome];
+export type TxOBTelemetryRetentionKind =
+  (typeof TxOBTelemetryRetentionKind)[keyof typeof TxOBTelemetryRetentionKind];
 
 const telemetryStatusCode = {
   OK: 1,
@@ -145,6 +224,7 @@ export const createTelemetryInstruments = (
   return {
     tracer: telemetry?.tracer,
     attributes: telemetry?.attributes,
+    traceContextRelation: telemetry?.traceContextRelation,
     eventCounter: telemetry?.meter?.createCounter(
       TxOBTelemetryMetricName.EventProcessingCount,
       {
@@ -187,6 +267,67 @@ export const createTelemetryInstruments = (
         unit: "ms",
       },
     ),
+    circuitBreakerTransitionCounter: telemetry?.meter?.createCounter(
+      TxOBTelemetryMetricName.CircuitBreakerTransitionCount,
+      {
+        description: "Number of handler circuit breaker state transitions by new state.",
+        unit: "{transition}",
+      },
+    ),
+  };
+};
+
+export const createRetentionTelemetryInstruments = (
+  telemetry?: TxOBTelemetry,
+): TxOBTelemetryInstruments => ({
+  tracer: telemetry?.tracer,
+  attributes: telemetry?.attributes,
+  retentionPurgedCounter: telemetry?.meter?.createCounter(
+    TxOBTelemetryMetricName.RetentionPurgedCount,
+    {
+      description: "Number of processed outbox events deleted or archived by retention.",
+      unit: "{event}",
+    },
+  ),
+});
+
+export const createBacklogTelemetryGauges = (
+  telemetry?: TxOBTelemetry,
+): TxOBTelemetryBacklogGauges | undefined => {
+  const meter = telemetry?.meter;
+  if (!meter?.createObservableGauge) {
+    return undefined;
+  }
+
+  return {
+    pendingGauge: meter.createObservableGauge(
+      TxOBTelemetryMetricName.BacklogPending,
+      {
+        description: "Number of unprocessed outbox events below max errors by type.",
+        unit: "{event}",
+      },
+    ),
+    retryingGauge: meter.createObservableGauge(
+      TxOBTelemetryMetricName.BacklogRetrying,
+      {
+        description: "Number of pending outbox events that failed at least once by type.",
+        unit: "{event}",
+      },
+    ),
+    deadLetteredGauge: meter.createObservableGauge(
+      TxOBTelemetryMetricName.BacklogDeadLettered,
+      {
+        description: "Number of outbox events that reached max errors by type.",
+        unit: "{event}",
+      },
+    ),
+    oldestPendingAgeGauge: meter.createObservableGauge(
+      TxOBTelemetryMetricName.BacklogOldestPendingAge,
+      {
+        description: "Age of the oldest pending outbox event by type.",
+        unit: "ms",
+      },
+    ),
   };
 };
 
@@ -198,18 +339,41 @@ const mergeTelemetryAttributes = (
   ...attributes,
 });
 
+export const isTraceContextPropagated = (
+  tracer: TxOBTelemetryTracer | undefined,
+): boolean =>
+  !!tracer?.getActiveTraceContext && !!tracer.startSpanFromTraceContext;
+
+export const getActiveTraceContext = (
+  tracer: TxOBTelemetryTracer | undefined,
+): TxOBTraceContext | undefined =>
+  suppressTelemetryRuntimeError(
+    () =>
+      isTraceContextPropagated(tracer)
+        ? tracer?.getActiveTraceContext?.()
+        : undefined,
+    undefined,
+  );
+
 export const startTelemetrySpan = (
   telemetry: TxOBTelemetryInstruments | undefined,
   name: string,
   attributes?: TxOBTelemetryAttributes,
+  traceContext?: TxOBTraceContext,
 ): TxOBTelemetrySpan | undefined =>
-  suppressTelemetryRuntimeError(
-    () =>
-      telemetry?.tracer?.startSpan(name, {
-        attributes: mergeTelemetryAttributes(telemetry, attributes),
-      }),
-    undefined,
-  );
+  suppressTelemetryRuntimeError(() => {
+    const tracer = telemetry?.tracer;
+    const mergedAttributes = mergeTelemetryAttributes(telemetry, attributes);
+    if (traceContext && isTraceContextPropagated(tracer)) {
+      return tracer?.startSpanFromTraceContext?.(name, {
+        attributes: mergedAttributes,
+        traceContext,
+        relation: telemetry?.traceContextRelation ?? "child",
+      });
+    }
+
+    return tracer?.startSpan(name, { attributes: mergedAttributes });
+  }, undefined);
 
 export const setTelemetrySpanAttributes = (
   span: TxOBTelemetrySpan | undefined,
@@ -242,9 +406,10 @@ export const recordTelemetryCounter = (
   counter: TxOBTelemetryCounter | undefined,
   telemetry: TxOBTelemetryInstruments | undefined,
   attributes?: TxOBTelemetryAttributes,
+  value = 1,
 ): void => {
   suppressTelemetryRuntimeError(() => {
-    counter?.add(1, mergeTelemetryAttributes(telemetry, attributes));
+    counter?.add(value, mergeTelemetryAttributes(telemetry, attributes));
   }, undefined);
 };
 
@@ -261,3 +426,17 @@ export const recordTelemetryDuration = (
     );
   }, undefined);
 };
+
+export const observeTelemetryGauge = (
+  gauge: TxOBTelemetryObservableGauge | undefined,
+  telemetry: TxOBTelemetryInstruments | undefined,
+  getObservations: () => TxOBTelemetryGaugeObservation[],
+): void => {
+  gauge?.addCallback((result) => {
+    suppressTelemetryRuntimeError(() => {
+      for (const { value, attributes } of getObservations()) {
+        result.observe(value, mergeTelemetryAttributes(telemetry, attributes));
+      }
+    }, undefined);
+  });
+};